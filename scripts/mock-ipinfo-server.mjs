@@ -0,0 +1,64 @@
+// Local stand-in for an ipinfo.io style lookup service, for testing the REST enrichment provider.
+//
+//   npm run mock:ipinfo                       # listens on http://localhost:8789
+//   PORT=9001 DELAY_MS=1000 npm run mock:ipinfo
+//
+// GET /<address> answers with city, country, org ("AS<number> <name>") and usage fields.
+// Addresses starting with "0." get a 404, like an unknown address, and "255." ones a 429, like an
+// exhausted quota. Every request is logged so the enrichment rate limit and cache can be watched.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8789);
+const delay = Number(process.env.DELAY_MS ?? 100);
+let received = 0;
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Accept",
+};
+
+// Stable fake answers derived from the address
+function lookup(ip) {
+  const seed = [...ip].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 100000, 7);
+  const cities = [
+    ["Jakarta", "ID"],
+    ["Surabaya", "ID"],
+    ["Singapore", "SG"],
+    ["Frankfurt am Main", "DE"],
+    ["Ashburn", "US"],
+  ];
+  const [city, country] = cities[seed % cities.length];
+  return {
+    ip,
+    city,
+    country,
+    org: `AS${64500 + (seed % 10)} Mock Network ${seed % 10}`,
+    usage_type: seed % 2 ? "Data Center/Web Hosting/Transit" : "Fixed Line ISP",
+  };
+}
+
+const server = createServer((request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, cors).end();
+    return;
+  }
+  const ip = decodeURIComponent((request.url ?? "/").split("?")[0].slice(1).replace(/\/json$/, ""));
+  setTimeout(() => {
+    received++;
+    const status = request.method !== "GET" || !ip || ip.startsWith("0.") ? 404 : ip.startsWith("255.") ? 429 : 200;
+    console.log(`#${received} ${new Date().toISOString()} ${request.url} -> ${status}`);
+    response.writeHead(status, { ...cors, "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify(
+        status === 200
+          ? lookup(ip)
+          : status === 429
+            ? { error: { title: "Rate limit exceeded", message: "Upgrade to increase your usage limits" } }
+            : { error: { title: "Wrong ip", message: `${ip} not found` } }
+      )
+    );
+  }, delay);
+});
+
+server.listen(port, () => console.log(`Mock lookup service on http://localhost:${server.address().port}`));
@@ -0,0 +1,100 @@
+// Local RDAP server for testing the dashboard's WHOIS sheet without reaching the registries.
+//
+//   npm run mock:rdap                         # listens on http://localhost:8788
+//   VITE_RDAP_URL=http://localhost:8788 npm run dev
+//
+// GET /ip/<address> answers with a canned "ip network" record built around the address.
+// Addresses starting with "0." get a 404, "255." a 503, and DELAY_MS slows every answer down.
+// Abuse reports can be tried against `npm run mock:webhook`, which accepts any POST.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8788);
+const delay = Number(process.env.DELAY_MS ?? 300);
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Accept",
+};
+
+const vcard = (fn, email) => [
+  "vcard",
+  [
+    ["version", {}, "text", "4.0"],
+    ["fn", {}, "text", fn],
+    ["email", {}, "text", email],
+    ["tel", { type: "voice" }, "uri", "tel:+62-21-5550100"],
+    ["adr", { label: "Jl. Contoh No. 1\nJakarta\nIndonesia" }, "text", ["", "", "", "", "", "", ""]],
+  ],
+];
+
+function ipNetwork(ip) {
+  const v6 = ip.includes(":");
+  const prefix = v6 ? ip.split(":").slice(0, 3).join(":") + "::" : ip.split(".").slice(0, 3).join(".") + ".0";
+  return {
+    rdapConformance: ["rdap_level_0", "cidr0", "arin_originas0"],
+    objectClassName: "ip network",
+    handle: `MOCK-${prefix.toUpperCase()}`,
+    startAddress: prefix,
+    endAddress: v6 ? prefix.replace(/::$/, ":ffff:ffff:ffff:ffff:ffff") : prefix.replace(/\.0$/, ".255"),
+    ipVersion: v6 ? "v6" : "v4",
+    name: "MOCK-NET",
+    type: "ASSIGNED PA",
+    country: "ID",
+    parentHandle: "MOCK-PARENT",
+    status: ["active"],
+    cidr0_cidrs: [v6 ? { v6prefix: prefix, length: 48 } : { v4prefix: prefix, length: 24 }],
+    arin_originas0_originautnums: [64500, 64501],
+    events: [
+      { eventAction: "registration", eventDate: "2019-03-01T00:00:00Z" },
+      { eventAction: "last changed", eventDate: "2024-11-20T08:30:00Z" },
+    ],
+    remarks: [{ title: "Mock record", description: ["Served by scripts/mock-rdap-server.mjs"] }],
+    entities: [
+      {
+        objectClassName: "entity",
+        handle: "MOCK-ORG",
+        roles: ["registrant"],
+        vcardArray: vcard("PT Mock Network", "noc@mock.example"),
+        entities: [
+          {
+            objectClassName: "entity",
+            handle: "MOCK-ABUSE",
+            roles: ["abuse"],
+            vcardArray: vcard("Mock Abuse Desk", "abuse@mock.example"),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const server = createServer((request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, cors).end();
+    return;
+  }
+  const match = request.method === "GET" && /^\/ip\/([^/?]+)/.exec(request.url ?? "");
+  if (!match) {
+    response.writeHead(404, cors).end();
+    return;
+  }
+
+  const ip = decodeURIComponent(match[1]);
+  setTimeout(() => {
+    const status = ip.startsWith("0.") ? 404 : ip.startsWith("255.") ? 503 : 200;
+    console.log(`${new Date().toISOString()} ${request.url} -> ${status}`);
+    response.writeHead(status, { ...cors, "Content-Type": "application/rdap+json" });
+    response.end(
+      JSON.stringify(
+        status === 200
+          ? ipNetwork(ip)
+          : status === 404
+            ? { errorCode: 404, title: "Not Found", description: [`${ip} not found`] }
+            : { errorCode: 503, title: "Service Unavailable", description: ["Registry is overloaded"] }
+      )
+    );
+  }, delay);
+});
+
+server.listen(port, () => console.log(`Mock RDAP server on http://localhost:${server.address().port}`));
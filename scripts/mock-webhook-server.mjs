@@ -0,0 +1,50 @@
+// Local receiver for testing the dashboard's alert webhooks.
+//
+//   npm run mock:webhook                      # listens on http://localhost:8787
+//   PORT=9000 FAIL_FIRST=2 npm run mock:webhook
+//   PORT=0 npm run mock:webhook               # any free port, printed on start
+//
+// Every POST body is printed; the dashboard sends JSON as text/plain, so it is parsed regardless of type.
+// FAIL_FIRST answers that many requests with 503 first, to watch the retry and backoff in the delivery log.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8787);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+let received = 0;
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const server = createServer((request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, cors).end();
+    return;
+  }
+  if (request.method !== "POST") {
+    response.writeHead(405, cors).end();
+    return;
+  }
+
+  let body = "";
+  request.on("data", (chunk) => (body += chunk));
+  request.on("end", () => {
+    received++;
+    const status = failuresLeft > 0 ? 503 : 200;
+    if (failuresLeft > 0) failuresLeft--;
+
+    console.log(`\n#${received} ${new Date().toISOString()} ${request.url} -> ${status}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    response.writeHead(status, { ...cors, "Content-Type": "application/json" });
+    response.end(JSON.stringify({ ok: status === 200 }));
+  });
+});
+
+server.listen(port, () => console.log(`Mock webhook receiver on http://localhost:${server.address().port}`));
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Bell, BellOff, Check, Clock, Plus, Trash2 } from "lucide-react";
+import { AlertRule, AlertRuleKind } from "@/types/alerts";
+import { ALERT_RULE_KINDS, isSnoozed } from "@/lib/alertRules";
+import { useAlerts } from "@/hooks/use-alerts";
+import { cn } from "@/lib/utils";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "./ui/sheet";
+import { Switch } from "./ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { WebhookSettings } from "./WebhookSettings";
+
+const HOUR = 60 * 60 * 1000;
+const SNOOZE_OPTIONS = [
+  { label: "1 hour", duration: HOUR },
+  { label: "8 hours", duration: 8 * HOUR },
+  { label: "1 day", duration: 24 * HOUR },
+  { label: "1 week", duration: 7 * 24 * HOUR },
+];
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export function AlertInbox() {
+  const { rules, events, snoozes, unread, saveRules, acknowledge, snooze, unsnooze, clear } = useAlerts();
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported() ? Notification.permission : "denied"
+  );
+  const [newKind, setNewKind] = useState<AlertRuleKind>("new-ip-score");
+  const now = Date.now();
+
+  const requestPermission = async () => setPermission(await Notification.requestPermission());
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    saveRules(rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+
+  const addRule = () =>
+    saveRules([
+      ...rules,
+      {
+        id: `rule-${Date.now()}`,
+        kind: newKind,
+        name: ALERT_RULE_KINDS[newKind].label,
+        enabled: true,
+        threshold: ALERT_RULE_KINDS[newKind].defaultThreshold,
+      },
+    ]);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bell className="mr-2 h-4 w-4" />
+          Alerts
+          {unread > 0 && (
+            <Badge variant="destructive" className="ml-2 h-5 px-1.5">
+              {unread}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Alerts</SheetTitle>
+          <SheetDescription>Rules are checked on every refresh that changes the data.</SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="inbox" className="flex min-h-0 flex-1 flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="inbox">Inbox ({unread})</TabsTrigger>
+            <TabsTrigger value="rules">Rules ({rules.filter((rule) => rule.enabled).length})</TabsTrigger>
+            <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="inbox" className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => acknowledge("all")} disabled={unread === 0}>
+                <Check className="mr-2 h-4 w-4" />
+                Acknowledge all
+              </Button>
+              <Button variant="outline" size="sm" onClick={clear} disabled={events.length === 0}>
+                Clear inbox
+              </Button>
+              {permission === "default" && (
+                <Button variant="outline" size="sm" onClick={requestPermission}>
+                  Enable browser notifications
+                </Button>
+              )}
+              {permission === "denied" && (
+                <span className="self-center text-xs text-muted-foreground">Browser notifications are blocked</span>
+              )}
+            </div>
+
+            {events.length === 0 && (
+              <p className="py-8 text-center text-sm text-muted-foreground">No alerts yet.</p>
+            )}
+            {events.map((event) => {
+              const snoozed = isSnoozed(snoozes, event.key, now);
+              return (
+                <div
+                  key={event.id}
+                  className={cn(
+                    "rounded-lg border border-border p-3",
+                    !event.acknowledged && "border-l-4 border-l-danger",
+                    snoozed && "opacity-60"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold">
+                        {event.ip ? (
+                          <Link to={`/ip/${encodeURIComponent(event.ip)}`} className="hover:underline">
+                            {event.title}
+                          </Link>
+                        ) : (
+                          event.title
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{event.message}</p>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {event.ruleName} • {new Date(event.firedAt).toLocaleString("id-ID")}
+                        {snoozed && ` • snoozed until ${new Date(snoozes[event.key]).toLocaleString("id-ID")}`}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      {!event.acknowledged && (
+                        <Button variant="ghost" size="icon" title="Acknowledge" onClick={() => acknowledge([event.id])}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {snoozed ? (
+                        <Button variant="ghost" size="icon" title="Unsnooze" onClick={() => unsnooze(event.key)}>
+                          <BellOff className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Snooze">
+                              <Clock className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Mute this alert for</DropdownMenuLabel>
+                            {SNOOZE_OPTIONS.map(({ label, duration }) => (
+                              <DropdownMenuItem key={label} onSelect={() => snooze(event.key, Date.now() + duration)}>
+                                {label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </TabsContent>
+
+          <TabsContent value="rules" className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+            {rules.map((rule) => {
+              const kind = ALERT_RULE_KINDS[rule.kind];
+              return (
+                <div key={rule.id} className="space-y-2 rounded-lg border border-border p-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                      aria-label="Enabled"
+                    />
+                    <Input
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                      aria-label="Rule name"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete rule"
+                      onClick={() => saveRules(rules.filter((r) => r.id !== rule.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="flex-1">{kind.label}</span>
+                    {kind.thresholdLabel && (
+                      <>
+                        <Label htmlFor={`threshold-${rule.id}`} className="text-xs font-normal">
+                          {kind.thresholdLabel}
+                        </Label>
+                        <Input
+                          id={`threshold-${rule.id}`}
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="h-8 w-20"
+                          value={rule.threshold}
+                          onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) })}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex gap-2">
+              <Select value={newKind} onValueChange={(value) => setNewKind(value as AlertRuleKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {ALERT_RULE_KINDS[kind].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={addRule}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add rule
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="webhooks" className="min-h-0 flex-1 overflow-y-auto">
+            <WebhookSettings />
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
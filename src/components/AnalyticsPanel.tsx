@@ -0,0 +1,185 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { AggregatedIPData } from "@/types/ipData";
+import { FacetField, FacetFilter } from "@/lib/facets";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { ChartDatum, countByFacet, reportsOverTime, scoreHistogram, topByFacet } from "@/lib/analytics";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+
+interface AnalyticsPanelProps {
+  records: AggregatedIPData[];
+  onSelect: (facet: FacetFilter) => void;
+}
+
+const countConfig = {
+  value: { label: "IPs", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const actionConfig = {
+  Blocked: { label: "Blocked", color: "hsl(var(--danger))" },
+  Alerted: { label: "Alerted", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+export function AnalyticsPanel({ records, onSelect }: AnalyticsPanelProps) {
+  const { policy } = useRiskPolicy();
+  const charts = useMemo(
+    () => ({
+      scores: scoreHistogram(records),
+      countries: topByFacet(records, "Country"),
+      regions: topByFacet(records, "region"),
+      isps: topByFacet(records, "ISP"),
+      asns: topByFacet(records, "ASN"),
+      activities: topByFacet(records, "JenisAktivitas"),
+      usageTypes: topByFacet(records, "UsageType"),
+      actions: countByFacet(records, "Action"),
+      timeline: reportsOverTime(records),
+    }),
+    [records]
+  );
+
+  if (records.length === 0) {
+    return (
+      <div className="flex min-h-[200px] items-center justify-center">
+        <p className="text-muted-foreground">No data to chart for the current filters.</p>
+      </div>
+    );
+  }
+
+  const select = (field: FacetField) => (datum: ChartDatum) => onSelect({ field, value: datum.key });
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <ChartCard title="Score distribution" description="IPs per abuse confidence range">
+        <VerticalBars
+          data={charts.scores}
+          onSelect={select("scoreBucket")}
+          // Buckets are colored by the risk tier of their lower bound
+          colorOf={(datum) => RISK_COLORS[tierFor(parseInt(datum.key, 10), policy).color].fill}
+        />
+      </ChartCard>
+
+      <ChartCard title="Blocked vs alerted" description="Share of IPs per action">
+        <ChartContainer config={actionConfig} className="aspect-auto h-[260px] w-full">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+            <Pie
+              data={charts.actions}
+              dataKey="value"
+              nameKey="key"
+              innerRadius={60}
+              className="cursor-pointer"
+              onClick={(entry) => select("Action")(entry.payload as ChartDatum)}
+            >
+              {charts.actions.map((datum) => (
+                <Cell key={datum.key} fill={`var(--color-${datum.key})`} />
+              ))}
+            </Pie>
+          </PieChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="Top countries">
+        <HorizontalBars data={charts.countries} onSelect={select("Country")} />
+      </ChartCard>
+
+      <ChartCard title="Regions" description="Countries grouped by UN region">
+        <HorizontalBars data={charts.regions} onSelect={select("region")} />
+      </ChartCard>
+
+      <ChartCard title="Activity types" description="Jenis Aktivitas">
+        <HorizontalBars data={charts.activities} onSelect={select("JenisAktivitas")} />
+      </ChartCard>
+
+      <ChartCard title="Top ISPs">
+        <HorizontalBars data={charts.isps} onSelect={select("ISP")} />
+      </ChartCard>
+
+      <ChartCard title="Top ASNs">
+        <HorizontalBars data={charts.asns} onSelect={select("ASN")} />
+      </ChartCard>
+
+      <ChartCard title="Usage types">
+        <HorizontalBars data={charts.usageTypes} onSelect={select("UsageType")} />
+      </ChartCard>
+
+      <ChartCard title="Reports over time" description="IPs by day of their last report">
+        <VerticalBars data={charts.timeline} onSelect={select("reportedDay")} />
+      </ChartCard>
+    </div>
+  );
+}
+
+function ChartCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+interface BarsProps {
+  data: ChartDatum[];
+  onSelect: (datum: ChartDatum) => void;
+}
+
+function VerticalBars({ data, onSelect, colorOf }: BarsProps & { colorOf?: (datum: ChartDatum) => string }) {
+  return (
+    <ChartContainer config={countConfig} className="aspect-auto h-[260px] w-full">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} minTickGap={8} />
+        <YAxis allowDecimals={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar
+          dataKey="value"
+          fill="var(--color-value)"
+          radius={4}
+          className="cursor-pointer"
+          onClick={(entry) => onSelect(entry.payload as ChartDatum)}
+        >
+          {colorOf && data.map((datum) => <Cell key={datum.key} fill={colorOf(datum)} />)}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+function HorizontalBars({ data, onSelect }: BarsProps) {
+  return (
+    <ChartContainer config={countConfig} className="aspect-auto h-[260px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 8 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} />
+        <YAxis
+          type="category"
+          dataKey="label"
+          width={140}
+          tickLine={false}
+          tickFormatter={(value: string) => (value.length > 20 ? `${value.slice(0, 19)}…` : value)}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar
+          dataKey="value"
+          fill="var(--color-value)"
+          radius={4}
+          className="cursor-pointer"
+          onClick={(entry) => onSelect(entry.payload as ChartDatum)}
+        />
+      </BarChart>
+    </ChartContainer>
+  );
+}
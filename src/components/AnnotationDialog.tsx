@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { NotebookPen, X } from "lucide-react";
+import { TriageStatus } from "@/types/annotations";
+import { SUGGESTED_TAGS, TRIAGE_STATUSES } from "@/lib/annotations";
+import { useAnnotation, useAnnotations } from "@/hooks/use-annotations";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+
+export function AnnotationDialog({ ip }: { ip: string }) {
+  const { annotation, update } = useAnnotation(ip);
+  const { annotations } = useAnnotations();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(annotation);
+  const [tagInput, setTagInput] = useState("");
+
+  // Tags already used on other IPs are offered first
+  const knownTags = [
+    ...new Set([...Object.values(annotations).flatMap((a) => a.tags), ...SUGGESTED_TAGS]),
+  ].filter((tag) => !draft.tags.includes(tag));
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(annotation);
+      setTagInput("");
+    }
+    setOpen(next);
+  };
+
+  const addTag = (tag: string) => {
+    const value = tag.trim().toLowerCase();
+    if (value && !draft.tags.includes(value)) setDraft({ ...draft, tags: [...draft.tags, value] });
+    setTagInput("");
+  };
+
+  const handleSave = () => {
+    // A tag still in the input counts, even without pressing Enter
+    const pending = tagInput.trim().toLowerCase();
+    update({
+      notes: draft.notes,
+      tags: pending && !draft.tags.includes(pending) ? [...draft.tags, pending] : draft.tags,
+      status: draft.status,
+      assignee: draft.assignee.trim(),
+      watched: draft.watched,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <NotebookPen className="mr-2 h-4 w-4" />
+          Annotate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notes for {ip}</DialogTitle>
+          <DialogDescription>Stored in this browser only.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Triage status</Label>
+              <Select value={draft.status} onValueChange={(status) => setDraft({ ...draft, status: status as TriageStatus })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRIAGE_STATUSES.map(({ status, label }) => (
+                    <SelectItem key={status} value={status}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="annotation-assignee">Assignee</Label>
+              <Input
+                id="annotation-assignee"
+                placeholder="Unassigned"
+                value={draft.assignee}
+                onChange={(e) => setDraft({ ...draft, assignee: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="annotation-tags">Tags</Label>
+            {draft.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {draft.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, tags: draft.tags.filter((t) => t !== tag) })}
+                      aria-label={`Remove ${tag}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="annotation-tags"
+              placeholder="Type a tag and press Enter"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === ",") {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+            />
+            <div className="flex flex-wrap gap-1">
+              {knownTags.slice(0, 8).map((tag) => (
+                <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => addTag(tag)}>
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="annotation-notes">Notes</Label>
+            <Textarea
+              id="annotation-notes"
+              rows={5}
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="annotation-watched"
+              checked={draft.watched}
+              onCheckedChange={(watched) => setDraft({ ...draft, watched })}
+            />
+            <Label htmlFor="annotation-watched">On the watchlist (pinned to the top)</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
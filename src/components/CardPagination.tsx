@@ -0,0 +1,95 @@
+import { MouseEvent } from "react";
+import { PAGE_SIZES } from "@/hooks/use-page-size";
+import { cn } from "@/lib/utils";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "./ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+// First, last and the pages around the current one, with gaps marked as null
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) pages.push(p);
+    else if (pages[pages.length - 1] !== null) pages.push(null);
+  }
+  return pages;
+}
+
+interface CardPaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (size: number) => void;
+}
+
+export function CardPagination({ page, pageCount, pageSize, total, onPageChange, onPageSizeChange }: CardPaginationProps) {
+  const go = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-col items-center gap-3 sm:flex-row sm:justify-between">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>
+          {first}–{last} of {total}
+        </span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size} / page
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={go(page - 1)}
+                className={cn(page === 1 && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+            {pageWindow(page, pageCount).map((p, index) => (
+              <PaginationItem key={p ?? `gap-${index}`}>
+                {p === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={p === page} onClick={go(p)}>
+                    {p}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={go(page + 1)}
+                className={cn(page === pageCount && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
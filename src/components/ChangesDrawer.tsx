@@ -0,0 +1,60 @@
+import { History } from "lucide-react";
+import { SnapshotDiff } from "@/lib/ipDiff";
+import { SnapshotDiffView } from "./SnapshotDiffView";
+import { Button } from "./ui/button";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "./ui/drawer";
+
+interface ChangesDrawerProps {
+  history: SnapshotDiff[];
+  onClear: () => void;
+}
+
+export function ChangesDrawer({ history, onClear }: ChangesDrawerProps) {
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="mr-2 h-4 w-4" />
+          What changed ({history.length})
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent className="max-h-[85vh]">
+        <DrawerHeader>
+          <DrawerTitle>What changed</DrawerTitle>
+          <DrawerDescription>
+            Differences found by the last {history.length} refresh{history.length === 1 ? "" : "es"} that changed
+            the data, newest first.
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="space-y-4 overflow-y-auto px-4">
+          {history.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">No changes since the dashboard was opened.</p>
+          )}
+          {history.map((diff) => (
+            <section key={diff.at} className="rounded-lg border border-border p-4">
+              <p className="mb-3 text-sm font-semibold text-foreground">
+                {new Date(diff.at).toLocaleTimeString("id-ID")}
+              </p>
+              <SnapshotDiffView diff={diff} />
+            </section>
+          ))}
+        </div>
+
+        <DrawerFooter>
+          <Button variant="outline" onClick={onClear} disabled={history.length === 0}>
+            Clear history
+          </Button>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  );
+}
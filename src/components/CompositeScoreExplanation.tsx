@@ -0,0 +1,32 @@
+import { CompositeExplanation } from "@/lib/compositeScore";
+import { Progress } from "./ui/progress";
+
+// Breakdown of a composite score: how strong each signal is and the points it adds
+export function CompositeScoreExplanation({ explanation }: { explanation: CompositeExplanation }) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-semibold">Composite risk: {explanation.score} / 100</p>
+        <p className="text-xs text-muted-foreground">
+          Weighted average of the signals below. Weights can be changed in the risk settings.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {explanation.contributions.map((contribution) => (
+          <div key={contribution.signal} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2 text-xs">
+              <span className="font-medium">
+                {contribution.label} <span className="font-normal text-muted-foreground">(weight {contribution.weight})</span>
+              </span>
+              <span className="tabular-nums">+{contribution.points.toFixed(1)}</span>
+            </div>
+            <Progress value={contribution.value * 100} className="h-1.5" />
+            <p className="truncate text-xs text-muted-foreground" title={contribution.detail}>
+              {contribution.detail}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
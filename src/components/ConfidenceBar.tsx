@@ -1,4 +1,6 @@
 import { cn } from "@/lib/utils";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
 
 interface ConfidenceBarProps {
   score: number;
@@ -6,12 +8,7 @@ interface ConfidenceBarProps {
 }
 
 export function ConfidenceBar({ score, className }: ConfidenceBarProps) {
-  const getColorClass = (score: number) => {
-    if (score >= 75) return "bg-danger";
-    if (score >= 50) return "bg-warning";
-    if (score >= 25) return "bg-primary";
-    return "bg-success";
-  };
+  const { policy } = useRiskPolicy();
 
   return (
     <div className={cn("w-full", className)}>
@@ -19,7 +16,7 @@ export function ConfidenceBar({ score, className }: ConfidenceBarProps) {
         <div
           className={cn(
             "h-full transition-all duration-500 ease-out flex items-center justify-center",
-            getColorClass(score)
+            RISK_COLORS[tierFor(score, policy).color].bg
           )}
           style={{ width: `${Math.max(score, 5)}%` }}
         >
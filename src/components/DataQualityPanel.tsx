@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { ChevronDown, FileWarning } from "lucide-react";
+import { ColumnReport, RejectedRow } from "@/types/dataSource";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+
+interface DataQualityPanelProps {
+  columns: ColumnReport | null;
+  rejected: RejectedRow[];
+}
+
+export function DataQualityPanel({ columns, rejected }: DataQualityPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!columns) return null;
+
+  const columnIssues = columns.missingOptional.length + columns.unknown.length;
+  if (columnIssues === 0 && rejected.length === 0) return null;
+
+  const summary = [
+    rejected.length > 0 && `${rejected.length} row${rejected.length === 1 ? "" : "s"} rejected`,
+    columnIssues > 0 && `${columnIssues} column issue${columnIssues === 1 ? "" : "s"} in the source header`,
+  ].filter(Boolean);
+
+  return (
+    <Alert className="border-warning/40 bg-warning/5">
+      <FileWarning className="h-4 w-4" />
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <AlertTitle>Data quality</AlertTitle>
+            <AlertDescription className="text-muted-foreground">
+              {summary.join(" • ")}
+            </AlertDescription>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm">
+              Details
+              <ChevronDown className={`ml-1 h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent className="mt-3 space-y-3 text-sm">
+          {rejected.length > 0 && (
+            <div>
+              <p className="mb-1 font-medium text-foreground">Rejected rows</p>
+              <div className="max-h-64 overflow-y-auto rounded border border-border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Line</TableHead>
+                      <TableHead className="w-48">IP</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rejected.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="font-mono">{row.line}</TableCell>
+                        <TableCell className="font-mono">{row.ip || "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+          {columns.missingOptional.length > 0 && (
+            <IssueList
+              title="Missing optional columns (shown as '-')"
+              items={columns.missingOptional}
+            />
+          )}
+          {columns.unknown.length > 0 && (
+            <IssueList title="Unrecognized columns (ignored)" items={columns.unknown} />
+          )}
+          <div>
+            <p className="mb-1 font-medium text-foreground">Column mapping</p>
+            <div className="grid gap-x-4 gap-y-1 text-xs sm:grid-cols-2">
+              {Object.entries(columns.mapped).map(([field, header]) => (
+                <span key={field} className="text-muted-foreground">
+                  <span className="font-mono text-foreground">{field}</span> ← {header}
+                </span>
+              ))}
+            </div>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Alert>
+  );
+}
+
+function IssueList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <div>
+      <p className="mb-1 font-medium text-foreground">{title}</p>
+      <div className="flex flex-wrap gap-1">
+        {items.map((item) => (
+          <Badge key={item} variant="outline" className="font-mono">
+            {item}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Database } from "lucide-react";
+import { DataSourceConfig, DataSourceKind } from "@/types/dataSource";
+import { DATA_SOURCE_LABELS } from "@/services/dataSources";
+import { formatColumnAliases, parseColumnAliases } from "@/services/columnMapping";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { toast } from "sonner";
+
+interface DataSourceDialogProps {
+  config: DataSourceConfig;
+  onChange: (config: DataSourceConfig | null) => void;
+}
+
+export function DataSourceDialog({ config, onChange }: DataSourceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<DataSourceKind>(config.kind);
+  const [url, setUrl] = useState("url" in config ? config.url ?? "" : "");
+  const [file, setFile] = useState<{ fileName: string; content: string } | null>(
+    config.kind === "file" ? { fileName: config.fileName, content: config.content } : null
+  );
+  const [aliases, setAliases] = useState(formatColumnAliases("columns" in config ? config.columns : undefined));
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setKind(config.kind);
+      setUrl("url" in config ? config.url ?? "" : "");
+      setFile(config.kind === "file" ? { fileName: config.fileName, content: config.content } : null);
+      setAliases(formatColumnAliases("columns" in config ? config.columns : undefined));
+    }
+    setOpen(next);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile({ fileName: selected.name, content: await selected.text() });
+  };
+
+  const handleSave = () => {
+    if (kind === "rest" && !url) {
+      toast.error("Enter the URL of the REST endpoint");
+      return;
+    }
+    if (kind === "file" && !file) {
+      toast.error("Choose a CSV or JSON file to upload");
+      return;
+    }
+
+    let columns;
+    try {
+      columns = parseColumnAliases(aliases);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+
+    const next: DataSourceConfig =
+      kind === "rest" ? { kind, url, columns }
+        : kind === "file" ? { kind, ...file!, columns }
+        : kind === "fixture" ? { kind }
+        : { kind, url: url || undefined, columns };
+
+    onChange(next);
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    onChange(null);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={`Data source: ${DATA_SOURCE_LABELS[config.kind]}`}>
+          <Database className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Data source</DialogTitle>
+          <DialogDescription>Choose where the dashboard reads its IP records from.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as DataSourceKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DATA_SOURCE_LABELS) as DataSourceKind[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {DATA_SOURCE_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(kind === "google-sheet" || kind === "rest") && (
+            <div className="space-y-2">
+              <Label htmlFor="data-source-url">
+                {kind === "rest" ? "Endpoint URL" : "Published CSV URL (optional)"}
+              </Label>
+              <Input
+                id="data-source-url"
+                placeholder={kind === "rest" ? "http://localhost:3000/api/ips" : "Default sheet"}
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+            </div>
+          )}
+
+          {kind === "file" && (
+            <div className="space-y-2">
+              <Label htmlFor="data-source-file">CSV or JSON file</Label>
+              <Input
+                id="data-source-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              {file && <p className="text-xs text-muted-foreground">Loaded {file.fileName}</p>}
+            </div>
+          )}
+
+          {kind !== "fixture" && (
+            <div className="space-y-2">
+              <Label htmlFor="data-source-columns">Extra column names (optional)</Label>
+              <Textarea
+                id="data-source-columns"
+                placeholder={"JenisAktivitas: Activity Name\nAbuseConfidenceScore: Skor"}
+                value={aliases}
+                onChange={(e) => setAliases(e.target.value)}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                One field per line. Headers are matched by name, so columns may be reordered freely.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleReset}>
+            Reset to default
+          </Button>
+          <Button onClick={handleSave}>Use this source</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, DatabaseZap, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { EnrichmentProviderConfig, EnrichmentProviderKind } from "@/types/enrichment";
+import {
+  ENRICHMENT_PROVIDER_LABELS,
+  GeoIPDataset,
+  cachedLookupCount,
+  clearLookupCache,
+  createEnrichmentProvider,
+  deleteGeoIPDataset,
+  describeGeoIPDataset,
+  readGeoIPFile,
+  saveGeoIPDataset,
+} from "@/services/enrichment";
+import { DEFAULT_RDAP_RATE_LIMIT } from "@/services/enrichment/rdapProvider";
+import { DEFAULT_REST_RATE_LIMIT } from "@/services/enrichment/restProvider";
+import { useEnrichmentProviders } from "@/hooks/use-enrichment";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+
+const describe = (config: EnrichmentProviderConfig) => {
+  switch (config.kind) {
+    case "geoip":
+      return `${config.fileName} • ${config.format.toUpperCase()}`;
+    case "rdap":
+      return `${config.url || "rdap.org"} • ${config.rateLimit ?? DEFAULT_RDAP_RATE_LIMIT}/s`;
+    case "rest":
+      return `${config.url} • ${config.rateLimit ?? DEFAULT_REST_RATE_LIMIT}/s`;
+  }
+};
+
+// Providers that fill blank ISP, ASN, location and usage fields, asked in the order listed
+export function EnrichmentSettingsDialog() {
+  const { configs, setConfigs } = useEnrichmentProviders();
+  const [kind, setKind] = useState<EnrichmentProviderKind>("geoip");
+  const [url, setUrl] = useState("");
+  const [rateLimit, setRateLimit] = useState("");
+  const [file, setFile] = useState<{ fileName: string; dataset: GeoIPDataset } | null>(null);
+  const [reading, setReading] = useState(false);
+  // Bumped after clearing a cache so the counts re-render
+  const [, setCacheVersion] = useState(0);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setReading(true);
+    try {
+      const dataset = await readGeoIPFile(selected);
+      toast.success(`${selected.name}: ${describeGeoIPDataset(dataset)}`);
+      setFile({ fileName: selected.name, dataset });
+    } catch (error) {
+      toast.error((error as Error).message);
+      setFile(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const id = `provider-${Date.now()}`;
+    const limit = rateLimit ? Number(rateLimit) : undefined;
+    if (limit !== undefined && !(limit > 0)) {
+      toast.error("Rate limit must be a positive number of lookups per second");
+      return;
+    }
+    if (kind === "geoip" && !file) {
+      toast.error("Choose a GeoIP MMDB or CSV file");
+      return;
+    }
+    if (kind === "rest" && !/^https?:\/\//.test(url)) {
+      toast.error("Enter the http(s) URL of the lookup service");
+      return;
+    }
+    if (kind === "geoip") {
+      try {
+        await saveGeoIPDataset(id, file!.dataset);
+      } catch (error) {
+        toast.error(`Could not store ${file!.fileName}: ${(error as Error).message}`);
+        return;
+      }
+    }
+    const config: EnrichmentProviderConfig =
+      kind === "geoip"
+        ? { id, enabled: true, kind, fileName: file!.fileName, format: file!.dataset.format }
+        : kind === "rdap"
+          ? { id, enabled: true, kind, url: url || undefined, rateLimit: limit }
+          : { id, enabled: true, kind, url, rateLimit: limit };
+    setConfigs([...configs, config]);
+    setUrl("");
+    setRateLimit("");
+    setFile(null);
+  };
+
+  const update = (id: string, patch: Partial<EnrichmentProviderConfig>) =>
+    setConfigs(configs.map((config) => (config.id === id ? ({ ...config, ...patch } as EnrichmentProviderConfig) : config)));
+
+  const remove = (config: EnrichmentProviderConfig) => {
+    setConfigs(configs.filter((c) => c.id !== config.id));
+    if (config.kind === "geoip") {
+      deleteGeoIPDataset(config.id).catch((error) => console.warn(`Failed to delete ${config.fileName}:`, error));
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...configs];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setConfigs(next);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Enrichment providers">
+          <DatabaseZap className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Enrichment providers</DialogTitle>
+          <DialogDescription>
+            Fill in ISP, ASN, location and usage fields the data source leaves blank. Providers are asked in this
+            order; the first answer for a field wins and is shown as its source on the card.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {configs.length === 0 && <p className="text-sm text-muted-foreground">No providers yet.</p>}
+          {configs.map((config, index) => {
+            const providerId = createEnrichmentProvider(config).id;
+            const cached = config.kind === "geoip" ? null : cachedLookupCount(providerId);
+            return (
+              <div key={config.id} className="flex items-center gap-2 rounded-lg border border-border p-3">
+                <Switch
+                  checked={config.enabled}
+                  onCheckedChange={(enabled) => update(config.id, { enabled })}
+                  aria-label="Enabled"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">{ENRICHMENT_PROVIDER_LABELS[config.kind]}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {describe(config)}
+                    {cached !== null && ` • ${cached.toLocaleString()} cached`}
+                  </p>
+                </div>
+                {cached !== null && cached > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      clearLookupCache(providerId);
+                      setCacheVersion((version) => version + 1);
+                    }}
+                  >
+                    Clear cache
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" title="Move up" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === configs.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove provider"
+                  onClick={() => remove(config)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3 rounded-lg border border-dashed border-border p-3">
+          <div className="space-y-2">
+            <Label>Add a provider</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as EnrichmentProviderKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ENRICHMENT_PROVIDER_LABELS) as EnrichmentProviderKind[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {ENRICHMENT_PROVIDER_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {kind === "geoip" && (
+            <div className="space-y-2">
+              <Input
+                type="file"
+                accept=".mmdb,.csv,text/csv"
+                disabled={reading}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">
+                A MaxMind DB (.mmdb) file such as GeoLite2 City or ASN, DB-IP Lite or IPinfo Lite, or a CSV with a header
+                row holding either a network (CIDR) column or start and end address columns, plus any of country, city,
+                isp/org, asn, usage_type and domain. The file is indexed once and kept in IndexedDB in this browser.
+              </p>
+            </div>
+          )}
+
+          {kind !== "geoip" && (
+            <div className="grid grid-cols-[1fr_110px] gap-2">
+              <Input
+                placeholder={
+                  kind === "rdap" ? "https://rdap.org (default)" : "http://localhost:8789 or https://ipinfo.io/{ip}/json?token=…"
+                }
+                value={url}
+                onChange={(e) => setUrl(e.target.value.trim())}
+                aria-label="Provider URL"
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder={`${kind === "rdap" ? DEFAULT_RDAP_RATE_LIMIT : DEFAULT_REST_RATE_LIMIT}/s`}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+                aria-label="Lookups per second"
+              />
+            </div>
+          )}
+
+          <Button variant="outline" onClick={handleAdd} disabled={reading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add provider
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Remote answers are cached per provider for a week, including IPs a provider knows nothing about.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarIcon, SlidersHorizontal, X } from "lucide-react";
+import { AggregatedIPData } from "@/types/ipData";
+import { facetLabel, facetValues } from "@/lib/facets";
+import { parseIPMatcher } from "@/lib/ipAddress";
+import { DashboardFilters, EMPTY_FILTERS, LIST_FILTERS, NumberRange, countActiveFilters } from "@/lib/filters";
+import { MultiSelect } from "./MultiSelect";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Calendar } from "./ui/calendar";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from "./ui/sheet";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+
+interface FilterPanelProps {
+  records: AggregatedIPData[];
+  filters: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+export function FilterPanel({ records, filters, onChange }: FilterPanelProps) {
+  const activeCount = countActiveFilters(filters);
+
+  const options = useMemo(
+    () =>
+      Object.fromEntries(
+        LIST_FILTERS.map(({ field }) => [
+          field,
+          [...new Set(records.flatMap((record) => facetValues(record, field)))].sort((a, b) =>
+            facetLabel(field, a).localeCompare(facetLabel(field, b))
+          ),
+        ])
+      ),
+    [records]
+  );
+
+  const update = (patch: Partial<DashboardFilters>) => onChange({ ...filters, ...patch });
+
+  const dateRange = {
+    from: filters.reportedFrom ? parseISO(filters.reportedFrom) : undefined,
+    to: filters.reportedTo ? parseISO(filters.reportedTo) : undefined,
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant={activeCount > 0 ? "default" : "outline"} size="sm">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filters{activeCount > 0 ? ` (${activeCount})` : ""}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Filters</SheetTitle>
+          <SheetDescription>The current filters are kept in the page URL, so the view can be shared.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-5 py-4">
+          <div className="space-y-2">
+            <Label>Match</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={filters.match}
+              onValueChange={(value) => value && update({ match: value as DashboardFilters["match"] })}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="and">All conditions (AND)</ToggleGroupItem>
+              <ToggleGroupItem value="or">Any condition (OR)</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-3">
+            <Label>
+              Abuse confidence score: {filters.score[0]}–{filters.score[1]}%
+            </Label>
+            <Slider
+              min={0}
+              max={100}
+              step={1}
+              value={filters.score}
+              onValueChange={(value) => update({ score: [value[0], value[1]] })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>
+              Composite risk score: {filters.composite[0]}–{filters.composite[1]}
+            </Label>
+            <Slider
+              min={0}
+              max={100}
+              step={1}
+              value={filters.composite}
+              onValueChange={(value) => update({ composite: [value[0], value[1]] })}
+            />
+          </div>
+
+          {LIST_FILTERS.map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <Label>{label}</Label>
+              <MultiSelect
+                options={options[field]}
+                value={filters.lists[field] ?? []}
+                onChange={(value) => update({ lists: { ...filters.lists, [field]: value } })}
+                placeholder={`Any ${label.toLowerCase()}`}
+                labelOf={(value) => facetLabel(field, value)}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="watched-only"
+              checked={filters.watchedOnly}
+              onCheckedChange={(watchedOnly) => update({ watchedOnly })}
+            />
+            <Label htmlFor="watched-only">Watchlist only</Label>
+          </div>
+
+          <IPRangeInput value={filters.ipRanges} onChange={(ipRanges) => update({ ipRanges })} />
+
+          <RangeInputs label="Total reports" range={filters.reports} onChange={(reports) => update({ reports })} />
+          <RangeInputs label="Count" range={filters.count} onChange={(count) => update({ count })} />
+
+          <div className="space-y-2">
+            <Label>Last reported</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {dateRange.from ? (
+                    `${format(dateRange.from, "dd/MM/yyyy")} – ${dateRange.to ? format(dateRange.to, "dd/MM/yyyy") : "…"}`
+                  ) : (
+                    <span className="text-muted-foreground">Any date</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={(range) =>
+                    update({
+                      reportedFrom: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+                      reportedTo: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+                    })
+                  }
+                  numberOfMonths={1}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+
+        <SheetFooter>
+          <Button
+            variant="outline"
+            onClick={() =>
+              onChange({ ...EMPTY_FILTERS, query: filters.query, action: filters.action, sort: filters.sort })
+            }
+            disabled={activeCount === 0}
+          >
+            Reset filters
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function RangeInputs({
+  label,
+  range,
+  onChange,
+}: {
+  label: string;
+  range: NumberRange;
+  onChange: (range: NumberRange) => void;
+}) {
+  const parse = (value: string) => (value === "" ? undefined : Math.max(0, Number(value)));
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          placeholder="Min"
+          value={range.min ?? ""}
+          onChange={(e) => onChange({ ...range, min: parse(e.target.value) })}
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Max"
+          value={range.max ?? ""}
+          onChange={(e) => onChange({ ...range, max: parse(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+}
+
+function IPRangeInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Accepts several entries at once, separated by commas or whitespace
+  const add = () => {
+    const entries = draft.split(/[\s,]+/).filter(Boolean);
+    const invalid = entries.filter((entry) => !parseIPMatcher(entry));
+    if (invalid.length > 0) {
+      setError(`Not an IP, CIDR block or range: ${invalid.join(", ")}`);
+      return;
+    }
+    onChange([...new Set([...value, ...entries])]);
+    setDraft("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="ip-range-filter">IP address / CIDR / range</Label>
+      <div className="flex gap-2">
+        <Input
+          id="ip-range-filter"
+          placeholder="10.0.0.0/8, 2001:db8::/32, 1.2.3.4-1.2.3.9"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+        />
+        <Button variant="outline" onClick={add} disabled={!draft.trim()}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-xs text-danger">{error}</p>}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((range) => (
+            <Badge key={range} variant="secondary" className="gap-1 font-mono">
+              {range}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((r) => r !== range))}
+                aria-label={`Remove ${range}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,65 +1,198 @@
-import { useEffect, useState, useRef, createRef, useCallback } from "react";
-import html2canvas from "html2canvas";
+import { Suspense, lazy, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import pptxgen from "pptxgenjs";
-import { fetchIPData } from "@/services/googleSheetService";
-import { IPData } from "@/types/ipData";
+import { AggregatedIPData } from "@/types/ipData";
+import { MissingColumnsError } from "@/services/columnMapping";
+import { useIPData } from "@/hooks/use-ip-data";
+import { useDataSource } from "@/hooks/use-data-source";
+import { useChangeTracking } from "@/hooks/use-change-tracking";
+import { useCardCapture } from "@/hooks/use-card-capture";
+import { useAlertEngine } from "@/hooks/use-alerts";
+import { usePageSize } from "@/hooks/use-page-size";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { isHighRisk } from "@/lib/riskPolicy";
+import { withCompositeScores } from "@/lib/compositeScore";
+import { withAnnotations } from "@/lib/annotations";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { useEnrichedRecords } from "@/hooks/use-enrichment";
+import { ChangeKind, recordKey } from "@/lib/ipDiff";
+import { aggregateByIP, toAggregatedRows } from "@/lib/aggregate";
+import { FacetFilter } from "@/lib/facets";
+import {
+  DashboardFilters,
+  applyFacet,
+  applyFilters,
+  describeFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+} from "@/lib/filters";
+import { SORT_OPTIONS, SortKey, pinWatched, sortRecords } from "@/lib/sorting";
 import { IPInfoCard } from "./IPInfoCard";
-import { Input } from "./ui/input";
+import { IPTable } from "./IPTable";
+import { CardPagination } from "./CardPagination";
+import { DataSourceDialog } from "./DataSourceDialog";
+import { EnrichmentSettingsDialog } from "./EnrichmentSettingsDialog";
+import { RiskPolicyDialog } from "./RiskPolicyDialog";
+import { DataQualityPanel } from "./DataQualityPanel";
+import { ChangesDrawer } from "./ChangesDrawer";
+import { AlertInbox } from "./AlertInbox";
+import { ReportQueueSheet } from "./ReportQueueSheet";
+import { SnapshotHistoryDialog } from "./SnapshotHistoryDialog";
+import { AnalyticsPanel } from "./AnalyticsPanel";
+import { NetworksPanel } from "./NetworksPanel";
+import { FilterPanel } from "./FilterPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { SearchBox } from "./SearchBox";
 import { Badge } from "./ui/badge";
 import { Skeleton } from "./ui/skeleton";
-import { Search, Shield, AlertTriangle, RefreshCw, Download, Pause, Play, FileSliders } from "lucide-react";
+import { Shield, AlertTriangle, RefreshCw, Download, Pause, Play, FileSliders, Layers, X } from "lucide-react";
 import { Button } from "./ui/button";
 import { toast } from "sonner";
 
 const AUTO_REFRESH_INTERVAL = 10000; // 10 seconds
 
+// The map pulls in d3-geo, topojson and the country shapes, so it loads with its tab
+const ThreatMap = lazy(() => import("./ThreatMap").then((module) => ({ default: module.ThreatMap })));
+
 export function IPDashboard() {
-  const [data, setData] = useState<IPData[]>([]);
-  const [filteredData, setFilteredData] = useState<IPData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [filter, setFilter] = useState<"all" | "blocked" | "alerted">("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
   const [downloading, setDownloading] = useState(false);
   const [generatingPPT, setGeneratingPPT] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const cardRefs = useRef<Map<string, React.RefObject<HTMLDivElement>>>(new Map());
+  const [groupByIP, setGroupByIP] = useState(true);
+  const [view, setView] = useState("cards");
+  const [selectedIPs, setSelectedIPs] = useState<Set<string>>(new Set());
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = usePageSize();
+  const cardGridRef = useRef<HTMLDivElement>(null);
+  const { config: sourceConfig, setConfig: setSourceConfig } = useDataSource();
+  const { policy: riskPolicy, setPolicy: setRiskPolicy } = useRiskPolicy();
+  const { annotations } = useAnnotations();
+  const {
+    data: result,
+    error: queryError,
+    isPending: loading,
+    isFetching,
+    dataUpdatedAt,
+    refetch,
+    dataSource,
+    offlineSnapshot,
+  } = useIPData({ refetchInterval: autoRefresh ? AUTO_REFRESH_INTERVAL : false });
+  const sourceRecords = result?.records ?? offlineSnapshot?.records;
+  const { records, progress: enrichmentProgress } = useEnrichedRecords(sourceRecords);
+  // Cards, stats and exports all work off the same model, merged per IP unless grouping is off
+  const data = useMemo<AggregatedIPData[]>(
+    () =>
+      records
+        ? withAnnotations(
+            withCompositeScores(groupByIP ? aggregateByIP(records) : toAggregatedRows(records), riskPolicy.weights),
+            annotations
+          )
+        : [],
+    [records, groupByIP, riskPolicy.weights, annotations]
+  );
+  const lastUpdated = dataUpdatedAt
+    ? new Date(dataUpdatedAt)
+    : offlineSnapshot
+      ? new Date(offlineSnapshot.takenAt)
+      : null;
+  // Change tracking and alerts compare what the source itself reported, before enrichment
+  const { history: changeHistory, highlights, clearHistory } = useChangeTracking(sourceRecords, dataSource.id);
+  useAlertEngine(sourceRecords, dataSource.id);
+  const { records: captureRecords, registerCard, capture } = useCardCapture();
+
+  // A merged card is "added" only when every one of its rows is new
+  const highlightOf = (item: AggregatedIPData): ChangeKind | undefined => {
+    const kinds = item.activities.map((activity) =>
+      highlights.get(recordKey({ ...item, JenisAktivitas: activity.JenisAktivitas }))
+    );
+    if (kinds.every((kind) => kind === "added")) return "added";
+    return kinds.some(Boolean) ? "changed" : undefined;
+  };
 
-  // Get high risk IPs (score > 75) - unique IPs only
-  const highRiskIPs = data.filter((d) => d.AbuseConfidenceScore > 75);
-  const uniqueHighRiskIPs = highRiskIPs.filter(
-    (item, index, self) => self.findIndex((t) => t.IP === item.IP) === index
+  // A manual refresh cancels any fetch still in flight and starts a new one
+  const loadData = () => refetch({ cancelRefetch: true });
+
+  const errorMessage =
+    queryError instanceof MissingColumnsError
+      ? `${dataSource.label} is missing required columns: ${queryError.report.missingRequired.join(", ")}`
+      : queryError
+        ? `Failed to load data from ${dataSource.label}`
+        : null;
+
+  // Filters live in the URL so a filtered view can be shared as a link
+  const setFilters = (next: DashboardFilters) => setSearchParams(filtersToSearchParams(next), { replace: true });
+  const setSearchQuery = (query: string) => setFilters({ ...filters, query });
+  const setFilter = (action: DashboardFilters["action"]) => setFilters({ ...filters, action });
+  const filterChips = describeFilters(filters);
+
+  const filteredData = useMemo(
+    () => pinWatched(sortRecords(applyFilters(data, filters), filters.sort)),
+    [data, filters]
   );
 
+  // Only one page of cards is rendered; a new filter or grouping starts again at the first page
+  useEffect(() => setPage(1), [filters, groupByIP]);
+  const pageCount = Math.max(1, Math.ceil(filteredData.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const pagedData = filteredData.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+
+  const changePage = (next: number) => {
+    setPage(next);
+    cardGridRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const changePageSize = (size: number) => {
+    setPageSize(size);
+    setPage(1);
+  };
+
+  // Clicking a chart narrows the card grid to that value
+  const handleFacetSelect = (facet: FacetFilter) => {
+    setFilters(applyFacet(filters, facet));
+    setView("cards");
+  };
+
+  const stats = {
+    total: data.length,
+    blocked: data.filter((d) => d.Action.toLowerCase() === "blocked").length,
+    alerted: data.filter((d) => d.Action.toLowerCase() === "alerted").length,
+    highRisk: data.filter((d) => isHighRisk(d.AbuseConfidenceScore, riskPolicy)).length,
+  };
+
+  // Exports cover the selected rows, or every high risk IP when nothing is selected
+  const exportTargets = useMemo(() => {
+    const seen = new Set<string>();
+    const unique = (item: AggregatedIPData) => !seen.has(item.IP) && !!seen.add(item.IP);
+    return selectedIPs.size > 0
+      ? filteredData.filter((item) => selectedIPs.has(item.IP) && unique(item))
+      : data.filter((item) => isHighRisk(item.AbuseConfidenceScore, riskPolicy) && unique(item));
+  }, [data, filteredData, selectedIPs, riskPolicy]);
+  const exportLabel = selectedIPs.size > 0 ? "selected IPs" : "unique high risk IPs";
+
   const handleDownloadAll = async () => {
-    if (uniqueHighRiskIPs.length === 0) {
-      toast.error("No high risk IPs to download");
+    if (exportTargets.length === 0) {
+      toast.error("No IPs to download");
       return;
     }
 
     setDownloading(true);
-    toast.info(`Downloading ${uniqueHighRiskIPs.length} unique high risk IP reports...`);
+    toast.info(`Downloading ${exportTargets.length} ${exportLabel} reports...`);
 
     try {
-      for (const ip of uniqueHighRiskIPs) {
-        const ref = cardRefs.current.get(ip.IP);
-        if (ref?.current) {
-          const canvas = await html2canvas(ref.current, {
-            backgroundColor: "#ffffff",
-            scale: 2,
-          });
-
-          const link = document.createElement("a");
-          link.download = `ip-report-${ip.IP}.png`;
-          link.href = canvas.toDataURL("image/png");
-          link.click();
-
-          // Small delay between downloads
-          await new Promise((resolve) => setTimeout(resolve, 300));
-        }
+      const screenshots = await capture(exportTargets, 2);
+      for (const screenshot of screenshots) {
+        const link = document.createElement("a");
+        link.download = `ip-report-${screenshot.ip}.png`;
+        link.href = screenshot.dataUrl;
+        link.click();
+
+        // Small delay between downloads
+        await new Promise((resolve) => setTimeout(resolve, 300));
       }
-      toast.success(`Downloaded ${uniqueHighRiskIPs.length} unique IP reports`);
+      toast.success(`Downloaded ${screenshots.length} IP reports`);
     } catch (error) {
       console.error("Failed to download screenshots:", error);
       toast.error("Failed to download some screenshots");
@@ -69,13 +202,13 @@ export function IPDashboard() {
   };
 
   const handleGeneratePPT = async () => {
-    if (uniqueHighRiskIPs.length === 0) {
-      toast.error("No high risk IPs to generate PPT");
+    if (exportTargets.length === 0) {
+      toast.error("No IPs to generate PPT");
       return;
     }
 
     setGeneratingPPT(true);
-    toast.info(`Generating PPT with ${uniqueHighRiskIPs.length} unique high risk IPs...`);
+    toast.info(`Generating PPT with ${exportTargets.length} ${exportLabel}...`);
 
     try {
       const pptx = new pptxgen();
@@ -85,20 +218,10 @@ export function IPDashboard() {
 
       const CARDS_PER_SLIDE = 6;
       const CARDS_PER_ROW = 3;
-      const totalSlides = Math.ceil(uniqueHighRiskIPs.length / CARDS_PER_SLIDE);
+      const totalSlides = Math.ceil(exportTargets.length / CARDS_PER_SLIDE);
 
       // Capture all screenshots first
-      const screenshots: { ip: string; dataUrl: string }[] = [];
-      for (const ip of uniqueHighRiskIPs) {
-        const ref = cardRefs.current.get(ip.IP);
-        if (ref?.current) {
-          const canvas = await html2canvas(ref.current, {
-            backgroundColor: "#ffffff",
-            scale: 1.5,
-          });
-          screenshots.push({ ip: ip.IP, dataUrl: canvas.toDataURL("image/png") });
-        }
-      }
+      const screenshots = await capture(exportTargets, 1.5);
 
       for (let slideIndex = 0; slideIndex < totalSlides; slideIndex++) {
         const slide = pptx.addSlide();
@@ -145,85 +268,20 @@ export function IPDashboard() {
     }
   };
 
-  // Create refs for high risk IPs
-  const getCardRef = (ip: string) => {
-    if (!cardRefs.current.has(ip)) {
-      cardRefs.current.set(ip, createRef<HTMLDivElement>());
-    }
-    return cardRefs.current.get(ip)!;
-  };
-
-  const loadData = useCallback(async (showLoading = true) => {
-    if (showLoading) setLoading(true);
-    setError(null);
-    try {
-      const result = await fetchIPData();
-      setData(result);
-      setFilteredData(result);
-      setLastUpdated(new Date());
-    } catch (err) {
-      setError("Failed to load data from Google Sheet");
-    } finally {
-      if (showLoading) setLoading(false);
-    }
-  }, []);
-
-  // Initial load
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
-
-  // Auto-refresh every 10 seconds
-  useEffect(() => {
-    if (!autoRefresh) return;
-    
-    const interval = setInterval(() => {
-      loadData(false); // Don't show loading state for auto-refresh
-    }, AUTO_REFRESH_INTERVAL);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, loadData]);
-
-  useEffect(() => {
-    let result = data;
-
-    // Apply search filter
-    if (searchQuery) {
-      result = result.filter(
-        (item) =>
-          item.IP.includes(searchQuery) ||
-          item.ISP.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          item.Domain.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Apply action filter
-    if (filter !== "all") {
-      result = result.filter(
-        (item) => item.Action.toLowerCase() === filter
-      );
-    }
-
-    setFilteredData(result);
-  }, [searchQuery, filter, data]);
-
-  const stats = {
-    total: data.length,
-    blocked: data.filter((d) => d.Action.toLowerCase() === "blocked").length,
-    alerted: data.filter((d) => d.Action.toLowerCase() === "alerted").length,
-    highRisk: data.filter((d) => d.AbuseConfidenceScore >= 75).length,
-  };
-
-  if (error) {
+  // Keep showing the last good snapshot when a background refresh fails
+  if (errorMessage && !records) {
     return (
       <div className="flex min-h-[400px] items-center justify-center">
         <div className="text-center">
           <AlertTriangle className="mx-auto mb-4 h-12 w-12 text-danger" />
-          <p className="text-lg font-medium text-foreground">{error}</p>
-          <Button onClick={loadData} variant="default" className="mt-4">
-            <RefreshCw className="mr-2 h-4 w-4" />
-            Retry
-          </Button>
+          <p className="text-lg font-medium text-foreground">{errorMessage}</p>
+          <div className="mt-4 flex justify-center gap-2">
+            <Button onClick={() => loadData()} variant="default">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+            <DataSourceDialog config={sourceConfig} onChange={setSourceConfig} />
+          </div>
         </div>
       </div>
     );
@@ -261,33 +319,25 @@ export function IPDashboard() {
 
       {/* Search and Filter */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <div className="relative flex-1 sm:max-w-md">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Search by IP, ISP, or Domain..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchBox value={filters.query} onChange={setSearchQuery} records={data} />
         <div className="flex gap-2">
           <Badge
-            variant={filter === "all" ? "default" : "outline"}
+            variant={filters.action === "all" ? "default" : "outline"}
             className="cursor-pointer px-4 py-2"
             onClick={() => setFilter("all")}
           >
             All
           </Badge>
           <Badge
-            variant={filter === "blocked" ? "destructive" : "outline"}
+            variant={filters.action === "blocked" ? "destructive" : "outline"}
             className="cursor-pointer px-4 py-2"
             onClick={() => setFilter("blocked")}
           >
             Blocked
           </Badge>
           <Badge
-            className={`cursor-pointer px-4 py-2 ${filter === "alerted" ? "bg-warning text-warning-foreground hover:bg-warning/90" : ""}`}
-            variant={filter === "alerted" ? "default" : "outline"}
+            className={`cursor-pointer px-4 py-2 ${filters.action === "alerted" ? "bg-warning text-warning-foreground hover:bg-warning/90" : ""}`}
+            variant={filters.action === "alerted" ? "default" : "outline"}
             onClick={() => setFilter("alerted")}
           >
             Alerted
@@ -296,19 +346,29 @@ export function IPDashboard() {
             variant="default" 
             size="sm" 
             onClick={handleDownloadAll} 
-            disabled={loading || downloading || uniqueHighRiskIPs.length === 0}
+            disabled={loading || downloading || exportTargets.length === 0}
+            title={`Screenshots of the ${exportLabel}`}
           >
             <Download className={`mr-2 h-4 w-4 ${downloading ? "animate-pulse" : ""}`} />
-            Download ({uniqueHighRiskIPs.length})
+            Download ({exportTargets.length})
           </Button>
           <Button 
             variant="secondary" 
             size="sm" 
             onClick={handleGeneratePPT} 
-            disabled={loading || generatingPPT || uniqueHighRiskIPs.length === 0}
+            disabled={loading || generatingPPT || exportTargets.length === 0}
+            title={`Slides with the ${exportLabel}`}
           >
             <FileSliders className={`mr-2 h-4 w-4 ${generatingPPT ? "animate-pulse" : ""}`} />
-            PPT ({uniqueHighRiskIPs.length})
+            PPT ({exportTargets.length})
+          </Button>
+          <Button
+            variant={groupByIP ? "default" : "outline"}
+            size="icon"
+            onClick={() => setGroupByIP(!groupByIP)}
+            title={groupByIP ? "Grouped by IP" : "One card per sheet row"}
+          >
+            <Layers className="h-4 w-4" />
           </Button>
           <Button 
             variant={autoRefresh ? "default" : "outline"} 
@@ -319,8 +379,11 @@ export function IPDashboard() {
             {autoRefresh ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
           </Button>
           <Button variant="outline" size="icon" onClick={() => loadData()} disabled={loading}>
-            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
           </Button>
+          <RiskPolicyDialog policy={riskPolicy} onChange={setRiskPolicy} />
+          <DataSourceDialog config={sourceConfig} onChange={setSourceConfig} />
+          <EnrichmentSettingsDialog />
         </div>
       </div>
 
@@ -328,34 +391,172 @@ export function IPDashboard() {
       {lastUpdated && (
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <span>Last updated: {lastUpdated.toLocaleTimeString('id-ID')}</span>
+          <span>• Source: {dataSource.label}</span>
           {autoRefresh && <span className="text-success">• Auto-refresh active</span>}
+          {enrichmentProgress && (
+            <span>
+              • Enriching {enrichmentProgress.done}/{enrichmentProgress.total}
+            </span>
+          )}
+          {errorMessage && offlineSnapshot && (
+            <span className="text-danger">• Offline, showing stored snapshot</span>
+          )}
+          {errorMessage && !offlineSnapshot && (
+            <span className="text-danger">• Last refresh failed, showing cached data</span>
+          )}
+          <div className="ml-auto flex gap-2">
+            <SnapshotHistoryDialog sourceId={dataSource.id} />
+            <ChangesDrawer history={changeHistory} onClear={clearHistory} />
+            <AlertInbox />
+            <ReportQueueSheet />
+          </div>
         </div>
       )}
 
-      {/* IP Cards Grid */}
-      {loading ? (
-        <div className="grid gap-6 lg:grid-cols-2">
-          {[...Array(4)].map((_, i) => (
-            <Skeleton key={i} className="h-[400px] w-full rounded-lg" />
+      <DataQualityPanel columns={result?.columns ?? null} rejected={result?.rejected ?? []} />
+
+      <Tabs value={view} onValueChange={setView} className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <TabsList>
+            <TabsTrigger value="cards">Cards</TabsTrigger>
+            <TabsTrigger value="table">Table</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="map">Map</TabsTrigger>
+            <TabsTrigger value="networks">Networks</TabsTrigger>
+          </TabsList>
+          <FilterPanel records={data} filters={filters} onChange={setFilters} />
+          <Select value={filters.sort} onValueChange={(sort) => setFilters({ ...filters, sort: sort as SortKey })}>
+            <SelectTrigger className="h-9 w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(({ key, label }) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filterChips.map((chip) => (
+            <Badge key={chip.key} variant="secondary" className="gap-1 py-1">
+              {chip.label}
+              <button onClick={() => setFilters(chip.remove(filters))} title="Remove filter">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
           ))}
+          {filterChips.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFilters(filterChips.reduce((current, chip) => chip.remove(current), filters))}
+            >
+              Clear filters
+            </Button>
+          )}
         </div>
-      ) : (
-        <div className="grid gap-6 lg:grid-cols-2">
-          {filteredData.map((item, index) => (
-            <IPInfoCard 
-              key={`${item.IP}-${index}`} 
-              data={item} 
-              ref={item.AbuseConfidenceScore > 75 ? getCardRef(item.IP) : undefined}
-            />
+
+        <TabsContent value="cards">
+          {/* IP Cards Grid */}
+          {loading ? (
+            <div className="grid gap-6 lg:grid-cols-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-[400px] w-full rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            <div ref={cardGridRef} className="grid scroll-mt-4 gap-6 lg:grid-cols-2">
+              {pagedData.map((item, index) => (
+                <HighlightFrame key={groupByIP ? item.IP : `${item.IP}-${index}`} kind={highlightOf(item)}>
+                  <IPInfoCard data={item} />
+                </HighlightFrame>
+              ))}
+            </div>
+          )}
+
+          {!loading && filteredData.length > 0 && (
+            <div className="mt-6">
+              <CardPagination
+                page={currentPage}
+                pageCount={pageCount}
+                pageSize={pageSize}
+                total={filteredData.length}
+                onPageChange={changePage}
+                onPageSizeChange={changePageSize}
+              />
+            </div>
+          )}
+
+          {!loading && filteredData.length === 0 && (
+            <div className="flex min-h-[200px] items-center justify-center">
+              <p className="text-muted-foreground">No IP addresses found matching your criteria.</p>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="table">
+          {loading ? (
+            <Skeleton className="h-[400px] w-full rounded-lg" />
+          ) : (
+            <IPTable records={filteredData} selected={selectedIPs} onSelectedChange={setSelectedIPs} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="analytics">
+          {loading ? (
+            <Skeleton className="h-[400px] w-full rounded-lg" />
+          ) : (
+            <AnalyticsPanel records={filteredData} onSelect={handleFacetSelect} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="map">
+          {loading ? (
+            <Skeleton className="h-[400px] w-full rounded-lg" />
+          ) : (
+            <Suspense fallback={<Skeleton className="h-[400px] w-full rounded-lg" />}>
+              <ThreatMap records={filteredData} onSelect={handleFacetSelect} />
+            </Suspense>
+          )}
+        </TabsContent>
+
+        <TabsContent value="networks">
+          {loading ? (
+            <Skeleton className="h-[400px] w-full rounded-lg" />
+          ) : (
+            <NetworksPanel records={filteredData} allRecords={data} onSelect={handleFacetSelect} />
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Cards rendered off screen for the exports */}
+      {captureRecords.length > 0 && (
+        <div aria-hidden className="pointer-events-none fixed left-[-10000px] top-0 w-[640px] space-y-4">
+          {captureRecords.map((item) => (
+            <IPInfoCard key={item.IP} data={item} ref={registerCard(item.IP)} />
           ))}
         </div>
       )}
+    </div>
+  );
+}
 
-      {!loading && filteredData.length === 0 && (
-        <div className="flex min-h-[200px] items-center justify-center">
-          <p className="text-muted-foreground">No IP addresses found matching your criteria.</p>
-        </div>
-      )}
+// Wraps the card rather than styling it, so exported screenshots stay unmarked
+function HighlightFrame({ kind, children }: { kind?: ChangeKind; children: React.ReactNode }) {
+  if (!kind) return <>{children}</>;
+
+  return (
+    <div className={`relative rounded-lg ring-2 ring-offset-2 ${kind === "added" ? "ring-success" : "ring-warning"}`}>
+      <Badge
+        className={`absolute -top-3 right-4 z-10 ${
+          kind === "added"
+            ? "bg-success text-success-foreground hover:bg-success/90"
+            : "bg-warning text-warning-foreground hover:bg-warning/90"
+        }`}
+      >
+        {kind === "added" ? "NEW" : "CHANGED"}
+      </Badge>
+      {children}
     </div>
   );
 }
@@ -1,13 +1,25 @@
-import { forwardRef } from "react";
-import { IPData } from "@/types/ipData";
+import { forwardRef, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { AggregatedIPData, IPData } from "@/types/ipData";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { explainCompositeScore } from "@/lib/compositeScore";
+import { mergeRows } from "@/lib/aggregate";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { useAnnotation } from "@/hooks/use-annotations";
+import { TRIAGE_STATUSES } from "@/lib/annotations";
+import { countryFlag, normalizeCountry } from "@/lib/countries";
 import { ConfidenceBar } from "./ConfidenceBar";
+import { CompositeScoreExplanation } from "./CompositeScoreExplanation";
+import { AnnotationDialog } from "./AnnotationDialog";
+import { ReportDialog } from "./ReportDialog";
+import { WhoisSheet } from "./WhoisSheet";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { Card } from "./ui/card";
-import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
-import { AlertTriangle, Shield, ExternalLink, Info } from "lucide-react";
+import { AlertTriangle, Shield, Info, Star } from "lucide-react";
 
 interface IPInfoCardProps {
-  data: IPData;
+  data: IPData | AggregatedIPData;
 }
 
 export const IPInfoCard = forwardRef<HTMLDivElement, IPInfoCardProps>(({ data }, ref) => {
@@ -18,22 +30,31 @@ export const IPInfoCard = forwardRef<HTMLDivElement, IPInfoCardProps>(({ data },
     return <Badge className="bg-warning text-warning-foreground hover:bg-warning/90">ALERTED</Badge>;
   };
 
-  const getScoreStatus = (score: number) => {
-    if (score >= 75) return { text: "High Risk", icon: AlertTriangle, class: "text-danger" };
-    if (score >= 50) return { text: "Medium Risk", icon: AlertTriangle, class: "text-warning" };
-    if (score >= 25) return { text: "Low Risk", icon: Shield, class: "text-primary" };
-    return { text: "Clean", icon: Shield, class: "text-success" };
-  };
-
-  const status = getScoreStatus(data.AbuseConfidenceScore);
+  const { policy } = useRiskPolicy();
+  const { annotation, update: updateAnnotation } = useAnnotation(data.IP);
+  const triage = TRIAGE_STATUSES.find(({ status }) => status === annotation.status) ?? TRIAGE_STATUSES[0];
+  const tier = tierFor(data.AbuseConfidenceScore, policy);
+  const StatusIcon = tier.color === "danger" || tier.color === "warning" ? AlertTriangle : Shield;
+  const record = useMemo(() => ("activities" in data ? data : mergeRows([data])), [data]);
+  const country = normalizeCountry(data.Country);
+  const enrichedBy = [...new Set(Object.values(data.enrichedBy ?? {}))];
+  const composite = useMemo(() => explainCompositeScore(record, policy.weights), [record, policy.weights]);
 
   return (
     <Card ref={ref} className="overflow-hidden border-0 shadow-lg">
       {/* Header */}
-      <div className="border-b border-border bg-card px-6 py-4">
+      <div className="flex items-start justify-between gap-2 border-b border-border bg-card px-6 py-4">
         <h2 className="text-xl font-semibold text-danger">
-          {data.IP} <span className="text-foreground font-normal">was found in our database!</span>
+          <Link to={`/ip/${encodeURIComponent(data.IP)}`} className="hover:underline">{data.IP}</Link>{" "}
+          <span className="text-foreground font-normal">was found in our database!</span>
         </h2>
+        <button
+          className="rounded-full p-1 hover:bg-muted"
+          onClick={() => updateAnnotation({ watched: !annotation.watched })}
+          title={annotation.watched ? "Remove from watchlist" : "Add to watchlist"}
+        >
+          <Star className={`h-5 w-5 ${annotation.watched ? "fill-warning text-warning" : "text-muted-foreground"}`} />
+        </button>
       </div>
 
       {/* Confidence Section */}
@@ -43,39 +64,95 @@ export const IPInfoCard = forwardRef<HTMLDivElement, IPInfoCardProps>(({ data },
             This IP was reported <span className="font-semibold text-foreground">{data.TotalReports.toLocaleString()} times</span>.
             Confidence of Abuse is <span className="font-semibold text-foreground">{data.AbuseConfidenceScore}%</span>:
           </p>
-          <button className="rounded-full p-1 hover:bg-muted">
-            <Info className="h-4 w-4 text-muted-foreground" />
-          </button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <button className="rounded-full p-1 hover:bg-muted" title="How the composite risk score is derived">
+                <Info className="h-4 w-4 text-muted-foreground" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80" align="end">
+              <CompositeScoreExplanation explanation={composite} />
+            </PopoverContent>
+          </Popover>
         </div>
         <ConfidenceBar score={data.AbuseConfidenceScore} />
+        <div className="mt-2 flex items-center justify-between text-sm">
+          <p className={`flex items-center gap-1 font-medium ${RISK_COLORS[tier.color].text}`}>
+            <StatusIcon className="h-4 w-4" />
+            {tier.label}
+          </p>
+          <p className="text-muted-foreground">
+            Composite risk:{" "}
+            <span className={`font-semibold ${RISK_COLORS[tierFor(composite.score, policy).color].text}`}>
+              {composite.score}
+            </span>
+          </p>
+        </div>
       </div>
 
       {/* Details */}
       <div className="bg-card px-6 py-4">
         <div className="space-y-3">
-          <InfoRow label="ISP" value={data.ISP} />
-          <InfoRow label="Usage Type" value={data.UsageType} />
-          <InfoRow label="ASN" value={data.ASN} />
-          <InfoRow label="Domain Name" value={data.Domain} isLink />
-          <InfoRow label="Country" value={`🇮🇩 ${data.Country}`} />
-          <InfoRow label="City" value={data.City} />
+          {"activities" in data && data.activities.length > 1 ? (
+            <div className="flex items-start gap-4 border-b border-border/50 pb-2">
+              <span className="w-32 shrink-0 text-sm font-medium text-muted-foreground">Activity</span>
+              <div className="flex flex-wrap gap-1">
+                {data.activities.map((activity, index) => (
+                  <Badge key={`${activity.JenisAktivitas}-${index}`} variant="outline">
+                    {activity.JenisAktivitas || "-"} × {activity.Count}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <InfoRow label="Activity" value={`${data.JenisAktivitas || "-"} × ${data.Count}`} />
+          )}
+          <InfoRow label="ISP" value={data.ISP} source={data.enrichedBy?.ISP} />
+          <InfoRow label="Usage Type" value={data.UsageType} source={data.enrichedBy?.UsageType} />
+          <InfoRow label="ASN" value={data.ASN} source={data.enrichedBy?.ASN} />
+          <InfoRow label="Domain Name" value={data.Domain} source={data.enrichedBy?.Domain} isLink />
+          <InfoRow
+            label="Country"
+            value={country ? `${countryFlag(country.code)} ${country.name} (${country.region})` : data.Country || "-"}
+            source={data.enrichedBy?.Country}
+          />
+          <InfoRow label="City" value={data.City} source={data.enrichedBy?.City} />
+        </div>
+      </div>
+
+      {/* Analyst annotation */}
+      <div className="space-y-2 border-t border-border bg-card px-6 py-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge className={triage.className}>{triage.label}</Badge>
+          {annotation.assignee && <span className="text-xs text-muted-foreground">Assigned to {annotation.assignee}</span>}
+          {annotation.tags.map((tag) => (
+            <Badge key={tag} variant="outline">
+              {tag}
+            </Badge>
+          ))}
+          <div className="ml-auto">
+            <AnnotationDialog ip={data.IP} />
+          </div>
         </div>
+        {annotation.notes && (
+          <p className="line-clamp-3 whitespace-pre-line text-sm text-muted-foreground">{annotation.notes}</p>
+        )}
       </div>
 
       {/* Footer */}
       <div className="border-t border-border bg-muted/50 px-6 py-3">
         <p className="mb-3 text-xs text-muted-foreground italic">
-          IP info including ISP, and Location provided by <span className="text-primary font-medium">IPInfo</span>. Updated regularly.
+          ISP and location as reported by the data source
+          {enrichedBy.length > 0 && (
+            <>
+              , with blanks filled in by <span className="text-primary font-medium">{enrichedBy.join(", ")}</span>
+            </>
+          )}
+          .
         </p>
         <div className="flex gap-3">
-          <Button variant="default" className="flex-1">
-            <AlertTriangle className="mr-2 h-4 w-4" />
-            REPORT {data.IP}
-          </Button>
-          <Button variant="secondary" className="flex-1">
-            <ExternalLink className="mr-2 h-4 w-4" />
-            WHOIS {data.IP}
-          </Button>
+          <ReportDialog record={record} />
+          <WhoisSheet ip={data.IP} />
         </div>
       </div>
     </Card>
@@ -87,11 +164,14 @@ IPInfoCard.displayName = "IPInfoCard";
 function InfoRow({
   label,
   value,
-  isLink = false
+  isLink = false,
+  source
 }: {
   label: string;
   value: string;
   isLink?: boolean;
+  /** Enrichment provider that supplied the value */
+  source?: string;
 }) {
   return (
     <div className="flex items-start gap-4 border-b border-border/50 pb-2 last:border-0 last:pb-0">
@@ -110,6 +190,7 @@ function InfoRow({
       ) : (
         <span className="text-sm text-foreground">{value}</span>
       )}
+      {source && <span className="ml-auto shrink-0 text-xs text-muted-foreground">via {source}</span>}
     </div>
   );
 }
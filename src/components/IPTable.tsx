@@ -0,0 +1,382 @@
+import { PointerEvent, ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3 } from "lucide-react";
+import { AggregatedIPData } from "@/types/ipData";
+import { parseReportedAt } from "@/lib/dates";
+import { compareIPs } from "@/lib/ipAddress";
+import { formatCountry, normalizeCountry } from "@/lib/countries";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { RiskPolicy } from "@/types/riskPolicy";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { cn } from "@/lib/utils";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+
+interface Column {
+  key: string;
+  label: string;
+  width: number;
+  hidden?: boolean;
+  numeric?: boolean;
+  compare: (a: AggregatedIPData, b: AggregatedIPData) => number;
+  render: (record: AggregatedIPData, policy: RiskPolicy) => ReactNode;
+}
+
+const byText = (value: (record: AggregatedIPData) => string) => (a: AggregatedIPData, b: AggregatedIPData) =>
+  value(a).localeCompare(value(b));
+
+const reportedTime = (record: AggregatedIPData) => parseReportedAt(record.LastReportedAt)?.getTime() ?? 0;
+
+const COLUMNS: Column[] = [
+  {
+    key: "ip",
+    label: "IP address",
+    width: 220,
+    compare: (a, b) => compareIPs(a.IP, b.IP),
+    render: (r) => (
+      <Link to={`/ip/${encodeURIComponent(r.IP)}`} className="font-mono hover:underline">
+        {r.IP}
+      </Link>
+    ),
+  },
+  {
+    key: "score",
+    label: "Score",
+    width: 90,
+    numeric: true,
+    compare: (a, b) => a.AbuseConfidenceScore - b.AbuseConfidenceScore,
+    render: (r, policy) => (
+      <span className={cn("font-medium", RISK_COLORS[tierFor(r.AbuseConfidenceScore, policy).color].text)}>
+        {r.AbuseConfidenceScore}%
+      </span>
+    ),
+  },
+  {
+    key: "composite",
+    label: "Composite",
+    width: 110,
+    numeric: true,
+    compare: (a, b) => (a.compositeScore ?? 0) - (b.compositeScore ?? 0),
+    render: (r, policy) => (
+      <span className={cn("font-medium", RISK_COLORS[tierFor(r.compositeScore ?? 0, policy).color].text)}>
+        {r.compositeScore ?? "-"}
+      </span>
+    ),
+  },
+  {
+    key: "action",
+    label: "Action",
+    width: 110,
+    compare: byText((r) => r.Action),
+    render: (r) =>
+      r.Action.toLowerCase() === "blocked" ? (
+        <Badge variant="destructive">BLOCKED</Badge>
+      ) : (
+        <Badge className="bg-warning text-warning-foreground hover:bg-warning/90">ALERTED</Badge>
+      ),
+  },
+  {
+    key: "country",
+    label: "Country",
+    width: 140,
+    compare: byText((r) => normalizeCountry(r.Country)?.name ?? r.Country),
+    render: (r) => formatCountry(r.Country),
+  },
+  { key: "city", label: "City", width: 140, hidden: true, compare: byText((r) => r.City), render: (r) => r.City },
+  { key: "isp", label: "ISP", width: 220, compare: byText((r) => r.ISP), render: (r) => r.ISP },
+  { key: "asn", label: "ASN", width: 110, compare: byText((r) => r.ASN), render: (r) => r.ASN },
+  { key: "domain", label: "Domain", width: 180, hidden: true, compare: byText((r) => r.Domain), render: (r) => r.Domain },
+  {
+    key: "usage",
+    label: "Usage type",
+    width: 180,
+    hidden: true,
+    compare: byText((r) => r.UsageType),
+    render: (r) => r.UsageType,
+  },
+  {
+    key: "activity",
+    label: "Activity",
+    width: 200,
+    compare: byText((r) => r.JenisAktivitas),
+    render: (r) => r.JenisAktivitas,
+  },
+  {
+    key: "reports",
+    label: "Reports",
+    width: 100,
+    numeric: true,
+    compare: (a, b) => a.TotalReports - b.TotalReports,
+    render: (r) => r.TotalReports.toLocaleString(),
+  },
+  {
+    key: "count",
+    label: "Count",
+    width: 90,
+    numeric: true,
+    compare: (a, b) => a.Count - b.Count,
+    render: (r) => r.Count.toLocaleString(),
+  },
+  {
+    key: "reported",
+    label: "Last reported",
+    width: 170,
+    compare: (a, b) => reportedTime(a) - reportedTime(b),
+    render: (r) => r.LastReportedAt || "-",
+  },
+];
+
+const ROW_HEIGHT = 41;
+// Matches the max-h-[600px] of the scroll container
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+const MIN_COLUMN_WIDTH = 60;
+const SELECT_COLUMN_WIDTH = 44;
+
+const PREFS_KEY = "ip-dashboard:table-columns";
+
+interface ColumnPrefs {
+  hidden: string[];
+  widths: Record<string, number>;
+}
+
+function loadColumnPrefs(): ColumnPrefs {
+  const defaults = { hidden: COLUMNS.filter((c) => c.hidden).map((c) => c.key), widths: {} };
+  try {
+    const stored = localStorage.getItem(PREFS_KEY);
+    if (stored) return { ...defaults, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn("Ignoring invalid table column preferences:", error);
+  }
+  return defaults;
+}
+
+function saveColumnPrefs(prefs: ColumnPrefs) {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+}
+
+interface IPTableProps {
+  records: AggregatedIPData[];
+  /** Selected IP addresses */
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+}
+
+// Dense table for large data sets: only the rows in view (plus a margin) are rendered
+export function IPTable({ records, selected, onSelectedChange }: IPTableProps) {
+  const { policy } = useRiskPolicy();
+  const [prefs, setPrefs] = useState(loadColumnPrefs);
+  const [sort, setSort] = useState<{ key: string; direction: "asc" | "desc" } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lastClicked = useRef<number | null>(null);
+  const resizing = useRef<{ key: string; startX: number; startWidth: number } | null>(null);
+
+  useEffect(() => saveColumnPrefs(prefs), [prefs]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onScroll = () => setScrollTop(container.scrollTop);
+    container.addEventListener("scroll", onScroll, { passive: true });
+    return () => container.removeEventListener("scroll", onScroll);
+  }, []);
+
+  const columns = COLUMNS.filter((column) => !prefs.hidden.includes(column.key));
+  const widthOf = (column: Column) => prefs.widths[column.key] ?? column.width;
+  const tableWidth = SELECT_COLUMN_WIDTH + columns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  // Without a column sort the rows keep the dashboard's order
+  const rows = useMemo(() => {
+    const column = sort && COLUMNS.find((c) => c.key === sort.key);
+    if (!column) return records;
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return [...records].sort((a, b) => sign * column.compare(a, b));
+  }, [records, sort]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+
+  const toggleSort = (key: string) =>
+    setSort((current) =>
+      current?.key !== key
+        ? { key, direction: "asc" }
+        : current.direction === "asc"
+          ? { key, direction: "desc" }
+          : null
+    );
+
+  const toggleColumn = (key: string, visible: boolean) =>
+    setPrefs((current) => ({
+      ...current,
+      hidden: visible ? current.hidden.filter((k) => k !== key) : [...current.hidden, key],
+    }));
+
+  const selectedInView = rows.filter((record) => selected.has(record.IP)).length;
+  const headerChecked = selectedInView === 0 ? false : selectedInView === rows.length ? true : "indeterminate";
+
+  const toggleAll = () => {
+    const next = new Set(selected);
+    if (headerChecked === true) rows.forEach((record) => next.delete(record.IP));
+    else rows.forEach((record) => next.add(record.IP));
+    onSelectedChange(next);
+  };
+
+  // Shift-click selects (or clears) everything between the last clicked row and this one
+  const toggleRow = (index: number, shiftKey: boolean) => {
+    const next = new Set(selected);
+    const checked = !selected.has(rows[index].IP);
+    const anchor = shiftKey && lastClicked.current !== null ? Math.min(lastClicked.current, rows.length - 1) : index;
+    const from = Math.min(anchor, index);
+    const to = Math.max(anchor, index);
+    for (let i = from; i <= to; i++) {
+      if (checked) next.add(rows[i].IP);
+      else next.delete(rows[i].IP);
+    }
+    lastClicked.current = index;
+    onSelectedChange(next);
+  };
+
+  const startResize = (event: PointerEvent<HTMLDivElement>, column: Column) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    resizing.current = { key: column.key, startX: event.clientX, startWidth: widthOf(column) };
+  };
+
+  const resize = (event: PointerEvent<HTMLDivElement>) => {
+    const current = resizing.current;
+    if (!current) return;
+    const width = Math.max(MIN_COLUMN_WIDTH, current.startWidth + event.clientX - current.startX);
+    setPrefs((prefs) => ({ ...prefs, widths: { ...prefs.widths, [current.key]: width } }));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {rows.length.toLocaleString()} rows
+          {selected.size > 0 && (
+            <>
+              {" "}
+              • {selected.size.toLocaleString()} selected{" "}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onSelectedChange(new Set())}>
+                Clear selection
+              </Button>
+            </>
+          )}
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="mr-2 h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {COLUMNS.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.key}
+                checked={!prefs.hidden.includes(column.key)}
+                // Keep at least one data column
+                disabled={columns.length === 1 && columns[0].key === column.key}
+                onCheckedChange={(visible) => toggleColumn(column.key, visible)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="rounded-lg border bg-card">
+        <Table
+          containerRef={containerRef}
+          containerClassName="max-h-[600px]"
+          style={{ width: tableWidth, tableLayout: "fixed" }}
+        >
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {columns.map((column) => (
+              <col key={column.key} style={{ width: widthOf(column) }} />
+            ))}
+          </colgroup>
+          <TableHeader className="sticky top-0 z-10 bg-card">
+            <TableRow>
+              <TableHead>
+                <Checkbox checked={headerChecked} onClick={toggleAll} aria-label="Select all rows" />
+              </TableHead>
+              {columns.map((column) => (
+                <TableHead key={column.key} className="relative select-none">
+                  <button
+                    className={cn("flex w-full items-center gap-1", column.numeric && "justify-end")}
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    <span className="truncate">{column.label}</span>
+                    {sort?.key !== column.key ? (
+                      <ArrowUpDown className="h-3 w-3 shrink-0 opacity-40" />
+                    ) : sort.direction === "asc" ? (
+                      <ArrowUp className="h-3 w-3 shrink-0" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3 shrink-0" />
+                    )}
+                  </button>
+                  <div
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-border"
+                    onPointerDown={(event) => startResize(event, column)}
+                    onPointerMove={resize}
+                    onPointerUp={() => (resizing.current = null)}
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {visibleRows.map((record, offset) => {
+              const index = start + offset;
+              const isSelected = selected.has(record.IP);
+              return (
+                <TableRow
+                  key={`${record.IP}-${index}`}
+                  data-state={isSelected ? "selected" : undefined}
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <TableCell className="py-0">
+                    <Checkbox
+                      checked={isSelected}
+                      onClick={(event) => toggleRow(index, event.shiftKey)}
+                      aria-label={`Select ${record.IP}`}
+                    />
+                  </TableCell>
+                  {columns.map((column) => (
+                    <TableCell
+                      key={column.key}
+                      className={cn("truncate whitespace-nowrap py-0", column.numeric && "text-right tabular-nums")}
+                    >
+                      {column.render(record, policy)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+            {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
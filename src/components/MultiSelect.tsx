@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
+
+interface MultiSelectProps {
+  options: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder: string;
+  /** Display text for an option; the option itself is still matched when searching */
+  labelOf?: (option: string) => string;
+}
+
+export function MultiSelect({ options, value, onChange, placeholder, labelOf = (option) => option }: MultiSelectProps) {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (option: string) =>
+    onChange(value.includes(option) ? value.filter((item) => item !== option) : [...value, option]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          <span className="truncate">
+            {value.length === 0 ? (
+              <span className="text-muted-foreground">{placeholder}</span>
+            ) : value.length <= 2 ? (
+              value.map(labelOf).join(", ")
+            ) : (
+              `${value.length} selected`
+            )}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search..." />
+          <CommandList>
+            <CommandEmpty>No matches.</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem key={option} value={option} keywords={[labelOf(option)]} onSelect={() => toggle(option)}>
+                  <Check className={cn("mr-2 h-4 w-4", value.includes(option) ? "opacity-100" : "opacity-0")} />
+                  {labelOf(option)}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
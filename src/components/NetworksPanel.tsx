@@ -0,0 +1,246 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ChevronDown, Download, Filter, ShieldBan, ShieldCheck, X } from "lucide-react";
+import { toast } from "sonner";
+import { AggregatedIPData } from "@/types/ipData";
+import { BlocklistFormat } from "@/types/blocklist";
+import { ASNGroup, groupByASN } from "@/lib/asn";
+import { blocklistIPs, formatBlocklist } from "@/lib/blocklist";
+import { FacetFilter } from "@/lib/facets";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { useBlocklist } from "@/hooks/use-blocklist";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+type GroupSort = "ipCount" | "averageScore" | "maxScore" | "totalCount";
+
+const GROUP_SORTS: { key: GroupSort; label: string }[] = [
+  { key: "ipCount", label: "Most IPs" },
+  { key: "averageScore", label: "Highest average score" },
+  { key: "maxScore", label: "Highest max score" },
+  { key: "totalCount", label: "Most activity (Count)" },
+];
+
+const PAGE = 25;
+
+interface NetworksPanelProps {
+  /** Records matching the current filters; these are grouped and listed */
+  records: AggregatedIPData[];
+  /** Every record, so adding an ASN to the blocklist takes all of its IPs, not just the filtered ones */
+  allRecords: AggregatedIPData[];
+  onSelect: (facet: FacetFilter) => void;
+}
+
+// Records grouped by autonomous system, with the worst networks one click away from the blocklist export
+export function NetworksPanel({ records, allRecords, onSelect }: NetworksPanelProps) {
+  const { entries, add, remove, clear } = useBlocklist();
+  const [sort, setSort] = useState<GroupSort>("ipCount");
+  const [limit, setLimit] = useState(PAGE);
+  const groups = useMemo(() => groupByASN(records), [records]);
+  const allGroups = useMemo(() => new Map(groupByASN(allRecords).map((group) => [group.asn, group])), [allRecords]);
+
+  const sorted = [...groups].sort((a, b) => b[sort] - a[sort] || b.ipCount - a.ipCount);
+  const listed = new Set(entries.map((entry) => entry.asn));
+  const blocklistSize = new Set(entries.flatMap((entry) => blocklistIPs(entry, allRecords))).size;
+
+  const addToBlocklist = (group: ASNGroup) => {
+    const whole = allGroups.get(group.asn) ?? group;
+    add(group.asn, whole.isps.join(" / "), whole.records.map((record) => record.IP));
+    toast.success(`${group.asn} added to the blocklist export with ${whole.ipCount} IPs`);
+  };
+
+  const download = (format: BlocklistFormat) => {
+    const blob = new Blob([formatBlocklist(entries, allRecords, format)], {
+      type: format === "csv" ? "text/csv" : "text/plain",
+    });
+    const link = document.createElement("a");
+    link.download = `blocklist-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  if (records.length === 0 && entries.length === 0) {
+    return (
+      <div className="flex min-h-[200px] items-center justify-center">
+        <p className="text-muted-foreground">No networks to group for the current filters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0 pb-2">
+          <div>
+            <CardTitle className="text-base">Blocklist export</CardTitle>
+            <CardDescription>
+              {entries.length === 0
+                ? "Add a network below to block every IP it has in the data."
+                : `${entries.length} ASN${entries.length === 1 ? "" : "s"}, ${blocklistSize} IPs. IPs seen later for a listed ASN are included too.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => download("txt")} disabled={entries.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              .txt
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => download("csv")} disabled={entries.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              .csv
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clear} disabled={entries.length === 0}>
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        {entries.length > 0 && (
+          <CardContent className="flex flex-wrap gap-1">
+            {entries.map((entry) => (
+              <Badge key={entry.asn} variant="secondary" className="gap-1 py-1" title={entry.name}>
+                {entry.asn}
+                <button onClick={() => remove(entry.asn)} aria-label={`Remove ${entry.asn}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {groups.length} network{groups.length === 1 ? "" : "s"} for the current filters
+        </p>
+        <Select value={sort} onValueChange={(value) => setSort(value as GroupSort)}>
+          <SelectTrigger className="h-9 w-[210px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GROUP_SORTS.map(({ key, label }) => (
+              <SelectItem key={key} value={key}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {sorted.slice(0, limit).map((group) => (
+        <NetworkGroup
+          key={group.asn}
+          group={group}
+          listed={listed.has(group.asn)}
+          onAdd={() => addToBlocklist(group)}
+          onRemove={() => remove(group.asn)}
+          onFilter={() => onSelect({ field: "ASN", value: group.asn })}
+        />
+      ))}
+
+      {sorted.length > limit && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => setLimit(limit + PAGE)}>
+            Show more ({sorted.length - limit} left)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface NetworkGroupProps {
+  group: ASNGroup;
+  listed: boolean;
+  onAdd: () => void;
+  onRemove: () => void;
+  onFilter: () => void;
+}
+
+function NetworkGroup({ group, listed, onAdd, onRemove, onFilter }: NetworkGroupProps) {
+  const { policy } = useRiskPolicy();
+  const [open, setOpen] = useState(false);
+  const unknown = group.asn === "-";
+  // Only real AS numbers can be blocked as a whole; free-text values are still grouped and listed
+  const blockable = /^AS\d+$/.test(group.asn);
+
+  return (
+    <Card>
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="space-y-2 pb-3">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="min-w-0">
+              <CardTitle className="font-mono text-base">{unknown ? "Unknown ASN" : group.asn}</CardTitle>
+              <CardDescription className="truncate">{group.isps.join(" / ") || "No ISP name"}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={onFilter} title="Filter the dashboard to this ASN">
+                <Filter className="h-4 w-4" />
+              </Button>
+              {blockable &&
+                (listed ? (
+                  <Button variant="outline" size="sm" onClick={onRemove} title="Remove from the blocklist export">
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    On blocklist
+                  </Button>
+                ) : (
+                  <Button variant="destructive" size="sm" onClick={onAdd}>
+                    <ShieldBan className="mr-2 h-4 w-4" />
+                    Add whole ASN to blocklist
+                  </Button>
+                ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            <span>
+              <span className="font-semibold">{group.ipCount}</span> IP{group.ipCount === 1 ? "" : "s"}
+            </span>
+            <span>
+              avg{" "}
+              <span className={`font-semibold ${RISK_COLORS[tierFor(group.averageScore, policy).color].text}`}>
+                {Math.round(group.averageScore)}%
+              </span>
+            </span>
+            <span>
+              max{" "}
+              <span className={`font-semibold ${RISK_COLORS[tierFor(group.maxScore, policy).color].text}`}>
+                {group.maxScore}%
+              </span>
+            </span>
+            <span>
+              Count <span className="font-semibold">{group.totalCount.toLocaleString()}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {group.blocked} blocked / {group.alerted} alerted
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="pb-3">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="-ml-2">
+              Member IPs
+              <ChevronDown className={`ml-1 h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto">
+              {group.records.map((record, index) => (
+                <li key={`${record.IP}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                  <Link to={`/ip/${encodeURIComponent(record.IP)}`} className="font-mono text-primary hover:underline">
+                    {record.IP}
+                  </Link>
+                  <span className="truncate text-muted-foreground">
+                    {record.AbuseConfidenceScore}% · {record.Action} · Count {record.Count}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CollapsibleContent>
+        </CardContent>
+      </Collapsible>
+    </Card>
+  );
+}
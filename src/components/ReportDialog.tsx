@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import { AggregatedIPData } from "@/types/ipData";
+import {
+  ABUSE_CATEGORIES,
+  MAX_COMMENT_LENGTH,
+  buildEvidence,
+  defaultReportComment,
+  suggestCategories,
+} from "@/lib/abuseReport";
+import { REPORTER_LABELS } from "@/services/reporters";
+import { useReportQueue } from "@/hooks/use-report-queue";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+
+const reportSchema = z.object({
+  categories: z.array(z.number()).min(1, "Pick at least one category"),
+  comment: z
+    .string()
+    .trim()
+    .min(1, "Describe what was observed")
+    .max(MAX_COMMENT_LENGTH, `At most ${MAX_COMMENT_LENGTH} characters`),
+  includeEvidence: z.boolean(),
+});
+
+type ReportFormValues = z.infer<typeof reportSchema>;
+
+const defaultsFor = (record: AggregatedIPData): ReportFormValues => ({
+  categories: suggestCategories(record),
+  comment: defaultReportComment(record),
+  includeEvidence: true,
+});
+
+export function ReportDialog({ record }: { record: AggregatedIPData }) {
+  const { config, submit } = useReportQueue();
+  const [open, setOpen] = useState(false);
+  const form = useForm<ReportFormValues>({ resolver: zodResolver(reportSchema), defaultValues: defaultsFor(record) });
+  const evidence = buildEvidence(record);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) form.reset(defaultsFor(record));
+    setOpen(next);
+  };
+
+  const onSubmit = (values: ReportFormValues) => {
+    try {
+      submit({
+        ip: record.IP,
+        categories: values.categories,
+        comment: values.comment,
+        evidence: values.includeEvidence ? evidence : undefined,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    toast.success(
+      config.kind === "local"
+        ? `Report for ${record.IP} saved to the local queue`
+        : `Report for ${record.IP} queued for ${REPORTER_LABELS[config.kind]}`
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="default" className="flex-1">
+          <AlertTriangle className="mr-2 h-4 w-4" />
+          REPORT {record.IP}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Report {record.IP}</DialogTitle>
+          <DialogDescription>
+            Sent through {REPORTER_LABELS[config.kind]}. Reports wait in the queue until they are delivered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form id="abuse-report-form" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categories</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {ABUSE_CATEGORIES.map((category) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(category.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, category.id]
+                                : field.value.filter((id) => id !== category.id)
+                            )
+                          }
+                        />
+                        {category.label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>Pre-selected from the activities recorded for this IP.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comment</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {field.value.length}/{MAX_COMMENT_LENGTH} characters. Leave out internal hostnames and credentials.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="includeEvidence"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="!mt-0">Attach evidence from the dashboard</FormLabel>
+                  </div>
+                  {field.value && (
+                    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 rounded-md bg-muted/50 p-3 text-xs">
+                      <dt className="text-muted-foreground">Confidence</dt>
+                      <dd>{evidence.abuseConfidenceScore}%</dd>
+                      <dt className="text-muted-foreground">Reports</dt>
+                      <dd>{evidence.totalReports.toLocaleString()}</dd>
+                      <dt className="text-muted-foreground">Last reported</dt>
+                      <dd>{evidence.lastReportedAt || "-"}</dd>
+                      <dt className="text-muted-foreground">Network</dt>
+                      <dd>
+                        {evidence.isp} {evidence.asn && `(${evidence.asn})`}, {evidence.country}
+                      </dd>
+                      <dt className="text-muted-foreground">Activity</dt>
+                      <dd>
+                        {evidence.activities.map((a) => `${a.activity} × ${a.count} (${a.action || "-"})`).join(", ") ||
+                          "-"}
+                      </dd>
+                    </dl>
+                  )}
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+
+        <DialogFooter>
+          <Button type="submit" form="abuse-report-form">
+            Queue report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { Link } from "react-router-dom";
+import { Flag, RotateCw, Send, Trash2 } from "lucide-react";
+import { ReportStatus, ReporterConfig, ReporterKind } from "@/types/reporting";
+import { ABUSE_CATEGORIES } from "@/lib/abuseReport";
+import { ABUSEIPDB_REPORT_URL, REPORTER_LABELS } from "@/services/reporters";
+import { useReportQueue } from "@/hooks/use-report-queue";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "./ui/sheet";
+
+const STATUS_BADGES: Record<ReportStatus, string> = {
+  queued: "bg-muted text-muted-foreground hover:bg-muted/90",
+  sending: "bg-warning text-warning-foreground hover:bg-warning/90",
+  sent: "bg-success text-success-foreground hover:bg-success/90",
+  failed: "bg-danger text-danger-foreground hover:bg-danger/90",
+};
+
+const EMPTY_CONFIGS: Record<ReporterKind, ReporterConfig> = {
+  local: { kind: "local" },
+  rest: { kind: "rest", url: "" },
+  abuseipdb: { kind: "abuseipdb", apiKey: "" },
+};
+
+const categoryLabel = (id: number) => ABUSE_CATEGORIES.find((category) => category.id === id)?.label ?? String(id);
+
+// Where abuse reports go, and the reports waiting to get there
+export function ReportQueueSheet() {
+  const { config, queue, pending, setConfig, flush, retry, remove, clearSent } = useReportQueue();
+  const queued = queue.filter((item) => item.status === "queued").length;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Flag className="mr-2 h-4 w-4" />
+          Reports
+          {pending > 0 && (
+            <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+              {pending}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Abuse reports</SheetTitle>
+          <SheetDescription>Reports filed from the IP cards, oldest sent first.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <Label>Send reports to</Label>
+          <Select value={config.kind} onValueChange={(kind) => setConfig(EMPTY_CONFIGS[kind as ReporterKind])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REPORTER_LABELS) as ReporterKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {REPORTER_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {config.kind === "rest" && (
+            <Input
+              placeholder="https://tickets.example.com/api/abuse or http://localhost:8787/reports"
+              value={config.url}
+              onChange={(e) => setConfig({ ...config, url: e.target.value.trim() })}
+              aria-label="Report endpoint URL"
+            />
+          )}
+          {config.kind === "abuseipdb" && (
+            <>
+              <Input
+                type="password"
+                placeholder="API key"
+                value={config.apiKey}
+                onChange={(e) => setConfig({ ...config, apiKey: e.target.value.trim() })}
+                aria-label="AbuseIPDB API key"
+              />
+              <Input
+                placeholder={`Relay URL (defaults to ${ABUSEIPDB_REPORT_URL})`}
+                value={config.url ?? ""}
+                onChange={(e) => setConfig({ ...config, url: e.target.value.trim() })}
+                aria-label="AbuseIPDB relay URL"
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="remember-abuseipdb-key"
+                  checked={config.rememberKey ?? false}
+                  onCheckedChange={(checked) => setConfig({ ...config, rememberKey: checked === true })}
+                />
+                <Label htmlFor="remember-abuseipdb-key" className="text-sm font-normal">
+                  Remember the key on this device
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {config.rememberKey
+                  ? "The key is stored unencrypted in this browser's local storage, readable by anyone using this profile."
+                  : "The key is kept for this browser session only and has to be entered again next time."}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                AbuseIPDB does not accept requests from browsers directly; point this at a relay that forwards them.
+              </p>
+            </>
+          )}
+          {config.kind === "local" && (
+            <p className="text-xs text-muted-foreground">Reports are kept here until another destination is picked.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => flush()} disabled={queued === 0 || config.kind === "local"}>
+            <Send className="mr-2 h-4 w-4" />
+            Send queued ({queued})
+          </Button>
+          <Button variant="ghost" size="sm" onClick={clearSent} disabled={!queue.some((item) => item.status === "sent")}>
+            Clear sent
+          </Button>
+        </div>
+
+        <div className="min-h-0 flex-1 space-y-2 overflow-y-auto">
+          {queue.length === 0 && <p className="py-8 text-center text-sm text-muted-foreground">No reports yet.</p>}
+          {queue.map((item) => (
+            <div key={item.id} className="space-y-1 rounded-lg border border-border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/ip/${encodeURIComponent(item.report.ip)}`} className="font-semibold hover:underline">
+                  {item.report.ip}
+                </Link>
+                <div className="flex items-center gap-1">
+                  <Badge className={STATUS_BADGES[item.status]}>{item.status}</Badge>
+                  {item.status === "failed" && (
+                    <Button variant="ghost" size="icon" title="Retry" onClick={() => retry(item.id)}>
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" title="Remove" onClick={() => remove(item.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{item.report.categories.map(categoryLabel).join(", ")}</p>
+              <p className="line-clamp-2 text-xs">{item.report.comment}</p>
+              <p className="text-xs text-muted-foreground">
+                Filed {new Date(item.queuedAt).toLocaleString("id-ID")}
+                {item.attempts > 0 && ` • ${item.attempts} attempt${item.attempts === 1 ? "" : "s"}`}
+                {item.reference && ` • ${item.reference}`}
+                {item.error && ` • ${item.error}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
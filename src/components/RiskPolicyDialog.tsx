@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Gauge } from "lucide-react";
+import { CompositeWeights, RiskColor, RiskPolicy, RiskTier } from "@/types/riskPolicy";
+import { RISK_COLORS, validateRiskPolicy } from "@/lib/riskPolicy";
+import { COMPOSITE_SIGNALS } from "@/lib/compositeScore";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { toast } from "sonner";
+
+interface RiskPolicyDialogProps {
+  policy: RiskPolicy;
+  onChange: (policy: RiskPolicy | null) => void;
+}
+
+export function RiskPolicyDialog({ policy, onChange }: RiskPolicyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [tiers, setTiers] = useState<RiskTier[]>(policy.tiers);
+  const [weights, setWeights] = useState<CompositeWeights>(policy.weights);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setTiers(policy.tiers);
+      setWeights(policy.weights);
+    }
+    setOpen(next);
+  };
+
+  const updateTier = (index: number, patch: Partial<RiskTier>) =>
+    setTiers((current) => current.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)));
+
+  const handleSave = () => {
+    const next = { tiers: tiers.map((tier) => ({ ...tier, label: tier.label.trim() })), weights };
+    const errors = validateRiskPolicy(next);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    onChange(next);
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    onChange(null);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Risk thresholds and scoring">
+          <Gauge className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Risk thresholds</DialogTitle>
+          <DialogDescription>
+            An IP falls in the first tier whose minimum score it reaches. Tiers marked high risk are counted in the
+            High Risk stat and exported when no rows are selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_90px_120px_80px] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Name</span>
+            <span>Min score</span>
+            <span>Color</span>
+            <span>High risk</span>
+          </div>
+          {tiers.map((tier, index) => (
+            <div key={tier.id} className="grid grid-cols-[1fr_90px_120px_80px] items-center gap-2">
+              <Input
+                value={tier.label}
+                onChange={(e) => updateTier(index, { label: e.target.value })}
+                aria-label="Tier name"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={tier.minScore}
+                // The lowest tier always starts at 0 so every score has a tier
+                disabled={index === tiers.length - 1}
+                onChange={(e) => updateTier(index, { minScore: Number(e.target.value) })}
+                aria-label={`${tier.label} minimum score`}
+              />
+              <Select value={tier.color} onValueChange={(value) => updateTier(index, { color: value as RiskColor })}>
+                <SelectTrigger aria-label={`${tier.label} color`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RISK_COLORS) as RiskColor[]).map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2">
+                        <span className={`h-3 w-3 rounded-full ${RISK_COLORS[color].bg}`} />
+                        {RISK_COLORS[color].label}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex justify-center">
+                <Checkbox
+                  checked={tier.highRisk}
+                  onCheckedChange={(checked) => updateTier(index, { highRisk: checked === true })}
+                  aria-label={`Count ${tier.label} as high risk`}
+                />
+              </div>
+            </div>
+          ))}
+          <p className="pt-1 text-xs text-muted-foreground">
+            Scores are compared inclusively, so with a minimum of 75 a score of exactly 75 is in that tier.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold">Composite score weights</h3>
+            <p className="text-xs text-muted-foreground">
+              The composite risk score is the weighted average of these signals. Set a weight to 0 to ignore a signal.
+            </p>
+          </div>
+          {COMPOSITE_SIGNALS.map(({ signal, label, description }) => (
+            <div key={signal} className="grid grid-cols-[1fr_90px] items-center gap-2">
+              <div>
+                <p className="text-sm">{label}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Input
+                type="number"
+                min={0}
+                value={weights[signal]}
+                onChange={(e) => setWeights({ ...weights, [signal]: Number(e.target.value) })}
+                aria-label={`${label} weight`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleReset}>
+            Reset to default
+          </Button>
+          <Button onClick={handleSave}>Save thresholds</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useMemo, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { AggregatedIPData } from "@/types/ipData";
+import { SearchSuggestion, getSuggestions, parseSearchQuery } from "@/lib/searchQuery";
+import { Input } from "./ui/input";
+import { Popover, PopoverAnchor, PopoverContent } from "./ui/popover";
+import { Command, CommandGroup, CommandItem, CommandList } from "./ui/command";
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  records: AggregatedIPData[];
+}
+
+export function SearchBox({ value, onChange, records }: SearchBoxProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const [cursor, setCursor] = useState(value.length);
+  const [active, setActive] = useState(0);
+
+  const { errors } = useMemo(() => parseSearchQuery(value), [value]);
+  const { token, suggestions } = useMemo(
+    () => (focused ? getSuggestions(value, cursor, records) : { token: null, suggestions: [] }),
+    [focused, value, cursor, records]
+  );
+  const open = focused && suggestions.length > 0;
+
+  const apply = (suggestion: SearchSuggestion) => {
+    if (!token) return;
+    const next = value.slice(0, token.start) + suggestion.insert + value.slice(token.end);
+    const position = token.start + suggestion.insert.length;
+    onChange(next);
+    setCursor(position);
+    setActive(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((current) => (current + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      apply(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  const syncCursor = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+  };
+
+  return (
+    <div className="relative flex-1 sm:max-w-md">
+      <Popover open={open}>
+        <PopoverAnchor asChild>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            {/* Mirrors the input text to underline the terms that failed to parse */}
+            <div
+              aria-hidden
+              className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-10 pr-3 text-base text-transparent md:text-sm"
+            >
+              {highlightErrors(value, errors)}
+            </div>
+            <Input
+              ref={inputRef}
+              placeholder='Search, e.g. score>=80 country:ID -isp:google "jenis:brute force"'
+              value={value}
+              onChange={(e) => {
+                onChange(e.target.value);
+                syncCursor(e);
+                setActive(0);
+              }}
+              onSelect={syncCursor}
+              onKeyDown={handleKeyDown}
+              onFocus={() => setFocused(true)}
+              onBlur={() => setFocused(false)}
+              className="bg-transparent pl-10"
+              aria-invalid={errors.length > 0}
+            />
+          </div>
+        </PopoverAnchor>
+        <PopoverContent
+          align="start"
+          className="w-[--radix-popover-trigger-width] p-0"
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          // Keep the input focused while picking a suggestion with the mouse
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <Command shouldFilter={false} value={suggestions[active]?.label ?? ""}>
+            <CommandList>
+              <CommandGroup heading={token?.text.includes(":") ? "Values" : "Fields"}>
+                {suggestions.map((suggestion) => (
+                  <CommandItem key={suggestion.label} value={suggestion.label} onSelect={() => apply(suggestion)}>
+                    <span className="font-mono">{suggestion.label}</span>
+                    {suggestion.description && (
+                      <span className="ml-auto text-xs text-muted-foreground">{suggestion.description}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {errors.length > 0 && (
+        <p className="mt-1 text-xs text-danger">{errors.map((error) => error.message).join(" • ")}</p>
+      )}
+    </div>
+  );
+}
+
+function highlightErrors(value: string, errors: { start: number; end: number }[]) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    if (error.start < position) continue;
+    parts.push(value.slice(position, error.start));
+    parts.push(
+      <span key={error.start} className="underline decoration-danger decoration-wavy underline-offset-4">
+        {value.slice(error.start, error.end)}
+      </span>
+    );
+    position = error.end;
+  }
+
+  parts.push(value.slice(position));
+  return parts;
+}
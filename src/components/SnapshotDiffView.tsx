@@ -0,0 +1,51 @@
+import { IPData } from "@/types/ipData";
+import { SnapshotDiff } from "@/lib/ipDiff";
+import { Badge } from "./ui/badge";
+
+export function SnapshotDiffView({ diff }: { diff: Omit<SnapshotDiff, "at"> }) {
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <Badge className="bg-success text-success-foreground hover:bg-success/90">+{diff.added.length} added</Badge>
+        <Badge className="bg-warning text-warning-foreground hover:bg-warning/90">
+          {diff.changed.length} changed
+        </Badge>
+        <Badge variant="outline">-{diff.removed.length} removed</Badge>
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {diff.added.map((record) => (
+          <li key={`added-${record.IP}-${record.JenisAktivitas}`}>
+            <span className="text-success">+</span> <RecordLabel record={record} /> (score{" "}
+            {record.AbuseConfidenceScore}, {record.Action})
+          </li>
+        ))}
+        {diff.changed.map((change) => (
+          <li key={`changed-${change.key}`}>
+            <span className="text-warning">~</span> <RecordLabel record={change.after} />:{" "}
+            {change.fields.map((field) => (
+              <span key={field.field} className="mr-2 text-muted-foreground">
+                {field.field} <span className="line-through">{String(field.before)}</span> →{" "}
+                <span className="font-medium text-foreground">{String(field.after)}</span>
+              </span>
+            ))}
+          </li>
+        ))}
+        {diff.removed.map((record) => (
+          <li key={`removed-${record.IP}-${record.JenisAktivitas}`} className="text-muted-foreground">
+            <span>-</span> <RecordLabel record={record} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function RecordLabel({ record }: { record: IPData }) {
+  return (
+    <span>
+      <span className="font-mono font-medium text-foreground">{record.IP}</span>
+      {record.JenisAktivitas && <span className="text-muted-foreground"> · {record.JenisAktivitas}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive } from "lucide-react";
+import { toast } from "sonner";
+import { RetentionPolicy } from "@/types/snapshot";
+import { diffSnapshots } from "@/lib/ipDiff";
+import {
+  applyRetention,
+  clearSnapshots,
+  getIPHistory,
+  getSnapshot,
+  listSnapshots,
+  loadRetentionPolicy,
+  saveRetentionPolicy,
+} from "@/services/snapshotStore";
+import { SNAPSHOT_QUERY_KEY } from "@/hooks/use-ip-data";
+import { SnapshotDiffView } from "./SnapshotDiffView";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface SnapshotHistoryDialogProps {
+  sourceId: string;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleString("id-ID");
+
+export function SnapshotHistoryDialog({ sourceId }: SnapshotHistoryDialogProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [ip, setIp] = useState("");
+  const [retention, setRetention] = useState<RetentionPolicy>(loadRetentionPolicy);
+
+  const snapshots = useQuery({
+    queryKey: [SNAPSHOT_QUERY_KEY, sourceId, "list"],
+    queryFn: () => listSnapshots(sourceId),
+    enabled: open,
+  });
+
+  const comparison = useQuery({
+    queryKey: [SNAPSHOT_QUERY_KEY, "compare", fromId, toId],
+    queryFn: async () => {
+      const [from, to] = await Promise.all([getSnapshot(Number(fromId)), getSnapshot(Number(toId))]);
+      return from && to ? diffSnapshots(from.records, to.records, to.takenAt) : null;
+    },
+    enabled: open && !!fromId && !!toId,
+  });
+
+  const ipHistory = useQuery({
+    queryKey: [SNAPSHOT_QUERY_KEY, sourceId, "ip", ip.trim()],
+    queryFn: () => getIPHistory(sourceId, ip.trim()),
+    enabled: open && ip.trim().length > 0,
+  });
+
+  const refreshSnapshots = () => queryClient.invalidateQueries({ queryKey: [SNAPSHOT_QUERY_KEY, sourceId] });
+
+  const handleSaveRetention = async () => {
+    saveRetentionPolicy(retention);
+    await applyRetention(sourceId, retention);
+    await refreshSnapshots();
+    toast.success("Retention policy saved");
+  };
+
+  const handleClear = async () => {
+    await clearSnapshots(sourceId);
+    setFromId("");
+    setToId("");
+    await refreshSnapshots();
+    toast.success("Stored snapshots deleted");
+  };
+
+  const snapshotSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {snapshots.data?.map((snapshot) => (
+          <SelectItem key={snapshot.id} value={String(snapshot.id)}>
+            {formatTime(snapshot.takenAt)} ({snapshot.recordCount} rows)
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Archive className="mr-2 h-4 w-4" />
+          Snapshots
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Stored snapshots</DialogTitle>
+          <DialogDescription>
+            {snapshots.data?.length ?? 0} snapshot(s) of this data source are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="compare">
+          <TabsList>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+            <TabsTrigger value="ip">Per-IP history</TabsTrigger>
+            <TabsTrigger value="retention">Retention</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="compare" className="space-y-4">
+            <div className="grid gap-2 sm:grid-cols-2">
+              {snapshotSelect(fromId, setFromId, "From snapshot")}
+              {snapshotSelect(toId, setToId, "To snapshot")}
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto">
+              {comparison.data && <SnapshotDiffView diff={comparison.data} />}
+              {!fromId || !toId ? (
+                <p className="text-sm text-muted-foreground">Pick two snapshots to see what changed between them.</p>
+              ) : null}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="ip" className="space-y-4">
+            <Input placeholder="IP address, e.g. 103.147.12.9" value={ip} onChange={(e) => setIp(e.target.value)} />
+            <div className="max-h-[50vh] overflow-y-auto">
+              {ipHistory.data && ipHistory.data.length === 0 && (
+                <p className="text-sm text-muted-foreground">This IP does not appear in any stored snapshot.</p>
+              )}
+              {ipHistory.data && ipHistory.data.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Snapshot</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead className="text-right">Reports</TableHead>
+                      <TableHead className="text-right">Count</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ipHistory.data.map((point) => (
+                      <TableRow key={point.takenAt}>
+                        <TableCell>{formatTime(point.takenAt)}</TableCell>
+                        <TableCell className="text-right">{point.AbuseConfidenceScore}%</TableCell>
+                        <TableCell className="text-right">{point.TotalReports.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{point.Count}</TableCell>
+                        <TableCell>{point.Action}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="retention" className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="retention-days">Keep snapshots for (days)</Label>
+                <Input
+                  id="retention-days"
+                  type="number"
+                  min={1}
+                  value={retention.maxAgeDays}
+                  onChange={(e) => setRetention({ ...retention, maxAgeDays: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retention-count">Keep at most (snapshots)</Label>
+                <Input
+                  id="retention-count"
+                  type="number"
+                  min={1}
+                  value={retention.maxSnapshots}
+                  onChange={(e) => setRetention({ ...retention, maxSnapshots: Math.max(1, Number(e.target.value)) })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A snapshot is stored whenever a refresh returns data that differs from the previous one.
+            </p>
+            <div className="flex justify-between">
+              <Button variant="destructive" onClick={handleClear}>
+                Delete all snapshots
+              </Button>
+              <Button onClick={handleSaveRetention}>Save policy</Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import { MouseEvent, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AggregatedIPData } from "@/types/ipData";
+import { FacetFilter, facetLabel } from "@/lib/facets";
+import { CountryStats, statsByCountry } from "@/lib/analytics";
+import { RISK_COLORS, tierFor } from "@/lib/riskPolicy";
+import { useRiskPolicy } from "@/hooks/use-risk-policy";
+import { CountryShape, loadCountryShapes, MAP_HEIGHT, MAP_WIDTH } from "@/services/worldAtlas";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Skeleton } from "./ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+
+type MapMetric = "count" | "score";
+
+interface ThreatMapProps {
+  records: AggregatedIPData[];
+  onSelect: (facet: FacetFilter) => void;
+}
+
+interface HoverState {
+  shape: CountryShape;
+  x: number;
+  y: number;
+}
+
+const EMPTY_FILL = "hsl(var(--muted))";
+
+export function ThreatMap({ records, onSelect }: ThreatMapProps) {
+  const { policy } = useRiskPolicy();
+  const [metric, setMetric] = useState<MapMetric>("count");
+  const [hover, setHover] = useState<HoverState | null>(null);
+  const shapes = useQuery({ queryKey: ["world-atlas"], queryFn: loadCountryShapes, staleTime: Infinity, gcTime: Infinity });
+  const stats = useMemo(() => statsByCountry(records), [records]);
+  const maxCount = Math.max(1, ...[...stats.values()].map((entry) => entry.count));
+
+  // Counts use a square-root scale so a single IP still shows next to a country with hundreds
+  const fillOf = (entry: CountryStats | undefined) => {
+    if (!entry) return EMPTY_FILL;
+    if (metric === "score") return RISK_COLORS[tierFor(entry.averageScore, policy).color].fill;
+    return `hsl(var(--primary) / ${(0.2 + 0.8 * Math.sqrt(entry.count / maxCount)).toFixed(2)})`;
+  };
+
+  const rankValue = (entry: CountryStats) => (metric === "score" ? entry.averageScore : entry.count);
+  const ranked = [...stats.values()]
+    .filter((entry) => entry.code !== "-")
+    .sort((a, b) => rankValue(b) - rankValue(a) || b.count - a.count)
+    .slice(0, 10);
+
+  const trackHover = (shape: CountryShape) => (event: MouseEvent<SVGPathElement>) => {
+    const bounds = event.currentTarget.ownerSVGElement!.getBoundingClientRect();
+    setHover({ shape, x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+  };
+
+  const select = (code: string) => onSelect({ field: "Country", value: code });
+  const hovered = hover?.shape.code ? stats.get(hover.shape.code) : undefined;
+
+  if (records.length === 0) {
+    return (
+      <div className="flex min-h-[200px] items-center justify-center">
+        <p className="text-muted-foreground">No data to map for the current filters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-[1fr_280px]">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0 pb-2">
+          <div>
+            <CardTitle className="text-base">Threat origins</CardTitle>
+            <CardDescription>Click a country to filter the dashboard to it</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={metric}
+            onValueChange={(value) => value && setMetric(value as MapMetric)}
+          >
+            <ToggleGroupItem value="count">IP count</ToggleGroupItem>
+            <ToggleGroupItem value="score">Average score</ToggleGroupItem>
+          </ToggleGroup>
+        </CardHeader>
+        <CardContent>
+          {shapes.isLoading && <Skeleton className="aspect-[2/1] w-full" />}
+          {shapes.error && <p className="py-8 text-center text-sm text-danger">{shapes.error.message}</p>}
+          {shapes.data && (
+            <div className="relative">
+              <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="h-auto w-full" onMouseLeave={() => setHover(null)}>
+                {shapes.data.map((shape, index) => {
+                  const entry = shape.code ? stats.get(shape.code) : undefined;
+                  return (
+                    <path
+                      key={`${shape.code ?? shape.name}-${index}`}
+                      d={shape.path}
+                      fill={fillOf(entry)}
+                      stroke="hsl(var(--background))"
+                      strokeWidth={0.5}
+                      className={entry ? "cursor-pointer hover:opacity-80" : undefined}
+                      onMouseMove={trackHover(shape)}
+                      onClick={() => entry && select(entry.code)}
+                    />
+                  );
+                })}
+              </svg>
+              {hover && (
+                <div
+                  className="pointer-events-none absolute z-10 min-w-[180px] rounded-lg border border-border bg-background px-3 py-2 text-xs shadow-xl"
+                  style={{ left: hover.x + 12, top: hover.y + 12 }}
+                >
+                  <p className="font-semibold">
+                    {hover.shape.code ? facetLabel("Country", hover.shape.code) : hover.shape.name}
+                  </p>
+                  {hovered ? (
+                    <>
+                      <p className="text-muted-foreground">
+                        {hovered.count} IP{hovered.count === 1 ? "" : "s"} • average score{" "}
+                        {Math.round(hovered.averageScore)}%
+                      </p>
+                      <p className="mt-1 font-medium">Top ISPs</p>
+                      {hovered.topISPs.map((isp) => (
+                        <p key={isp.key} className="flex justify-between gap-3">
+                          <span className="truncate">{isp.label}</span>
+                          <span className="text-muted-foreground">{isp.value}</span>
+                        </p>
+                      ))}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">No IPs</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <MapLegend metric={metric} maxCount={maxCount} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{metric === "score" ? "Highest average score" : "Most IPs"}</CardTitle>
+          <CardDescription>Includes countries too small to click on the map</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {ranked.map((entry) => (
+            <button
+              key={entry.code}
+              onClick={() => select(entry.code)}
+              className="flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted"
+            >
+              <span className="truncate">{facetLabel("Country", entry.code)}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {metric === "score" ? `${Math.round(entry.averageScore)}%` : entry.count}
+              </span>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function MapLegend({ metric, maxCount }: { metric: MapMetric; maxCount: number }) {
+  const { policy } = useRiskPolicy();
+
+  if (metric === "score") {
+    return (
+      <div className="mt-3 flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {policy.tiers.map((tier) => (
+          <span key={tier.id} className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-sm ${RISK_COLORS[tier.color].bg}`} />
+            {tier.label} (≥ {tier.minScore})
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+      <span>1</span>
+      <span
+        className="h-3 w-40 rounded-sm"
+        style={{ background: "linear-gradient(to right, hsl(var(--primary) / 0.2), hsl(var(--primary)))" }}
+      />
+      <span>{maxCount} IPs</span>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Plus, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { WebhookDelivery, WebhookEndpoint, WebhookFormat } from "@/types/webhooks";
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  renderWebhookTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  WEBHOOK_FORMAT_LABELS,
+  testAlertEvent,
+} from "@/lib/webhookPayloads";
+import { deliverWebhook, MAX_ATTEMPTS } from "@/services/webhookDelivery";
+import { useWebhooks } from "@/hooks/use-webhooks";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+
+const STATUS_BADGES: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-warning text-warning-foreground hover:bg-warning/90",
+  delivered: "bg-success text-success-foreground hover:bg-success/90",
+  sent: "bg-primary text-primary-foreground hover:bg-primary/90",
+  failed: "bg-danger text-danger-foreground hover:bg-danger/90",
+};
+
+// Outbound webhooks for fired alerts, plus the log of recent deliveries
+export function WebhookSettings() {
+  const { endpoints, deliveries, saveEndpoints, clearLog } = useWebhooks();
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const updateEndpoint = (id: string, patch: Partial<WebhookEndpoint>) =>
+    saveEndpoints(endpoints.map((endpoint) => (endpoint.id === id ? { ...endpoint, ...patch } : endpoint)));
+
+  const addEndpoint = () =>
+    saveEndpoints([
+      ...endpoints,
+      { id: `webhook-${Date.now()}`, name: "New webhook", url: "", format: "generic", enabled: true },
+    ]);
+
+  const sendTest = async (endpoint: WebhookEndpoint) => {
+    if (!/^https?:\/\//.test(endpoint.url)) {
+      toast.error("Enter an http(s) URL first");
+      return;
+    }
+    setTesting(endpoint.id);
+    try {
+      const delivery = await deliverWebhook(endpoint, testAlertEvent());
+      if (delivery.status === "delivered") toast.success(`Test delivered to ${endpoint.name}`);
+      else if (delivery.status === "sent") toast.success(`Test sent to ${endpoint.name}; check the channel for it`);
+      else toast.error(`Test to ${endpoint.name} failed: ${delivery.error}`);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Every fired alert is POSTed as JSON to the enabled webhooks, with up to {MAX_ATTEMPTS} attempts and backoff.
+        Slack and Teams do not let the browser read their reply, so those deliveries are logged as sent without
+        retries. Other receivers must allow cross-origin requests from this page for their status to be checked.
+      </p>
+
+      {endpoints.map((endpoint) => (
+        <div key={endpoint.id} className="space-y-2 rounded-lg border border-border p-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={endpoint.enabled}
+              onCheckedChange={(enabled) => updateEndpoint(endpoint.id, { enabled })}
+              aria-label="Enabled"
+            />
+            <Input
+              value={endpoint.name}
+              onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+              aria-label="Webhook name"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Delete webhook"
+              onClick={() => saveEndpoints(endpoints.filter((e) => e.id !== endpoint.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            placeholder="https://hooks.slack.com/services/… or http://localhost:8787/hook"
+            value={endpoint.url}
+            onChange={(e) => updateEndpoint(endpoint.id, { url: e.target.value.trim() })}
+            aria-label="Webhook URL"
+          />
+          <div className="flex gap-2">
+            <Select
+              value={endpoint.format}
+              onValueChange={(format) => updateEndpoint(endpoint.id, { format: format as WebhookFormat })}
+            >
+              <SelectTrigger aria-label="Payload format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(WEBHOOK_FORMAT_LABELS) as WebhookFormat[]).map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {WEBHOOK_FORMAT_LABELS[format]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => sendTest(endpoint)} disabled={testing === endpoint.id}>
+              <Send className={`mr-2 h-4 w-4 ${testing === endpoint.id ? "animate-pulse" : ""}`} />
+              Send test
+            </Button>
+          </div>
+          {endpoint.format === "custom" && (
+            <TemplateEditor
+              template={endpoint.template ?? DEFAULT_WEBHOOK_TEMPLATE}
+              onChange={(template) => updateEndpoint(endpoint.id, { template })}
+            />
+          )}
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addEndpoint}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add webhook
+      </Button>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold">Delivery log</h3>
+          <Button variant="ghost" size="sm" onClick={clearLog} disabled={deliveries.length === 0}>
+            Clear log
+          </Button>
+        </div>
+        {deliveries.length === 0 && <p className="text-xs text-muted-foreground">Nothing sent yet.</p>}
+        {deliveries.map((delivery) => (
+          <div key={delivery.id} className="flex items-start justify-between gap-2 border-b border-border/50 pb-2 text-xs">
+            <div className="min-w-0">
+              <p className="truncate font-medium">{delivery.title}</p>
+              <p className="text-muted-foreground">
+                {delivery.endpointName} • {new Date(delivery.startedAt).toLocaleString("id-ID")} • attempt{" "}
+                {delivery.attempts}/{MAX_ATTEMPTS}
+                {delivery.error && ` • ${delivery.error}`}
+              </p>
+            </div>
+            <Badge className={STATUS_BADGES[delivery.status]}>{delivery.status}</Badge>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TemplateEditor({ template, onChange }: { template: string; onChange: (template: string) => void }) {
+  let error: string | null = null;
+  try {
+    renderWebhookTemplate(template, testAlertEvent());
+  } catch (e) {
+    error = (e as Error).message;
+  }
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        rows={6}
+        className="font-mono text-xs"
+        value={template}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label="Payload template"
+      />
+      <p className="text-xs text-muted-foreground">
+        Placeholders, inside JSON strings: {TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+      </p>
+      {error && <p className="text-xs text-danger">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { ExternalLink, Mail, RefreshCw } from "lucide-react";
+import { WhoisRecord } from "@/types/whois";
+import { abuseContact } from "@/lib/rdap";
+import { useWhois } from "@/hooks/use-whois";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "./ui/sheet";
+import { Skeleton } from "./ui/skeleton";
+
+// Registration data for the network an IP belongs to, looked up when the sheet is opened
+export function WhoisSheet({ ip }: { ip: string }) {
+  const [open, setOpen] = useState(false);
+  const whois = useWhois(ip, open);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="secondary" className="flex-1">
+          <ExternalLink className="mr-2 h-4 w-4" />
+          WHOIS {ip}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>WHOIS {ip}</SheetTitle>
+          <SheetDescription>Registration data from the responsible regional registry, via RDAP.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {whois.isLoading && (
+            <div className="space-y-2">
+              <Skeleton className="h-6 w-2/3" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-5/6" />
+            </div>
+          )}
+          {whois.isError && (
+            <div className="space-y-2 rounded-lg border border-danger/50 p-3 text-sm">
+              <p className="text-danger">{(whois.error as Error).message}</p>
+              <Button variant="outline" size="sm" onClick={() => whois.refetch()}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try again
+              </Button>
+            </div>
+          )}
+          {whois.data && <WhoisDetails record={whois.data} />}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function WhoisDetails({ record }: { record: WhoisRecord }) {
+  const abuse = abuseContact(record);
+
+  return (
+    <>
+      <div>
+        <h3 className="text-lg font-semibold">{record.name || record.handle || "Unnamed network"}</h3>
+        <div className="mt-1 flex flex-wrap gap-1">
+          {record.type && <Badge variant="secondary">{record.type}</Badge>}
+          {record.status.map((status) => (
+            <Badge key={status} variant="outline">
+              {status}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {abuse && (
+        <a
+          href={`mailto:${abuse.email}?subject=${encodeURIComponent(`Abuse from ${record.query}`)}`}
+          className="flex items-center gap-2 rounded-lg border border-border p-3 text-sm hover:bg-muted"
+        >
+          <Mail className="h-4 w-4 text-primary" />
+          <span>
+            Abuse contact: <span className="font-medium text-primary">{abuse.email}</span>
+          </span>
+        </a>
+      )}
+
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+        <dt className="text-muted-foreground">Handle</dt>
+        <dd>{record.handle || "-"}</dd>
+        <dt className="text-muted-foreground">Range</dt>
+        <dd className="font-mono">
+          {record.startAddress && record.endAddress ? `${record.startAddress} – ${record.endAddress}` : "-"}
+        </dd>
+        <dt className="text-muted-foreground">CIDR</dt>
+        <dd className="font-mono">{record.cidrs.join(", ") || "-"}</dd>
+        <dt className="text-muted-foreground">Country</dt>
+        <dd>{record.country || "-"}</dd>
+        <dt className="text-muted-foreground">Origin AS</dt>
+        <dd className="font-mono">{record.originASNs.join(", ") || "-"}</dd>
+        <dt className="text-muted-foreground">Parent</dt>
+        <dd>{record.parentHandle || "-"}</dd>
+        {record.events.map((event) => (
+          <div key={event.action} className="contents">
+            <dt className="capitalize text-muted-foreground">{event.action}</dt>
+            <dd>{new Date(event.date).toLocaleString("id-ID")}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {record.contacts.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Contacts</h4>
+          {record.contacts.map((contact, index) => (
+            <div key={`${contact.handle}-${index}`} className="rounded-lg border border-border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{contact.name || contact.handle || "Unnamed"}</span>
+                {contact.roles.map((role) => (
+                  <Badge key={role} variant="outline" className="capitalize">
+                    {role}
+                  </Badge>
+                ))}
+              </div>
+              {contact.email && <p className="text-muted-foreground">{contact.email}</p>}
+              {contact.phone && <p className="text-muted-foreground">{contact.phone}</p>}
+              {contact.address && <p className="text-muted-foreground">{contact.address}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {record.remarks.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-semibold">Remarks</h4>
+          {record.remarks.map((remark, index) => (
+            <p key={index} className="text-xs text-muted-foreground">
+              {remark}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <a href={record.source} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline">
+        Raw RDAP response
+      </a>
+    </>
+  );
+}
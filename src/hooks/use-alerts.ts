@@ -0,0 +1,95 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { toast } from "sonner";
+import { AlertEvent } from "@/types/alerts";
+import { IPData } from "@/types/ipData";
+import { evaluateAlertRules, isSnoozed } from "@/lib/alertRules";
+import { diffSnapshots } from "@/lib/ipDiff";
+import {
+  acknowledgeAlerts,
+  addAlerts,
+  clearAlerts,
+  loadAlertState,
+  saveAlertRules,
+  snoozeAlert,
+  subscribeAlertState,
+  unsnoozeAlert,
+} from "@/services/alertStore";
+import { dispatchWebhooks } from "@/services/webhookDelivery";
+
+const TOASTS_PER_REFRESH = 3;
+
+// The Notification constructor throws on Android Chrome and wherever popups must go through a service
+// worker; there the registration shows them, and without one the in-app toasts are all the user gets
+async function showBrowserNotifications(events: AlertEvent[]) {
+  try {
+    events.forEach((event) => new Notification(event.title, { body: event.message, tag: event.key }));
+    return;
+  } catch (error) {
+    console.warn("Notification constructor unavailable, trying the service worker:", error);
+  }
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (!registration) return;
+    await Promise.all(
+      events.map((event) => registration.showNotification(event.title, { body: event.message, tag: event.key }))
+    );
+  } catch (error) {
+    console.warn("Browser notifications failed, showing in-app toasts only:", error);
+  }
+}
+
+function notify(events: AlertEvent[]) {
+  events.slice(0, TOASTS_PER_REFRESH).forEach((event) => toast.warning(event.title, { description: event.message }));
+  if (events.length > TOASTS_PER_REFRESH) {
+    toast.warning(`${events.length - TOASTS_PER_REFRESH} more alerts`, { description: "See the alert inbox" });
+  }
+
+  // Browser popups only once the user has allowed them from the inbox
+  if ("Notification" in window && Notification.permission === "granted") {
+    void showBrowserNotifications(events);
+  }
+}
+
+// Evaluates the alert rules against every refresh that brings new records
+export function useAlertEngine(records: IPData[] | undefined, sourceId: string) {
+  const previous = useRef<{ sourceId: string; records: IPData[] } | null>(null);
+
+  useEffect(() => {
+    if (!records) return;
+
+    const last = previous.current;
+    previous.current = { sourceId, records };
+    // The first load and source switches have nothing to compare against
+    if (!last || last.sourceId !== sourceId || last.records === records) return;
+
+    const at = Date.now();
+    const diff = diffSnapshots(last.records, records, at);
+    const { rules, snoozes } = loadAlertState();
+    const events: AlertEvent[] = evaluateAlertRules(rules, last.records, records, diff)
+      .filter((alert) => !isSnoozed(snoozes, alert.key, at))
+      .map((alert, index) => ({ ...alert, id: `${at}-${index}`, firedAt: at, acknowledged: false }));
+
+    addAlerts(events);
+    if (events.length > 0) {
+      notify(events);
+      // Deliveries retry in the background and report through the delivery log
+      dispatchWebhooks(events).catch((error) => console.error("Webhook dispatch failed:", error));
+    }
+  }, [records, sourceId]);
+}
+
+export function useAlerts() {
+  const { rules, events, snoozes } = useSyncExternalStore(subscribeAlertState, loadAlertState);
+
+  return {
+    rules,
+    events,
+    snoozes,
+    unread: events.filter((event) => !event.acknowledged).length,
+    saveRules: saveAlertRules,
+    acknowledge: acknowledgeAlerts,
+    snooze: snoozeAlert,
+    unsnooze: unsnoozeAlert,
+    clear: clearAlerts,
+  };
+}
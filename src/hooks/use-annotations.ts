@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from "react";
+import { loadAnnotations, subscribeAnnotations, updateAnnotation } from "@/services/annotationStore";
+import { emptyAnnotation } from "@/lib/annotations";
+import { normalizeIP } from "@/lib/ipAddress";
+
+export function useAnnotations() {
+  const annotations = useSyncExternalStore(subscribeAnnotations, loadAnnotations);
+  return { annotations, updateAnnotation };
+}
+
+// One IP's annotation, with defaults when nothing has been recorded yet
+export function useAnnotation(ip: string) {
+  const annotations = useSyncExternalStore(subscribeAnnotations, loadAnnotations);
+  const annotation = annotations[normalizeIP(ip)] ?? emptyAnnotation(ip);
+  return { annotation, update: (patch: Parameters<typeof updateAnnotation>[1]) => updateAnnotation(ip, patch) };
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import {
+  addASNToBlocklist,
+  clearBlocklist,
+  loadBlocklist,
+  removeASNFromBlocklist,
+  subscribeBlocklist,
+} from "@/services/blocklistStore";
+
+export function useBlocklist() {
+  const entries = useSyncExternalStore(subscribeBlocklist, loadBlocklist);
+  return { entries, add: addASNToBlocklist, remove: removeASNFromBlocklist, clear: clearBlocklist };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import html2canvas from "html2canvas";
+import { AggregatedIPData } from "@/types/ipData";
+
+export interface CardScreenshot {
+  ip: string;
+  dataUrl: string;
+}
+
+// Exports screenshot cards rendered just for the export, so they work whatever
+// view is on screen and for cards that are not currently rendered
+export function useCardCapture() {
+  const [records, setRecords] = useState<AggregatedIPData[]>([]);
+  const nodes = useRef(new Map<string, HTMLDivElement>());
+  const onRendered = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (records.length === 0 || !onRendered.current) return;
+    onRendered.current();
+    onRendered.current = null;
+  }, [records]);
+
+  const registerCard = useCallback(
+    (ip: string) => (node: HTMLDivElement | null) => {
+      if (node) nodes.current.set(ip, node);
+      else nodes.current.delete(ip);
+    },
+    []
+  );
+
+  const capture = useCallback(async (targets: AggregatedIPData[], scale: number): Promise<CardScreenshot[]> => {
+    if (targets.length === 0) return [];
+    await new Promise<void>((resolve) => {
+      onRendered.current = resolve;
+      setRecords(targets);
+    });
+
+    try {
+      const screenshots: CardScreenshot[] = [];
+      for (const { IP } of targets) {
+        const node = nodes.current.get(IP);
+        if (!node) continue;
+        const canvas = await html2canvas(node, { backgroundColor: "#ffffff", scale });
+        screenshots.push({ ip: IP, dataUrl: canvas.toDataURL("image/png") });
+      }
+      return screenshots;
+    } finally {
+      setRecords([]);
+    }
+  }, []);
+
+  return { records, registerCard, capture };
+}
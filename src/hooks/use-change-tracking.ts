@@ -0,0 +1,47 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { IPData } from "@/types/ipData";
+import { ChangeKind, SnapshotDiff, diffSnapshots, isEmptyDiff, recordKey } from "@/lib/ipDiff";
+
+export const CHANGE_HISTORY_LIMIT = 10;
+
+// Diffs each new snapshot against the previous one and keeps the last non-empty diffs
+export function useChangeTracking(
+  records: IPData[] | undefined,
+  sourceId: string,
+  limit = CHANGE_HISTORY_LIMIT
+) {
+  const previous = useRef<{ sourceId: string; records: IPData[] } | null>(null);
+  const [history, setHistory] = useState<SnapshotDiff[]>([]);
+
+  useEffect(() => {
+    if (!records) return;
+
+    const last = previous.current;
+    previous.current = { sourceId, records };
+
+    // Switching sources is not a change in the data
+    if (!last || last.sourceId !== sourceId) {
+      setHistory([]);
+      return;
+    }
+    if (last.records === records) return;
+
+    const diff = diffSnapshots(last.records, records);
+    if (!isEmptyDiff(diff)) {
+      setHistory((current) => [diff, ...current].slice(0, limit));
+    }
+  }, [records, sourceId, limit]);
+
+  // Cards stay highlighted until the next refresh that changes something
+  const highlights = useMemo(() => {
+    const map = new Map<string, ChangeKind>();
+    const latest = history[0];
+    if (!latest) return map;
+
+    latest.added.forEach((record) => map.set(recordKey(record), "added"));
+    latest.changed.forEach((change) => map.set(change.key, "changed"));
+    return map;
+  }, [history]);
+
+  return { history, highlights, clearHistory: () => setHistory([]) };
+}
@@ -0,0 +1,15 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  createDataSource,
+  loadDataSourceConfig,
+  saveDataSourceConfig,
+  subscribeDataSourceConfig,
+} from "@/services/dataSources";
+
+// Active data source shared by every page; changing it re-renders all consumers
+export function useDataSource() {
+  const config = useSyncExternalStore(subscribeDataSourceConfig, loadDataSourceConfig);
+  const dataSource = useMemo(() => createDataSource(config), [config]);
+
+  return { config, dataSource, setConfig: saveDataSourceConfig };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { IPData } from "@/types/ipData";
+import { IPEnrichment } from "@/types/enrichment";
+import {
+  EnrichmentProgress,
+  applyEnrichment,
+  blankFieldsByIP,
+  createEnrichmentProvider,
+  enrichIPs,
+  loadEnrichmentConfigs,
+  saveEnrichmentConfigs,
+  subscribeEnrichmentConfigs,
+} from "@/services/enrichment";
+
+export function useEnrichmentProviders() {
+  const configs = useSyncExternalStore(subscribeEnrichmentConfigs, loadEnrichmentConfigs);
+  return { configs, setConfigs: saveEnrichmentConfigs };
+}
+
+// Records with blank fields filled in by the enabled providers; results show up as lookups complete
+export function useEnrichedRecords(records: IPData[] | undefined) {
+  const { configs } = useEnrichmentProviders();
+  const providers = useMemo(() => configs.filter((config) => config.enabled).map(createEnrichmentProvider), [configs]);
+  const [enrichments, setEnrichments] = useState<Map<string, IPEnrichment>>(() => new Map());
+  const [progress, setProgress] = useState<EnrichmentProgress | null>(null);
+
+  // Another set of providers may answer differently, so start over
+  useEffect(() => setEnrichments(new Map()), [providers]);
+
+  useEffect(() => {
+    if (!records || providers.length === 0) {
+      setProgress(null);
+      return;
+    }
+    const controller = new AbortController();
+    enrichIPs(blankFieldsByIP(records), providers, {
+      signal: controller.signal,
+      onUpdate: (found, current) => {
+        if (controller.signal.aborted) return;
+        // Keep what earlier runs found; a refresh usually brings mostly the same IPs
+        setEnrichments((previous) => new Map([...previous, ...found]));
+        setProgress(current.done < current.total ? current : null);
+      },
+    }).catch((error) => console.warn("Enrichment failed:", error));
+    return () => controller.abort();
+  }, [records, providers]);
+
+  const enriched = useMemo(() => records && applyEnrichment(records, enrichments), [records, enrichments]);
+  return { records: enriched, progress };
+}
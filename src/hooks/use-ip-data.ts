@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { getLatestSnapshot, saveSnapshot } from "@/services/snapshotStore";
+import { useDataSource } from "./use-data-source";
+
+export const IP_DATA_QUERY_KEY = "ip-data";
+export const SNAPSHOT_QUERY_KEY = "ip-snapshots";
+
+// Consider a snapshot fresh for a few seconds so pages mounting together share one request
+const STALE_TIME = 5000;
+const MAX_RETRY_DELAY = 30000;
+
+interface UseIPDataOptions {
+  /** Poll interval in milliseconds, or false to only fetch on demand */
+  refetchInterval?: number | false;
+}
+
+export function useIPData({ refetchInterval = false }: UseIPDataOptions = {}) {
+  const { dataSource } = useDataSource();
+
+  const query = useQuery({
+    queryKey: [IP_DATA_QUERY_KEY, dataSource.id],
+    queryFn: async ({ signal }) => {
+      const result = await dataSource.load(signal);
+      saveSnapshot(dataSource.id, result.records).catch((error) =>
+        console.warn("Failed to store snapshot:", error)
+      );
+      return result;
+    },
+    refetchInterval,
+    staleTime: STALE_TIME,
+    retry: 3,
+    retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY),
+  });
+
+  // When the source cannot be reached and nothing is cached, fall back to the newest stored snapshot
+  const offline = useQuery({
+    queryKey: [SNAPSHOT_QUERY_KEY, dataSource.id, "latest"],
+    queryFn: () => getLatestSnapshot(dataSource.id),
+    enabled: query.isError && !query.data,
+    staleTime: Infinity,
+  });
+
+  return {
+    ...query,
+    dataSource,
+    offlineSnapshot: query.data ? null : offline.data ?? null,
+  };
+}
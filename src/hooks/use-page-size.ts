@@ -0,0 +1,22 @@
+import { useState } from "react";
+
+export const PAGE_SIZES = [12, 24, 48, 96];
+const DEFAULT_PAGE_SIZE = 24;
+const PAGE_SIZE_KEY = "ip-dashboard:page-size";
+
+function loadPageSize(): number {
+  const stored = Number(localStorage.getItem(PAGE_SIZE_KEY));
+  return PAGE_SIZES.includes(stored) ? stored : DEFAULT_PAGE_SIZE;
+}
+
+// Cards per page, remembered in this browser
+export function usePageSize() {
+  const [pageSize, setPageSize] = useState(loadPageSize);
+
+  const update = (size: number) => {
+    localStorage.setItem(PAGE_SIZE_KEY, String(size));
+    setPageSize(size);
+  };
+
+  return [pageSize, update] as const;
+}
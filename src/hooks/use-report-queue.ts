@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from "react";
+import { AbuseReport } from "@/types/reporting";
+import {
+  clearSentReports,
+  enqueueReport,
+  flushReportQueue,
+  loadReportQueueState,
+  removeQueuedReport,
+  retryReport,
+  saveReporterConfig,
+  subscribeReportQueue,
+} from "@/services/reportQueue";
+
+export function useReportQueue() {
+  const { config, queue } = useSyncExternalStore(subscribeReportQueue, loadReportQueueState);
+  const pending = queue.filter((item) => item.status !== "sent").length;
+
+  return {
+    config,
+    queue,
+    pending,
+    setConfig: saveReporterConfig,
+    submit: (report: AbuseReport) => {
+      const item = enqueueReport(report);
+      void flushReportQueue();
+      return item;
+    },
+    retry: (id: string) => {
+      retryReport(id);
+      void flushReportQueue();
+    },
+    flush: flushReportQueue,
+    remove: removeQueuedReport,
+    clearSent: clearSentReports,
+  };
+}
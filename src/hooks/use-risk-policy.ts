@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { loadRiskPolicy, saveRiskPolicy, subscribeRiskPolicy } from "@/services/riskPolicyStore";
+
+// Risk tiers shared by cards, stats, charts and exports; saving re-renders every consumer
+export function useRiskPolicy() {
+  const policy = useSyncExternalStore(subscribeRiskPolicy, loadRiskPolicy);
+  return { policy, setPolicy: saveRiskPolicy };
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import {
+  clearDeliveryLog,
+  loadWebhookState,
+  saveWebhookEndpoints,
+  subscribeWebhookState,
+} from "@/services/webhookStore";
+
+export function useWebhooks() {
+  const { endpoints, deliveries } = useSyncExternalStore(subscribeWebhookState, loadWebhookState);
+  return { endpoints, deliveries, saveEndpoints: saveWebhookEndpoints, clearLog: clearDeliveryLog };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { WhoisProvider } from "@/types/whois";
+import { defaultWhoisProvider } from "@/services/whoisProviders";
+
+export const WHOIS_QUERY_KEY = "whois";
+const HOUR = 60 * 60 * 1000;
+
+// Registration data rarely changes, so lookups are cached for the session and only run when asked for
+export function useWhois(ip: string, enabled: boolean, provider: WhoisProvider = defaultWhoisProvider) {
+  return useQuery({
+    queryKey: [WHOIS_QUERY_KEY, provider.id, ip],
+    queryFn: ({ signal }) => provider.lookup(ip, signal),
+    enabled,
+    staleTime: HOUR,
+    gcTime: HOUR,
+    retry: 1,
+  });
+}
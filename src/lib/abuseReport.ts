@@ -0,0 +1,58 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { ReportEvidence } from "@/types/reporting";
+
+/** AbuseIPDB's limit, the strictest of the supported reporters */
+export const MAX_COMMENT_LENGTH = 1024;
+
+// AbuseIPDB category ids; the pattern suggests a category from the sheet's activity names
+export const ABUSE_CATEGORIES: { id: number; label: string; pattern?: RegExp }[] = [
+  { id: 4, label: "DDoS Attack", pattern: /ddos|\bdos\b|flood/i },
+  { id: 9, label: "Open Proxy", pattern: /proxy/i },
+  { id: 10, label: "Web Spam", pattern: /web spam|comment spam/i },
+  { id: 11, label: "Email Spam", pattern: /e-?mail|smtp|spam/i },
+  { id: 14, label: "Port Scan", pattern: /scan/i },
+  { id: 15, label: "Hacking", pattern: /hack|exploit|\brce\b|shell|backdoor/i },
+  { id: 16, label: "SQL Injection", pattern: /sql|inject/i },
+  { id: 18, label: "Brute-Force", pattern: /brute|login|credential|password/i },
+  { id: 19, label: "Bad Web Bot", pattern: /bot|crawl/i },
+  { id: 20, label: "Exploited Host", pattern: /malware|botnet|infect/i },
+  { id: 21, label: "Web App Attack", pattern: /web|xss|lfi|rfi|traversal/i },
+  { id: 22, label: "SSH", pattern: /ssh/i },
+];
+
+const activitiesOf = (record: AggregatedIPData) => record.activities.filter((activity) => activity.JenisAktivitas);
+
+export function suggestCategories(record: AggregatedIPData): number[] {
+  const names = activitiesOf(record).map((activity) => activity.JenisAktivitas);
+  return ABUSE_CATEGORIES.filter(({ pattern }) => pattern && names.some((name) => pattern.test(name))).map(
+    ({ id }) => id
+  );
+}
+
+export function buildEvidence(record: AggregatedIPData): ReportEvidence {
+  return {
+    abuseConfidenceScore: record.AbuseConfidenceScore,
+    totalReports: record.TotalReports,
+    lastReportedAt: record.LastReportedAt,
+    isp: record.ISP,
+    asn: record.ASN,
+    country: record.Country,
+    activities: activitiesOf(record).map((activity) => ({
+      activity: activity.JenisAktivitas,
+      count: activity.Count,
+      action: activity.Action,
+    })),
+  };
+}
+
+// e.g. "Brute Force × 37 (Blocked), Port Scan × 12 (Alerted). Last reported 2025-01-14T08:12:44+00:00."
+export function defaultReportComment(record: AggregatedIPData): string {
+  const seen = activitiesOf(record)
+    .map((activity) => `${activity.JenisAktivitas} × ${activity.Count} (${activity.Action || "-"})`)
+    .join(", ");
+  const parts = [
+    seen && `Observed ${seen}.`,
+    record.LastReportedAt && `Last reported ${record.LastReportedAt}.`,
+  ].filter(Boolean);
+  return parts.join(" ").slice(0, MAX_COMMENT_LENGTH);
+}
@@ -0,0 +1,59 @@
+import { AggregatedIPData, IPData } from "@/types/ipData";
+import { parseReportedAt } from "./dates";
+
+const isBlocked = (record: IPData) => record.Action.toLowerCase() === "blocked";
+
+function latestReportedAt(rows: IPData[]): string {
+  let latest = rows[0].LastReportedAt;
+  let latestTime = parseReportedAt(latest)?.getTime() ?? -Infinity;
+
+  for (const row of rows) {
+    const time = parseReportedAt(row.LastReportedAt)?.getTime() ?? -Infinity;
+    if (time > latestTime) {
+      latest = row.LastReportedAt;
+      latestTime = time;
+    }
+  }
+  return latest;
+}
+
+export function mergeRows(rows: IPData[]): AggregatedIPData {
+  // Descriptive fields come from the riskiest row
+  const base = rows.reduce((best, row) => (row.AbuseConfidenceScore > best.AbuseConfidenceScore ? row : best));
+  const activities = rows.map((row) => ({
+    JenisAktivitas: row.JenisAktivitas,
+    Count: row.Count,
+    Action: row.Action,
+  }));
+
+  return {
+    ...base,
+    AbuseConfidenceScore: Math.max(...rows.map((row) => row.AbuseConfidenceScore)),
+    TotalReports: rows.reduce((sum, row) => sum + row.TotalReports, 0),
+    Count: rows.reduce((sum, row) => sum + row.Count, 0),
+    LastReportedAt: latestReportedAt(rows),
+    JenisAktivitas: [...new Set(activities.map((activity) => activity.JenisAktivitas).filter(Boolean))].join(", "),
+    Action: rows.some(isBlocked) ? "Blocked" : base.Action,
+    activities,
+    rowCount: rows.length,
+  };
+}
+
+// Merges every sheet row of an IP into a single record, keeping first-seen order
+export function aggregateByIP(records: IPData[]): AggregatedIPData[] {
+  const groups = new Map<string, IPData[]>();
+  for (const record of records) {
+    const rows = groups.get(record.IP);
+    if (rows) {
+      rows.push(record);
+    } else {
+      groups.set(record.IP, [record]);
+    }
+  }
+  return [...groups.values()].map(mergeRows);
+}
+
+// Same model without merging, for when every sheet row should be shown on its own
+export function toAggregatedRows(records: IPData[]): AggregatedIPData[] {
+  return records.map((record) => mergeRows([record]));
+}
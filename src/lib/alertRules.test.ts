@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { AlertRule } from "@/types/alerts";
+import { IPData } from "@/types/ipData";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { evaluateAlertRules, isSnoozed, updateSnoozes } from "./alertRules";
+import { diffSnapshots } from "./ipDiff";
+
+const burst: AlertRule = { id: "burst", kind: "asn-burst", name: "Burst", enabled: true, threshold: 2 };
+const row = (IP: string, ASN: string) => ({ ...FIXTURE_IP_DATA[0], IP, ASN });
+const record = (IP: string, patch: Partial<IPData> = {}): IPData => ({
+  ...FIXTURE_IP_DATA[0],
+  IP,
+  Action: "alerted",
+  AbuseConfidenceScore: 50,
+  Count: 10,
+  ...patch,
+});
+const evaluate = (rule: AlertRule, previous: IPData[], next: IPData[]) =>
+  evaluateAlertRules([rule], previous, next, diffSnapshots(previous, next));
+
+describe("asn-burst", () => {
+  it("counts differently written ASNs as one network", () => {
+    const next = [row("10.0.0.1", "AS7713"), row("10.0.0.2", "7713"), row("10.0.0.3", "as 7713")];
+    const fired = evaluateAlertRules([burst], [], next, diffSnapshots([], next));
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ key: "burst|AS7713", title: "3 new rows from AS7713" });
+  });
+
+  it("ignores rows without an ASN", () => {
+    const next = ["10.0.0.1", "10.0.0.2", "10.0.0.3"].map((ip) => row(ip, "-"));
+    expect(evaluateAlertRules([burst], [], next, diffSnapshots([], next))).toEqual([]);
+  });
+});
+
+describe("new-ip-score", () => {
+  const rule: AlertRule = { id: "new", kind: "new-ip-score", name: "New", enabled: true, threshold: 90 };
+
+  it("fires for IPs that were not there before and score at least the threshold", () => {
+    const previous = [record("10.0.0.1", { AbuseConfidenceScore: 100 })];
+    const next = [
+      ...previous,
+      record("10.0.0.2", { AbuseConfidenceScore: 90 }),
+      record("10.0.0.3", { AbuseConfidenceScore: 89 }),
+    ];
+    expect(evaluate(rule, previous, next)).toEqual([
+      expect.objectContaining({ key: "new|10.0.0.2", ip: "10.0.0.2", title: "New IP 10.0.0.2" }),
+    ]);
+  });
+
+  it("does not treat a new row for a known IP as a new IP", () => {
+    const previous = [record("10.0.0.1", { AbuseConfidenceScore: 95 })];
+    const next = [...previous, record("10.0.0.1", { AbuseConfidenceScore: 95, Count: 3 })];
+    expect(evaluate(rule, previous, next)).toEqual([]);
+  });
+
+  it("is skipped while disabled", () => {
+    expect(evaluate({ ...rule, enabled: false }, [], [record("10.0.0.1", { AbuseConfidenceScore: 100 })])).toEqual([]);
+  });
+});
+
+describe("action-blocked", () => {
+  const rule: AlertRule = { id: "blocked", kind: "action-blocked", name: "Blocked", enabled: true, threshold: 0 };
+
+  it("fires when a known IP goes from alerted to blocked", () => {
+    const previous = [record("10.0.0.1"), record("10.0.0.2", { Action: "blocked" })];
+    const next = [record("10.0.0.1", { Action: "Blocked" }), record("10.0.0.2", { Action: "blocked" })];
+    expect(evaluate(rule, previous, next)).toEqual([
+      expect.objectContaining({ key: "blocked|10.0.0.1", title: "10.0.0.1 is now blocked" }),
+    ]);
+  });
+
+  it("ignores IPs that arrive already blocked", () => {
+    expect(evaluate(rule, [], [record("10.0.0.1", { Action: "blocked" })])).toEqual([]);
+  });
+});
+
+describe("count-growth", () => {
+  const rule: AlertRule = { id: "growth", kind: "count-growth", name: "Growth", enabled: true, threshold: 2 };
+
+  it("fires when the count grows by the factor or more", () => {
+    const previous = [record("10.0.0.1", { Count: 10 }), record("10.0.0.2", { Count: 10 })];
+    const next = [record("10.0.0.1", { Count: 20 }), record("10.0.0.2", { Count: 19 })];
+    expect(evaluate(rule, previous, next)).toEqual([
+      expect.objectContaining({ key: "growth|10.0.0.1", message: "10 → 20 hits (×2 or more)" }),
+    ]);
+  });
+
+  it("ignores new IPs and IPs that had no hits", () => {
+    expect(evaluate(rule, [record("10.0.0.1", { Count: 0 })], [record("10.0.0.1", { Count: 5 }), record("10.0.0.2")])).toEqual([]);
+  });
+});
+
+describe("snoozes", () => {
+  const now = 1_000_000;
+
+  it("mutes a key until the snooze runs out", () => {
+    const snoozes = updateSnoozes({}, "new|10.0.0.1", now + 1000, now);
+    expect(isSnoozed(snoozes, "new|10.0.0.1", now)).toBe(true);
+    expect(isSnoozed(snoozes, "new|10.0.0.2", now)).toBe(false);
+    expect(isSnoozed(snoozes, "new|10.0.0.1", now + 1000)).toBe(false);
+  });
+
+  it("lifts one snooze and leaves the others", () => {
+    const snoozes = { "new|10.0.0.1": now + 1000, "burst|AS7713": now + 1000 };
+    expect(updateSnoozes(snoozes, "new|10.0.0.1", null, now)).toEqual({ "burst|AS7713": now + 1000 });
+  });
+
+  it("drops snoozes that have run out whenever the map changes", () => {
+    const snoozes = { "new|10.0.0.1": now - 1, "new|10.0.0.2": now + 1000 };
+    expect(updateSnoozes(snoozes, "burst|AS7713", now + 500, now)).toEqual({
+      "new|10.0.0.2": now + 1000,
+      "burst|AS7713": now + 500,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { AlertEvent, AlertRule, AlertRuleKind, AlertSnoozes } from "@/types/alerts";
+import { IPData } from "@/types/ipData";
+import { aggregateByIP } from "./aggregate";
+import { asnKey } from "./asn";
+import { SnapshotDiff } from "./ipDiff";
+
+export const ALERT_RULE_KINDS: Record<
+  AlertRuleKind,
+  { label: string; thresholdLabel?: string; defaultThreshold: number }
+> = {
+  "new-ip-score": { label: "New IP with a high score", thresholdLabel: "Minimum score", defaultThreshold: 90 },
+  "action-blocked": { label: "IP flipped from alerted to blocked", defaultThreshold: 0 },
+  "asn-burst": { label: "Burst of new rows from one ASN", thresholdLabel: "More than (rows)", defaultThreshold: 20 },
+  "count-growth": { label: "Count for an IP grew", thresholdLabel: "Growth factor (×)", defaultThreshold: 2 },
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: "default-new-ip", kind: "new-ip-score", name: "New IP with score ≥ 90", enabled: true, threshold: 90 },
+  { id: "default-blocked", kind: "action-blocked", name: "Alerted IP is now blocked", enabled: true, threshold: 0 },
+  { id: "default-asn-burst", kind: "asn-burst", name: "More than 20 new rows from one ASN", enabled: true, threshold: 20 },
+  { id: "default-count", kind: "count-growth", name: "Count for an IP doubled", enabled: true, threshold: 2 },
+];
+
+type FiredAlert = Omit<AlertEvent, "id" | "firedAt" | "acknowledged">;
+
+const isBlocked = (record: IPData) => record.Action.toLowerCase() === "blocked";
+
+function evaluateRule(
+  rule: AlertRule,
+  before: Map<string, IPData>,
+  after: Map<string, IPData>,
+  diff: SnapshotDiff
+): FiredAlert[] {
+  const fire = (subject: string, title: string, message: string, ip?: string): FiredAlert => ({
+    ruleId: rule.id,
+    ruleName: rule.name,
+    key: `${rule.id}|${subject}`,
+    title,
+    message,
+    ip,
+  });
+
+  switch (rule.kind) {
+    case "new-ip-score":
+      return [...after.values()]
+        .filter((record) => !before.has(record.IP) && record.AbuseConfidenceScore >= rule.threshold)
+        .map((record) =>
+          fire(
+            record.IP,
+            `New IP ${record.IP}`,
+            `Score ${record.AbuseConfidenceScore}% • ${record.ISP} (${record.ASN})`,
+            record.IP
+          )
+        );
+
+    case "action-blocked":
+      return [...after.values()]
+        .filter((record) => {
+          const old = before.get(record.IP);
+          return old && !isBlocked(old) && isBlocked(record);
+        })
+        .map((record) => fire(record.IP, `${record.IP} is now blocked`, `Previously alerted • ${record.ISP}`, record.IP));
+
+    case "asn-burst": {
+      // "AS7713", "7713" and "as 7713" are one network
+      const counts = new Map<string, number>();
+      diff.added.forEach((record) => {
+        const asn = asnKey(record.ASN);
+        counts.set(asn, (counts.get(asn) ?? 0) + 1);
+      });
+      return [...counts]
+        .filter(([asn, count]) => asn !== "-" && count > rule.threshold)
+        .map(([asn, count]) => fire(asn, `${count} new rows from ${asn}`, `Threshold is ${rule.threshold} rows per refresh`));
+    }
+
+    case "count-growth":
+      return [...after.values()]
+        .filter((record) => {
+          const old = before.get(record.IP);
+          return old && old.Count > 0 && record.Count >= old.Count * rule.threshold;
+        })
+        .map((record) =>
+          fire(
+            record.IP,
+            `Count for ${record.IP} grew`,
+            `${before.get(record.IP)!.Count} → ${record.Count} hits (×${rule.threshold} or more)`,
+            record.IP
+          )
+        );
+  }
+}
+
+// IP-level rules compare records merged per IP, so a new activity row is not a "new IP"
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  previous: IPData[],
+  next: IPData[],
+  diff: SnapshotDiff
+): FiredAlert[] {
+  const before = new Map(aggregateByIP(previous).map((record) => [record.IP, record as IPData]));
+  const after = new Map(aggregateByIP(next).map((record) => [record.IP, record as IPData]));
+  return rules.filter((rule) => rule.enabled).flatMap((rule) => evaluateRule(rule, before, after, diff));
+}
+
+export const isSnoozed = (snoozes: AlertSnoozes, key: string, now = Date.now()) => (snoozes[key] ?? 0) > now;
+
+// Sets or, with null, lifts the snooze on a key, dropping the ones that have run out
+export function updateSnoozes(
+  snoozes: AlertSnoozes,
+  key: string,
+  until: number | null,
+  now = Date.now()
+): AlertSnoozes {
+  const next: AlertSnoozes = {};
+  for (const [snoozedKey, snoozedUntil] of Object.entries(snoozes)) {
+    if (snoozedKey !== key && snoozedUntil > now) next[snoozedKey] = snoozedUntil;
+  }
+  if (until !== null && until > now) next[key] = until;
+  return next;
+}
@@ -0,0 +1,70 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { FacetField, facetLabel, facetValues, scoreBucket } from "./facets";
+
+export interface ChartDatum {
+  /** Facet value the datum stands for */
+  key: string;
+  /** Display text for the key, e.g. a flag and country name for an ISO code */
+  label: string;
+  value: number;
+}
+
+export function countByFacet(records: AggregatedIPData[], field: FacetField): ChartDatum[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const value of facetValues(record, field)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return [...counts].map(([key, value]) => ({ key, label: facetLabel(field, key), value }));
+}
+
+// Largest groups first; the rest are dropped rather than lumped into "Other" so every bar stays clickable
+export function topByFacet(records: AggregatedIPData[], field: FacetField, limit = 10): ChartDatum[] {
+  return countByFacet(records, field)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export function scoreHistogram(records: AggregatedIPData[]): ChartDatum[] {
+  const counts = new Map(countByFacet(records, "scoreBucket").map((datum) => [datum.key, datum.value]));
+  return Array.from({ length: 10 }, (_, index) => {
+    const key = scoreBucket(index * 10);
+    return { key, label: key, value: counts.get(key) ?? 0 };
+  });
+}
+
+export function reportsOverTime(records: AggregatedIPData[]): ChartDatum[] {
+  return countByFacet(records, "reportedDay").sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export interface CountryStats {
+  /** ISO-2 code, or the raw value for an unrecognized country */
+  code: string;
+  count: number;
+  averageScore: number;
+  /** Most common ISPs first */
+  topISPs: ChartDatum[];
+}
+
+// IP count, average abuse confidence score and leading ISPs per country, keyed like the Country facet
+export function statsByCountry(records: AggregatedIPData[], ispLimit = 3): Map<string, CountryStats> {
+  const groups = new Map<string, AggregatedIPData[]>();
+  for (const record of records) {
+    const [code] = facetValues(record, "Country");
+    const group = groups.get(code);
+    if (group) group.push(record);
+    else groups.set(code, [record]);
+  }
+  return new Map(
+    [...groups].map(([code, group]) => [
+      code,
+      {
+        code,
+        count: group.length,
+        averageScore: group.reduce((sum, record) => sum + record.AbuseConfidenceScore, 0) / group.length,
+        topISPs: topByFacet(group, "ISP", ispLimit),
+      },
+    ])
+  );
+}
@@ -0,0 +1,38 @@
+import { IPAnnotation, TriageStatus } from "@/types/annotations";
+import { AggregatedIPData } from "@/types/ipData";
+import { normalizeIP } from "./ipAddress";
+
+export const TRIAGE_STATUSES: { status: TriageStatus; label: string; className: string }[] = [
+  { status: "new", label: "New", className: "bg-primary text-primary-foreground hover:bg-primary/90" },
+  { status: "investigating", label: "Investigating", className: "bg-warning text-warning-foreground hover:bg-warning/90" },
+  { status: "resolved", label: "Resolved", className: "bg-success text-success-foreground hover:bg-success/90" },
+  { status: "whitelisted", label: "Whitelisted", className: "bg-muted text-muted-foreground hover:bg-muted/90" },
+];
+
+export const SUGGESTED_TAGS = ["false positive", "customer", "pentest", "scanner", "tor"];
+
+export function emptyAnnotation(ip: string): IPAnnotation {
+  return { ip: normalizeIP(ip), notes: "", tags: [], status: "new", assignee: "", watched: false, updatedAt: 0 };
+}
+
+// An annotation left at its defaults is not worth storing
+export function isEmptyAnnotation(annotation: IPAnnotation): boolean {
+  return (
+    !annotation.notes.trim() &&
+    annotation.tags.length === 0 &&
+    annotation.status === "new" &&
+    !annotation.assignee.trim() &&
+    !annotation.watched
+  );
+}
+
+// Attaches each IP's annotation so filters, search and sorting can read it from the record
+export function withAnnotations(
+  records: AggregatedIPData[],
+  annotations: Record<string, IPAnnotation>
+): AggregatedIPData[] {
+  return records.map((record) => {
+    const annotation = annotations[normalizeIP(record.IP)];
+    return annotation ? { ...record, annotation } : record;
+  });
+}
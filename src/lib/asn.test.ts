@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { toAggregatedRows } from "./aggregate";
+import { groupByASN } from "./asn";
+
+const row = (IP: string, Action: string, ASN = "AS64500", AbuseConfidenceScore = 50) => ({
+  ...FIXTURE_IP_DATA[0],
+  IP,
+  Action,
+  ASN,
+  AbuseConfidenceScore,
+});
+
+describe("groupByASN", () => {
+  it("gives each IP one status, blocked over alerted, however many rows it has", () => {
+    const records = toAggregatedRows([
+      row("10.0.0.1", "Blocked"),
+      row("10.0.0.1", "Blocked"),
+      row("10.0.0.1", "Blocked"),
+      row("10.0.0.2", "Alerted", "64500"),
+      row("10.0.0.2", "Alerted"),
+      row("10.0.0.3", "Blocked", "AS 64500"),
+      row("10.0.0.3", "Alerted"),
+    ]);
+
+    const [group] = groupByASN(records);
+    expect(group).toMatchObject({ asn: "AS64500", ipCount: 3, blocked: 2, alerted: 1 });
+  });
+
+  it("averages the score per IP, not per row", () => {
+    const records = toAggregatedRows([
+      row("10.0.0.1", "Blocked", "AS64500", 100),
+      row("10.0.0.1", "Blocked", "AS64500", 100),
+      row("10.0.0.1", "Blocked", "AS64500", 100),
+      row("10.0.0.2", "Alerted", "AS64500", 20),
+      row("10.0.0.2", "Alerted", "AS64500", 40),
+    ]);
+
+    const [group] = groupByASN(records);
+    expect(group).toMatchObject({ ipCount: 2, averageScore: 70, maxScore: 100 });
+  });
+});
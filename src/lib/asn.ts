@@ -0,0 +1,72 @@
+import { AggregatedIPData } from "@/types/ipData";
+
+// "AS7713", "as 7713", "7713" and "AS7713 Telkom" are all the same network; null when there is no number
+export function normalizeASN(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(?:AS\s*)?(\d+)\b/i);
+  return match ? `AS${Number(match[1])}` : null;
+}
+
+// The normalized ASN, or the value as given when it is not a recognizable AS number
+export function asnKey(value: string | undefined): string {
+  return normalizeASN(value) ?? (value?.trim() || "-");
+}
+
+export interface ASNGroup {
+  /** Normalized ASN, e.g. AS7713, or "-" for records without one */
+  asn: string;
+  /** ISP names seen for the ASN, most common first */
+  isps: string[];
+  records: AggregatedIPData[];
+  ipCount: number;
+  /** Mean over distinct IPs of each IP's highest score */
+  averageScore: number;
+  maxScore: number;
+  /** Sum of the Count column over all member records */
+  totalCount: number;
+  /** Distinct IPs with at least one blocked row */
+  blocked: number;
+  /** Distinct IPs none of whose rows were blocked; blocked + alerted = ipCount */
+  alerted: number;
+}
+
+function mostCommonFirst(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+}
+
+// Largest networks first; ties go to the higher average score
+export function groupByASN(records: AggregatedIPData[]): ASNGroup[] {
+  const members = new Map<string, AggregatedIPData[]>();
+  for (const record of records) {
+    const key = asnKey(record.ASN);
+    const group = members.get(key);
+    if (group) group.push(record);
+    else members.set(key, [record]);
+  }
+
+  const groups = [...members].map(([asn, group]): ASNGroup => {
+    // One status and score per IP, as mergeRows has it: any blocked row makes the IP blocked
+    const ips = new Map<string, { blocked: boolean; score: number }>();
+    for (const record of group) {
+      const ip = ips.get(record.IP) ?? { blocked: false, score: 0 };
+      ip.blocked ||= record.Action.toLowerCase() === "blocked";
+      ip.score = Math.max(ip.score, record.AbuseConfidenceScore);
+      ips.set(record.IP, ip);
+    }
+    const blocked = [...ips.values()].filter((ip) => ip.blocked).length;
+    return {
+      asn,
+      isps: mostCommonFirst(group.map((record) => record.ISP).filter((isp) => isp && isp !== "-")),
+      // Sorted by score so the worst members are listed first
+      records: [...group].sort((a, b) => b.AbuseConfidenceScore - a.AbuseConfidenceScore),
+      ipCount: ips.size,
+      averageScore: [...ips.values()].reduce((sum, ip) => sum + ip.score, 0) / ips.size,
+      maxScore: Math.max(...group.map((record) => record.AbuseConfidenceScore)),
+      totalCount: group.reduce((sum, record) => sum + record.Count, 0),
+      blocked,
+      alerted: ips.size - blocked,
+    };
+  });
+  return groups.sort((a, b) => b.ipCount - a.ipCount || b.averageScore - a.averageScore);
+}
@@ -0,0 +1,28 @@
+import { BlocklistEntry, BlocklistFormat } from "@/types/blocklist";
+import { IPData } from "@/types/ipData";
+import { asnKey } from "./asn";
+
+// Every IP of each listed ASN: the ones captured when it was added plus any seen in the data since
+export function blocklistIPs(entry: BlocklistEntry, records: IPData[]): string[] {
+  const current = records.filter((record) => asnKey(record.ASN) === entry.asn).map((record) => record.IP);
+  return [...new Set([...entry.ips, ...current])];
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Plain text has one IP per line with a comment heading each ASN, which firewalls and ipset accept;
+// CSV keeps the ASN and ISP next to every address
+export function formatBlocklist(entries: BlocklistEntry[], records: IPData[], format: BlocklistFormat): string {
+  if (format === "csv") {
+    const rows = entries.flatMap((entry) =>
+      blocklistIPs(entry, records).map((ip) => [ip, entry.asn, entry.name].map(csvField).join(","))
+    );
+    return ["ip,asn,name", ...rows].join("\n") + "\n";
+  }
+
+  const sections = entries.map((entry) => {
+    const ips = blocklistIPs(entry, records);
+    return [`# ${entry.asn}${entry.name ? ` ${entry.name}` : ""} (${ips.length} IPs)`, ...ips].join("\n");
+  });
+  return `# Generated ${new Date().toISOString()}\n${sections.join("\n\n")}\n`;
+}
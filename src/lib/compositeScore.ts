@@ -0,0 +1,103 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { CompositeSignal, CompositeWeights } from "@/types/riskPolicy";
+import { parseReportedAt } from "./dates";
+
+// Each signal is scaled to 0–1 and the composite is their weighted average, scaled to 0–100
+
+const REPORTS_SATURATION = 1000;
+const HITS_SATURATION = 100;
+const RECENCY_HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Usage types that are rarely legitimate sources of inbound traffic
+const RISKY_USAGE = /hosting|data ?cent(er|re)|transit|vpn|proxy|tor\b/i;
+// Activities that are attacks rather than noise such as scans or spam
+const SEVERE_ACTIVITY = /brute|exploit|inject|sql|rce|ddos|dos\b|malware|botnet|ransom|phish|backdoor|shell/i;
+
+export const COMPOSITE_SIGNALS: { signal: CompositeSignal; label: string; description: string }[] = [
+  { signal: "abuse", label: "Abuse confidence", description: "AbuseConfidenceScore from the sheet" },
+  { signal: "reports", label: "Total reports", description: `Log scale, ${REPORTS_SATURATION}+ reports count fully` },
+  { signal: "hits", label: "Our hits", description: `Count column, log scale, ${HITS_SATURATION}+ hits count fully` },
+  { signal: "recency", label: "Recency", description: `Halves every ${RECENCY_HALF_LIFE_DAYS} days since last reported` },
+  { signal: "usage", label: "Usage type", description: "Hosting, data center, VPN or proxy networks" },
+  { signal: "activity", label: "Activity type", description: "Attacks such as brute force or exploits" },
+];
+
+export interface SignalContribution {
+  signal: CompositeSignal;
+  label: string;
+  /** Signal strength, 0–1 */
+  value: number;
+  weight: number;
+  /** Points this signal adds to the 0–100 composite */
+  points: number;
+  detail: string;
+}
+
+export interface CompositeExplanation {
+  score: number;
+  contributions: SignalContribution[];
+}
+
+const logScale = (value: number, saturation: number) =>
+  Math.min(1, Math.log10(1 + Math.max(0, value)) / Math.log10(1 + saturation));
+
+function measure(record: AggregatedIPData, now: number): Record<CompositeSignal, { value: number; detail: string }> {
+  const reportedAt = parseReportedAt(record.LastReportedAt);
+  const ageDays = reportedAt ? Math.max(0, (now - reportedAt.getTime()) / DAY_MS) : null;
+  const activities = record.activities.map((activity) => activity.JenisAktivitas).filter(Boolean);
+  const severe = activities.filter((activity) => SEVERE_ACTIVITY.test(activity));
+
+  return {
+    abuse: { value: record.AbuseConfidenceScore / 100, detail: `${record.AbuseConfidenceScore}%` },
+    reports: {
+      value: logScale(record.TotalReports, REPORTS_SATURATION),
+      detail: `${record.TotalReports.toLocaleString()} reports`,
+    },
+    hits: { value: logScale(record.Count, HITS_SATURATION), detail: `${record.Count.toLocaleString()} hits` },
+    recency: {
+      value: ageDays === null ? 0 : Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS),
+      detail: ageDays === null ? "never reported" : `${Math.floor(ageDays)} days ago`,
+    },
+    usage: {
+      value: RISKY_USAGE.test(record.UsageType) ? 1 : 0,
+      detail: record.UsageType || "-",
+    },
+    activity: {
+      value: severe.length > 0 ? 1 : activities.length > 0 ? 0.5 : 0,
+      detail: severe.length > 0 ? severe.join(", ") : activities.join(", ") || "none recorded",
+    },
+  };
+}
+
+export function explainCompositeScore(
+  record: AggregatedIPData,
+  weights: CompositeWeights,
+  now = Date.now()
+): CompositeExplanation {
+  const signals = measure(record, now);
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+
+  const contributions = COMPOSITE_SIGNALS.map(({ signal, label }) => ({
+    signal,
+    label,
+    value: signals[signal].value,
+    weight: weights[signal],
+    points: (100 * weights[signal] * signals[signal].value) / total,
+    detail: signals[signal].detail,
+  }));
+
+  return {
+    score: Math.round(contributions.reduce((sum, contribution) => sum + contribution.points, 0)),
+    contributions,
+  };
+}
+
+// Fills in compositeScore so filters, search and sorting can read it like any other field
+export function withCompositeScores(
+  records: AggregatedIPData[],
+  weights: CompositeWeights,
+  now = Date.now()
+): AggregatedIPData[] {
+  return records.map((record) => ({ ...record, compositeScore: explainCompositeScore(record, weights, now).score }));
+}
@@ -0,0 +1,62 @@
+import { Country, Region } from "@/types/country";
+import { COUNTRY_ALIASES, COUNTRY_TABLE } from "./countryData";
+
+export const REGIONS: Region[] = ["Asia", "Europe", "Americas", "Africa", "Oceania", "Antarctica"];
+
+const COUNTRIES: Country[] = COUNTRY_TABLE.map(([code, alpha3, name, region]) => ({ code, alpha3, name, region }));
+const BY_CODE = new Map(COUNTRIES.map((country) => [country.code, country]));
+
+// Case, accents, punctuation and a leading "the" do not matter: "CÔTE D'IVOIRE" = "cote divoire"
+const lookupKey = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+
+// Codes first so a name can never shadow one; the first entry for a key wins
+const BY_KEY = new Map<string, Country>();
+const index = (key: string, country: Country) => {
+  if (key && !BY_KEY.has(key)) BY_KEY.set(key, country);
+};
+for (const country of COUNTRIES) index(lookupKey(country.code), country);
+for (const country of COUNTRIES) index(lookupKey(country.alpha3), country);
+for (const country of COUNTRIES) index(lookupKey(country.name), country);
+for (const [code, aliases] of Object.entries(COUNTRY_ALIASES)) {
+  for (const alias of aliases) index(lookupKey(alias), BY_CODE.get(code)!);
+}
+
+// Accepts ISO-2 and ISO-3 codes, English names and their common variants, and Indonesian names
+export function normalizeCountry(value: string | undefined): Country | null {
+  if (!value) return null;
+  return BY_KEY.get(lookupKey(value)) ?? null;
+}
+
+// The ISO-2 code, or the value as given when it is not a recognizable country
+export function countryCode(value: string | undefined): string {
+  return normalizeCountry(value)?.code ?? (value?.trim() || "-");
+}
+
+export function countryByCode(code: string): Country | undefined {
+  return BY_CODE.get(code.toUpperCase());
+}
+
+// Two regional indicator symbols; XK has no flag in Unicode but renders as letters like any unknown pair
+export function countryFlag(code: string): string {
+  if (!/^[A-Za-z]{2}$/.test(code)) return "🏳️";
+  return String.fromCodePoint(...[...code.toUpperCase()].map((char) => 0x1f1e6 + char.charCodeAt(0) - 65));
+}
+
+// "🇷🇺 Russia" for a known country, the value as given otherwise
+export function formatCountry(value: string | undefined): string {
+  const country = normalizeCountry(value);
+  return country ? `${countryFlag(country.code)} ${country.name}` : value?.trim() || "-";
+}
+
+export function regionOf(value: string | undefined): Region | null {
+  return normalizeCountry(value)?.region ?? null;
+}
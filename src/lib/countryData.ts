@@ -0,0 +1,380 @@
+import { Region } from "@/types/country";
+
+// ISO 3166-1 alpha-2, alpha-3, short English name and UN M49 region. Kosovo uses the
+// user-assigned XK code that registries and GeoIP databases use for it.
+
+export const COUNTRY_TABLE: [code: string, alpha3: string, name: string, region: Region][] = [
+  ["AD", "AND", "Andorra", "Europe"],
+  ["AE", "ARE", "United Arab Emirates", "Asia"],
+  ["AF", "AFG", "Afghanistan", "Asia"],
+  ["AG", "ATG", "Antigua and Barbuda", "Americas"],
+  ["AI", "AIA", "Anguilla", "Americas"],
+  ["AL", "ALB", "Albania", "Europe"],
+  ["AM", "ARM", "Armenia", "Asia"],
+  ["AO", "AGO", "Angola", "Africa"],
+  ["AQ", "ATA", "Antarctica", "Antarctica"],
+  ["AR", "ARG", "Argentina", "Americas"],
+  ["AS", "ASM", "American Samoa", "Oceania"],
+  ["AT", "AUT", "Austria", "Europe"],
+  ["AU", "AUS", "Australia", "Oceania"],
+  ["AW", "ABW", "Aruba", "Americas"],
+  ["AX", "ALA", "Åland Islands", "Europe"],
+  ["AZ", "AZE", "Azerbaijan", "Asia"],
+  ["BA", "BIH", "Bosnia and Herzegovina", "Europe"],
+  ["BB", "BRB", "Barbados", "Americas"],
+  ["BD", "BGD", "Bangladesh", "Asia"],
+  ["BE", "BEL", "Belgium", "Europe"],
+  ["BF", "BFA", "Burkina Faso", "Africa"],
+  ["BG", "BGR", "Bulgaria", "Europe"],
+  ["BH", "BHR", "Bahrain", "Asia"],
+  ["BI", "BDI", "Burundi", "Africa"],
+  ["BJ", "BEN", "Benin", "Africa"],
+  ["BL", "BLM", "Saint Barthélemy", "Americas"],
+  ["BM", "BMU", "Bermuda", "Americas"],
+  ["BN", "BRN", "Brunei", "Asia"],
+  ["BO", "BOL", "Bolivia", "Americas"],
+  ["BQ", "BES", "Caribbean Netherlands", "Americas"],
+  ["BR", "BRA", "Brazil", "Americas"],
+  ["BS", "BHS", "Bahamas", "Americas"],
+  ["BT", "BTN", "Bhutan", "Asia"],
+  ["BV", "BVT", "Bouvet Island", "Antarctica"],
+  ["BW", "BWA", "Botswana", "Africa"],
+  ["BY", "BLR", "Belarus", "Europe"],
+  ["BZ", "BLZ", "Belize", "Americas"],
+  ["CA", "CAN", "Canada", "Americas"],
+  ["CC", "CCK", "Cocos (Keeling) Islands", "Oceania"],
+  ["CD", "COD", "DR Congo", "Africa"],
+  ["CF", "CAF", "Central African Republic", "Africa"],
+  ["CG", "COG", "Congo", "Africa"],
+  ["CH", "CHE", "Switzerland", "Europe"],
+  ["CI", "CIV", "Côte d'Ivoire", "Africa"],
+  ["CK", "COK", "Cook Islands", "Oceania"],
+  ["CL", "CHL", "Chile", "Americas"],
+  ["CM", "CMR", "Cameroon", "Africa"],
+  ["CN", "CHN", "China", "Asia"],
+  ["CO", "COL", "Colombia", "Americas"],
+  ["CR", "CRI", "Costa Rica", "Americas"],
+  ["CU", "CUB", "Cuba", "Americas"],
+  ["CV", "CPV", "Cabo Verde", "Africa"],
+  ["CW", "CUW", "Curaçao", "Americas"],
+  ["CX", "CXR", "Christmas Island", "Oceania"],
+  ["CY", "CYP", "Cyprus", "Asia"],
+  ["CZ", "CZE", "Czechia", "Europe"],
+  ["DE", "DEU", "Germany", "Europe"],
+  ["DJ", "DJI", "Djibouti", "Africa"],
+  ["DK", "DNK", "Denmark", "Europe"],
+  ["DM", "DMA", "Dominica", "Americas"],
+  ["DO", "DOM", "Dominican Republic", "Americas"],
+  ["DZ", "DZA", "Algeria", "Africa"],
+  ["EC", "ECU", "Ecuador", "Americas"],
+  ["EE", "EST", "Estonia", "Europe"],
+  ["EG", "EGY", "Egypt", "Africa"],
+  ["EH", "ESH", "Western Sahara", "Africa"],
+  ["ER", "ERI", "Eritrea", "Africa"],
+  ["ES", "ESP", "Spain", "Europe"],
+  ["ET", "ETH", "Ethiopia", "Africa"],
+  ["FI", "FIN", "Finland", "Europe"],
+  ["FJ", "FJI", "Fiji", "Oceania"],
+  ["FK", "FLK", "Falkland Islands", "Americas"],
+  ["FM", "FSM", "Micronesia", "Oceania"],
+  ["FO", "FRO", "Faroe Islands", "Europe"],
+  ["FR", "FRA", "France", "Europe"],
+  ["GA", "GAB", "Gabon", "Africa"],
+  ["GB", "GBR", "United Kingdom", "Europe"],
+  ["GD", "GRD", "Grenada", "Americas"],
+  ["GE", "GEO", "Georgia", "Asia"],
+  ["GF", "GUF", "French Guiana", "Americas"],
+  ["GG", "GGY", "Guernsey", "Europe"],
+  ["GH", "GHA", "Ghana", "Africa"],
+  ["GI", "GIB", "Gibraltar", "Europe"],
+  ["GL", "GRL", "Greenland", "Americas"],
+  ["GM", "GMB", "Gambia", "Africa"],
+  ["GN", "GIN", "Guinea", "Africa"],
+  ["GP", "GLP", "Guadeloupe", "Americas"],
+  ["GQ", "GNQ", "Equatorial Guinea", "Africa"],
+  ["GR", "GRC", "Greece", "Europe"],
+  ["GS", "SGS", "South Georgia and the South Sandwich Islands", "Antarctica"],
+  ["GT", "GTM", "Guatemala", "Americas"],
+  ["GU", "GUM", "Guam", "Oceania"],
+  ["GW", "GNB", "Guinea-Bissau", "Africa"],
+  ["GY", "GUY", "Guyana", "Americas"],
+  ["HK", "HKG", "Hong Kong", "Asia"],
+  ["HM", "HMD", "Heard Island and McDonald Islands", "Antarctica"],
+  ["HN", "HND", "Honduras", "Americas"],
+  ["HR", "HRV", "Croatia", "Europe"],
+  ["HT", "HTI", "Haiti", "Americas"],
+  ["HU", "HUN", "Hungary", "Europe"],
+  ["ID", "IDN", "Indonesia", "Asia"],
+  ["IE", "IRL", "Ireland", "Europe"],
+  ["IL", "ISR", "Israel", "Asia"],
+  ["IM", "IMN", "Isle of Man", "Europe"],
+  ["IN", "IND", "India", "Asia"],
+  ["IO", "IOT", "British Indian Ocean Territory", "Africa"],
+  ["IQ", "IRQ", "Iraq", "Asia"],
+  ["IR", "IRN", "Iran", "Asia"],
+  ["IS", "ISL", "Iceland", "Europe"],
+  ["IT", "ITA", "Italy", "Europe"],
+  ["JE", "JEY", "Jersey", "Europe"],
+  ["JM", "JAM", "Jamaica", "Americas"],
+  ["JO", "JOR", "Jordan", "Asia"],
+  ["JP", "JPN", "Japan", "Asia"],
+  ["KE", "KEN", "Kenya", "Africa"],
+  ["KG", "KGZ", "Kyrgyzstan", "Asia"],
+  ["KH", "KHM", "Cambodia", "Asia"],
+  ["KI", "KIR", "Kiribati", "Oceania"],
+  ["KM", "COM", "Comoros", "Africa"],
+  ["KN", "KNA", "Saint Kitts and Nevis", "Americas"],
+  ["KP", "PRK", "North Korea", "Asia"],
+  ["KR", "KOR", "South Korea", "Asia"],
+  ["KW", "KWT", "Kuwait", "Asia"],
+  ["KY", "CYM", "Cayman Islands", "Americas"],
+  ["KZ", "KAZ", "Kazakhstan", "Asia"],
+  ["LA", "LAO", "Laos", "Asia"],
+  ["LB", "LBN", "Lebanon", "Asia"],
+  ["LC", "LCA", "Saint Lucia", "Americas"],
+  ["LI", "LIE", "Liechtenstein", "Europe"],
+  ["LK", "LKA", "Sri Lanka", "Asia"],
+  ["LR", "LBR", "Liberia", "Africa"],
+  ["LS", "LSO", "Lesotho", "Africa"],
+  ["LT", "LTU", "Lithuania", "Europe"],
+  ["LU", "LUX", "Luxembourg", "Europe"],
+  ["LV", "LVA", "Latvia", "Europe"],
+  ["LY", "LBY", "Libya", "Africa"],
+  ["MA", "MAR", "Morocco", "Africa"],
+  ["MC", "MCO", "Monaco", "Europe"],
+  ["MD", "MDA", "Moldova", "Europe"],
+  ["ME", "MNE", "Montenegro", "Europe"],
+  ["MF", "MAF", "Saint Martin", "Americas"],
+  ["MG", "MDG", "Madagascar", "Africa"],
+  ["MH", "MHL", "Marshall Islands", "Oceania"],
+  ["MK", "MKD", "North Macedonia", "Europe"],
+  ["ML", "MLI", "Mali", "Africa"],
+  ["MM", "MMR", "Myanmar", "Asia"],
+  ["MN", "MNG", "Mongolia", "Asia"],
+  ["MO", "MAC", "Macao", "Asia"],
+  ["MP", "MNP", "Northern Mariana Islands", "Oceania"],
+  ["MQ", "MTQ", "Martinique", "Americas"],
+  ["MR", "MRT", "Mauritania", "Africa"],
+  ["MS", "MSR", "Montserrat", "Americas"],
+  ["MT", "MLT", "Malta", "Europe"],
+  ["MU", "MUS", "Mauritius", "Africa"],
+  ["MV", "MDV", "Maldives", "Asia"],
+  ["MW", "MWI", "Malawi", "Africa"],
+  ["MX", "MEX", "Mexico", "Americas"],
+  ["MY", "MYS", "Malaysia", "Asia"],
+  ["MZ", "MOZ", "Mozambique", "Africa"],
+  ["NA", "NAM", "Namibia", "Africa"],
+  ["NC", "NCL", "New Caledonia", "Oceania"],
+  ["NE", "NER", "Niger", "Africa"],
+  ["NF", "NFK", "Norfolk Island", "Oceania"],
+  ["NG", "NGA", "Nigeria", "Africa"],
+  ["NI", "NIC", "Nicaragua", "Americas"],
+  ["NL", "NLD", "Netherlands", "Europe"],
+  ["NO", "NOR", "Norway", "Europe"],
+  ["NP", "NPL", "Nepal", "Asia"],
+  ["NR", "NRU", "Nauru", "Oceania"],
+  ["NU", "NIU", "Niue", "Oceania"],
+  ["NZ", "NZL", "New Zealand", "Oceania"],
+  ["OM", "OMN", "Oman", "Asia"],
+  ["PA", "PAN", "Panama", "Americas"],
+  ["PE", "PER", "Peru", "Americas"],
+  ["PF", "PYF", "French Polynesia", "Oceania"],
+  ["PG", "PNG", "Papua New Guinea", "Oceania"],
+  ["PH", "PHL", "Philippines", "Asia"],
+  ["PK", "PAK", "Pakistan", "Asia"],
+  ["PL", "POL", "Poland", "Europe"],
+  ["PM", "SPM", "Saint Pierre and Miquelon", "Americas"],
+  ["PN", "PCN", "Pitcairn Islands", "Oceania"],
+  ["PR", "PRI", "Puerto Rico", "Americas"],
+  ["PS", "PSE", "Palestine", "Asia"],
+  ["PT", "PRT", "Portugal", "Europe"],
+  ["PW", "PLW", "Palau", "Oceania"],
+  ["PY", "PRY", "Paraguay", "Americas"],
+  ["QA", "QAT", "Qatar", "Asia"],
+  ["RE", "REU", "Réunion", "Africa"],
+  ["RO", "ROU", "Romania", "Europe"],
+  ["RS", "SRB", "Serbia", "Europe"],
+  ["RU", "RUS", "Russia", "Europe"],
+  ["RW", "RWA", "Rwanda", "Africa"],
+  ["SA", "SAU", "Saudi Arabia", "Asia"],
+  ["SB", "SLB", "Solomon Islands", "Oceania"],
+  ["SC", "SYC", "Seychelles", "Africa"],
+  ["SD", "SDN", "Sudan", "Africa"],
+  ["SE", "SWE", "Sweden", "Europe"],
+  ["SG", "SGP", "Singapore", "Asia"],
+  ["SH", "SHN", "Saint Helena", "Africa"],
+  ["SI", "SVN", "Slovenia", "Europe"],
+  ["SJ", "SJM", "Svalbard and Jan Mayen", "Europe"],
+  ["SK", "SVK", "Slovakia", "Europe"],
+  ["SL", "SLE", "Sierra Leone", "Africa"],
+  ["SM", "SMR", "San Marino", "Europe"],
+  ["SN", "SEN", "Senegal", "Africa"],
+  ["SO", "SOM", "Somalia", "Africa"],
+  ["SR", "SUR", "Suriname", "Americas"],
+  ["SS", "SSD", "South Sudan", "Africa"],
+  ["ST", "STP", "São Tomé and Príncipe", "Africa"],
+  ["SV", "SLV", "El Salvador", "Americas"],
+  ["SX", "SXM", "Sint Maarten", "Americas"],
+  ["SY", "SYR", "Syria", "Asia"],
+  ["SZ", "SWZ", "Eswatini", "Africa"],
+  ["TC", "TCA", "Turks and Caicos Islands", "Americas"],
+  ["TD", "TCD", "Chad", "Africa"],
+  ["TF", "ATF", "French Southern Territories", "Antarctica"],
+  ["TG", "TGO", "Togo", "Africa"],
+  ["TH", "THA", "Thailand", "Asia"],
+  ["TJ", "TJK", "Tajikistan", "Asia"],
+  ["TK", "TKL", "Tokelau", "Oceania"],
+  ["TL", "TLS", "Timor-Leste", "Asia"],
+  ["TM", "TKM", "Turkmenistan", "Asia"],
+  ["TN", "TUN", "Tunisia", "Africa"],
+  ["TO", "TON", "Tonga", "Oceania"],
+  ["TR", "TUR", "Türkiye", "Asia"],
+  ["TT", "TTO", "Trinidad and Tobago", "Americas"],
+  ["TV", "TUV", "Tuvalu", "Oceania"],
+  ["TW", "TWN", "Taiwan", "Asia"],
+  ["TZ", "TZA", "Tanzania", "Africa"],
+  ["UA", "UKR", "Ukraine", "Europe"],
+  ["UG", "UGA", "Uganda", "Africa"],
+  ["UM", "UMI", "U.S. Minor Outlying Islands", "Oceania"],
+  ["US", "USA", "United States", "Americas"],
+  ["UY", "URY", "Uruguay", "Americas"],
+  ["UZ", "UZB", "Uzbekistan", "Asia"],
+  ["VA", "VAT", "Vatican City", "Europe"],
+  ["VC", "VCT", "Saint Vincent and the Grenadines", "Americas"],
+  ["VE", "VEN", "Venezuela", "Americas"],
+  ["VG", "VGB", "British Virgin Islands", "Americas"],
+  ["VI", "VIR", "U.S. Virgin Islands", "Americas"],
+  ["VN", "VNM", "Vietnam", "Asia"],
+  ["VU", "VUT", "Vanuatu", "Oceania"],
+  ["WF", "WLF", "Wallis and Futuna", "Oceania"],
+  ["WS", "WSM", "Samoa", "Oceania"],
+  ["XK", "XKX", "Kosovo", "Europe"],
+  ["YE", "YEM", "Yemen", "Asia"],
+  ["YT", "MYT", "Mayotte", "Africa"],
+  ["ZA", "ZAF", "South Africa", "Africa"],
+  ["ZM", "ZMB", "Zambia", "Africa"],
+  ["ZW", "ZWE", "Zimbabwe", "Africa"],
+];
+
+// Other spellings seen in sheets and lookup services: formal ISO names, common English names
+// and Indonesian names (nama negara) that differ from the English one
+export const COUNTRY_ALIASES: Record<string, string[]> = {
+  AD: ["Andora"],
+  AE: ["UAE", "Uni Emirat Arab"],
+  AF: ["Afganistan"],
+  BA: ["Bosnia", "Bosnia dan Herzegovina"],
+  BE: ["Belgia"],
+  BN: ["Brunei Darussalam"],
+  BO: ["Bolivia, Plurinational State of"],
+  BR: ["Brasil"],
+  BS: ["Bahama"],
+  BY: ["Belarusia"],
+  CA: ["Kanada"],
+  CD: [
+    "Democratic Republic of the Congo",
+    "Congo, The Democratic Republic of the",
+    "Congo-Kinshasa",
+    "DRC",
+    "Republik Demokratik Kongo",
+  ],
+  CF: ["Republik Afrika Tengah"],
+  CG: ["Republic of the Congo", "Congo-Brazzaville", "Kongo"],
+  CH: ["Swiss"],
+  CI: ["Ivory Coast", "Pantai Gading"],
+  CL: ["Cile", "Chili"],
+  CM: ["Kamerun"],
+  CN: ["Tiongkok", "Cina", "Republik Rakyat Tiongkok"],
+  CO: ["Kolombia"],
+  CR: ["Kosta Rika"],
+  CU: ["Kuba"],
+  CV: ["Cape Verde", "Tanjung Verde"],
+  CY: ["Siprus"],
+  CZ: ["Czech Republic", "Ceko", "Republik Ceko"],
+  DE: ["Jerman"],
+  DM: ["Dominika"],
+  DO: ["Republik Dominika"],
+  DZ: ["Aljazair"],
+  EC: ["Ekuador"],
+  EG: ["Mesir"],
+  ES: ["Spanyol"],
+  ET: ["Etiopia"],
+  FI: ["Finlandia"],
+  FK: ["Falkland Islands (Malvinas)"],
+  FM: ["Micronesia, Federated States of"],
+  FR: ["Prancis", "Perancis"],
+  GB: [
+    "UK",
+    "Great Britain",
+    "England",
+    "Scotland",
+    "Wales",
+    "Northern Ireland",
+    "United Kingdom of Great Britain and Northern Ireland",
+    "Britania Raya",
+    "Inggris",
+  ],
+  GQ: ["Guinea Khatulistiwa"],
+  GR: ["Yunani"],
+  HK: ["Hong Kong SAR"],
+  HR: ["Kroasia"],
+  HU: ["Hungaria"],
+  IE: ["Irlandia"],
+  IQ: ["Irak"],
+  IR: ["Iran, Islamic Republic of"],
+  IS: ["Islandia"],
+  IT: ["Italia"],
+  JM: ["Jamaika"],
+  JO: ["Yordania"],
+  JP: ["Jepang"],
+  KG: ["Kirgizstan"],
+  KH: ["Kamboja"],
+  KP: ["Korea, Democratic People's Republic of", "DPRK", "Korea Utara"],
+  KR: ["Korea, Republic of", "Republic of Korea", "Korea", "Korea Selatan"],
+  LA: ["Lao People's Democratic Republic", "Lao PDR"],
+  LB: ["Libanon"],
+  LT: ["Lituania"],
+  LU: ["Luksemburg"],
+  LY: ["Libia"],
+  MA: ["Maroko"],
+  MC: ["Monako"],
+  MD: ["Moldova, Republic of"],
+  MG: ["Madagaskar"],
+  MK: ["Macedonia", "The former Yugoslav Republic of Macedonia", "Makedonia Utara"],
+  MM: ["Burma"],
+  MO: ["Macau", "Makau"],
+  MV: ["Maladewa"],
+  MX: ["Meksiko"],
+  MZ: ["Mozambik"],
+  NI: ["Nikaragua"],
+  NL: ["Holland", "Netherlands, The", "Belanda"],
+  NO: ["Norwegia"],
+  NZ: ["Selandia Baru"],
+  PG: ["Papua Nugini"],
+  PH: ["Filipina"],
+  PL: ["Polandia"],
+  PR: ["Puerto Riko"],
+  PS: ["Palestine, State of", "Palestinian Territory", "Palestina"],
+  RO: ["Rumania"],
+  RU: ["Russian Federation", "Rusia"],
+  SA: ["Arab Saudi"],
+  SE: ["Swedia"],
+  SG: ["Singapura"],
+  SK: ["Slowakia"],
+  SS: ["Sudan Selatan"],
+  SY: ["Syrian Arab Republic", "Suriah"],
+  SZ: ["Swaziland"],
+  TL: ["East Timor", "Timor Leste"],
+  TR: ["Turkey", "Turki"],
+  TT: ["Trinidad dan Tobago"],
+  TW: ["Taiwan, Province of China"],
+  TZ: ["Tanzania, United Republic of"],
+  UA: ["Ukraina"],
+  US: ["United States of America", "USA", "America", "Amerika Serikat"],
+  VA: ["Holy See", "Vatikan"],
+  VE: ["Venezuela, Bolivarian Republic of"],
+  VG: ["Virgin Islands, British"],
+  VI: ["Virgin Islands, U.S."],
+  VN: ["Viet Nam"],
+  YE: ["Yaman"],
+  ZA: ["Afrika Selatan"],
+};
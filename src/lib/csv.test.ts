@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { CsvRow, CsvTokenizer, parseCsv, parseCsvStream } from "./csv";
+
+const fields = (rows: CsvRow[]) => rows.map((row) => row.fields);
+
+// Feeds the text in the given pieces and collects every row push() and end() return
+function tokenizeInChunks(chunks: string[], tokenizer = new CsvTokenizer()): CsvRow[] {
+  return [...chunks.flatMap((chunk) => tokenizer.push(chunk)), ...tokenizer.end()];
+}
+
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("parseCsv", () => {
+  it("splits plain fields and records", () => {
+    expect(fields(parseCsv("a,b,c\n1,2,3\n"))).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("drops a leading UTF-8 BOM", () => {
+    expect(fields(parseCsv("\uFEFFIP,Country\n1.2.3.4,ID"))).toEqual([
+      ["IP", "Country"],
+      ["1.2.3.4", "ID"],
+    ]);
+  });
+
+  it("keeps a BOM that is not at the very start", () => {
+    expect(fields(parseCsv("a\n\uFEFFb"))).toEqual([["a"], ["\uFEFFb"]]);
+  });
+
+  it("accepts CRLF, LF and bare CR line endings", () => {
+    expect(fields(parseCsv("a,b\r\nc,d\ne,f\rg,h"))).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+      ["g", "h"],
+    ]);
+  });
+
+  it("keeps newlines inside quoted fields", () => {
+    const rows = parseCsv('id,note\n1,"first line\r\nsecond line"\n2,"x\ny"\n');
+    expect(fields(rows)).toEqual([
+      ["id", "note"],
+      ["1", "first line\r\nsecond line"],
+      ["2", "x\ny"],
+    ]);
+  });
+
+  it("reports the line each record starts on, counting embedded newlines", () => {
+    const rows = parseCsv('h\n"a\nb"\nc\r\nd');
+    expect(rows.map((row) => row.line)).toEqual([1, 2, 4, 5]);
+  });
+
+  it("unescapes doubled quotes", () => {
+    expect(fields(parseCsv('"say ""hi""",""""\n'))).toEqual([['say "hi"', '"']]);
+  });
+
+  it("keeps empty trailing fields", () => {
+    expect(fields(parseCsv("a,b,\n1,,\n,,"))).toEqual([
+      ["a", "b", ""],
+      ["1", "", ""],
+      ["", "", ""],
+    ]);
+  });
+
+  it("keeps an empty quoted field as a value", () => {
+    expect(fields(parseCsv('a,""\n""'))).toEqual([["a", ""], [""]]);
+  });
+
+  it("skips empty lines by default and keeps them on request", () => {
+    expect(fields(parseCsv("a\n\n\nb\n"))).toEqual([["a"], ["b"]]);
+    expect(fields(parseCsv("a\n\nb", { skipEmptyLines: false }))).toEqual([["a"], [""], ["b"]]);
+  });
+
+  it("uses a custom delimiter", () => {
+    expect(fields(parseCsv('a;"b;c";d', { delimiter: ";" }))).toEqual([["a", "b;c", "d"]]);
+  });
+
+  it("keeps what was read of an unterminated quoted field", () => {
+    expect(fields(parseCsv('a,"open\nstill open'))).toEqual([["a", "open\nstill open"]]);
+  });
+});
+
+describe("CsvTokenizer chunking", () => {
+  const text = '\uFEFFIP,Note,Extra\r\n1.1.1.1,"multi\r\nline ""quoted""",\r\n2.2.2.2,plain,\r\n';
+  const expected = parseCsv(text);
+
+  it("gives the same rows for every split point", () => {
+    for (let i = 0; i <= text.length; i++) {
+      expect(tokenizeInChunks([text.slice(0, i), text.slice(i)])).toEqual(expected);
+    }
+  });
+
+  it("gives the same rows when fed one character at a time", () => {
+    expect(tokenizeInChunks([...text])).toEqual(expected);
+  });
+
+  it("does not emit a record until its line ending has been seen", () => {
+    const tokenizer = new CsvTokenizer();
+    expect(tokenizer.push("a,b")).toEqual([]);
+    expect(fields(tokenizer.push("\nc"))).toEqual([["a", "b"]]);
+    expect(fields(tokenizer.end())).toEqual([["c"]]);
+  });
+
+  it("treats CR then LF in separate chunks as one line ending", () => {
+    expect(fields(tokenizeInChunks(["a\r", "\nb"]))).toEqual([["a"], ["b"]]);
+  });
+
+  it("resolves a quote at the end of a chunk once the next one arrives", () => {
+    expect(fields(tokenizeInChunks(['"x"', '"y",z']))).toEqual([['x"y', "z"]]);
+    expect(fields(tokenizeInChunks(['"x"', ",z"]))).toEqual([["x", "z"]]);
+  });
+
+  it("emits nothing on end() for input that ended with a line break", () => {
+    const tokenizer = new CsvTokenizer();
+    tokenizer.push("a\n");
+    expect(tokenizer.end()).toEqual([]);
+  });
+});
+
+describe("parseCsvStream", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("country\nCôte d'Ivoire\n");
+    const split = bytes.indexOf(0xc3) + 1;
+    const rows = await parseCsvStream(streamOf(bytes.slice(0, split), bytes.slice(split)));
+    expect(fields(rows)).toEqual([["country"], ["Côte d'Ivoire"]]);
+  });
+
+  it("matches parseCsv on the same text", async () => {
+    const text = '\uFEFFa,b\r\n"1\n2",\r\n';
+    const rows = await parseCsvStream(streamOf(new TextEncoder().encode(text)));
+    expect(rows).toEqual(parseCsv(text));
+  });
+});
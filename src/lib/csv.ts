@@ -0,0 +1,150 @@
+// RFC 4180 CSV tokenizer. Fields may be quoted, quotes inside quoted fields are
+// escaped by doubling them ("") and quoted fields may span several lines.
+// Records can end in CRLF, LF or a bare CR; a leading UTF-8 BOM is dropped.
+
+export interface CsvRow {
+  fields: string[];
+  /** 1-based line number of the physical line the record starts on */
+  line: number;
+}
+
+interface CsvTokenizerOptions {
+  delimiter?: string;
+  /** Drop lines without any content instead of emitting a single empty field */
+  skipEmptyLines?: boolean;
+}
+
+// Incremental tokenizer: feed it chunks as they arrive and collect the
+// complete records each push returns. Call end() once the input is exhausted.
+export class CsvTokenizer {
+  private readonly delimiter: string;
+  private readonly skipEmptyLines: boolean;
+
+  private rows: CsvRow[] = [];
+  private fields: string[] = [];
+  private field = "";
+  private fieldQuoted = false;
+  private inQuotes = false;
+  private quotePending = false;
+  private crPending = false;
+  private atStart = true;
+  private line = 1;
+  private rowLine = 1;
+
+  constructor({ delimiter = ",", skipEmptyLines = true }: CsvTokenizerOptions = {}) {
+    this.delimiter = delimiter;
+    this.skipEmptyLines = skipEmptyLines;
+  }
+
+  push(chunk: string): CsvRow[] {
+    for (let i = 0; i < chunk.length; i++) {
+      this.consume(chunk[i]);
+    }
+    return this.drain();
+  }
+
+  end(): CsvRow[] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    // An unterminated quoted field keeps whatever was read up to the end of input
+    if (this.inQuotes || this.fields.length > 0 || this.field !== "" || this.fieldQuoted) {
+      this.inQuotes = false;
+      this.endRow();
+    }
+    return this.drain();
+  }
+
+  private consume(char: string) {
+    if (this.atStart) {
+      this.atStart = false;
+      if (char === "\uFEFF") return;
+    }
+
+    if (this.crPending) {
+      this.crPending = false;
+      if (char === "\n") return;
+    }
+
+    if (this.inQuotes) {
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          return;
+        }
+        this.inQuotes = false;
+        // The closing quote has been consumed; handle this character as unquoted
+      } else {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          if (char === "\n") this.line++;
+          this.field += char;
+        }
+        return;
+      }
+    }
+
+    if (char === '"' && this.field === "" && !this.fieldQuoted) {
+      this.inQuotes = true;
+      this.fieldQuoted = true;
+    } else if (char === this.delimiter) {
+      this.endField();
+    } else if (char === "\r" || char === "\n") {
+      this.endRow();
+      this.line++;
+      this.rowLine = this.line;
+      this.crPending = char === "\r";
+    } else {
+      this.field += char;
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = "";
+    this.fieldQuoted = false;
+  }
+
+  private endRow() {
+    const isEmpty = this.fields.length === 0 && this.field === "" && !this.fieldQuoted;
+    this.endField();
+    if (!(isEmpty && this.skipEmptyLines)) {
+      this.rows.push({ fields: this.fields, line: this.rowLine });
+    }
+    this.fields = [];
+  }
+
+  private drain(): CsvRow[] {
+    const rows = this.rows;
+    this.rows = [];
+    return rows;
+  }
+}
+
+export function parseCsv(text: string, options?: CsvTokenizerOptions): CsvRow[] {
+  const tokenizer = new CsvTokenizer(options);
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
+
+// Tokenizes a byte stream (e.g. a fetch Response body) without buffering the whole text
+export async function parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  options?: CsvTokenizerOptions
+): Promise<CsvRow[]> {
+  const tokenizer = new CsvTokenizer(options);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const rows: CsvRow[] = [];
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    rows.push(...tokenizer.push(decoder.decode(value, { stream: true })));
+  }
+
+  rows.push(...tokenizer.push(decoder.decode()), ...tokenizer.end());
+  return rows;
+}
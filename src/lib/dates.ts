@@ -0,0 +1,29 @@
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// Google Sheets exports dates in the sheet locale (id-ID): day/month/year with an optional time
+const SHEET_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ ,]+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?)?$/;
+
+// Parses the LastReportedAt formats we accept; returns null for anything else
+export function parseReportedAt(value: string): Date | null {
+  const trimmed = value.trim();
+
+  if (ISO_DATE.test(trimmed)) {
+    const date = new Date(trimmed.replace(" ", "T"));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = SHEET_DATE.exec(trimmed);
+  if (!match) return null;
+
+  const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] = match;
+  const date = new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds)
+  );
+
+  // Reject overflowed values such as 31/02/2025
+  return date.getDate() === Number(day) && date.getMonth() === Number(month) - 1 ? date : null;
+}
@@ -0,0 +1,79 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { parseReportedAt } from "./dates";
+import { countryByCode, countryCode, countryFlag, regionOf } from "./countries";
+import { asnKey } from "./asn";
+
+export type FacetField =
+  | "Country"
+  | "region"
+  | "City"
+  | "ISP"
+  | "ASN"
+  | "UsageType"
+  | "JenisAktivitas"
+  | "Action"
+  | "scoreBucket"
+  | "reportedDay"
+  | "tags"
+  | "triageStatus"
+  | "assignee";
+
+/** An exact-match filter on one dimension, e.g. picked by clicking a chart */
+export interface FacetFilter {
+  field: FacetField;
+  value: string;
+}
+
+// Scores fall into ten buckets; 100 shares the last one
+export function scoreBucket(score: number): string {
+  const start = Math.min(Math.floor(score / 10) * 10, 90);
+  return start === 90 ? "90-100" : `${start}-${start + 9}`;
+}
+
+export function reportedDay(record: AggregatedIPData): string | null {
+  const date = parseReportedAt(record.LastReportedAt);
+  if (!date) return null;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Values a record contributes to a facet; merged records count once per activity type
+export function facetValues(record: AggregatedIPData, field: FacetField): string[] {
+  switch (field) {
+    // Sheets mix names, ISO codes and Indonesian names; group them all by ISO code
+    case "Country":
+      return [countryCode(record.Country)];
+    case "region":
+      return [regionOf(record.Country) ?? "-"];
+    // "7713" and "AS7713" are the same network
+    case "ASN":
+      return [asnKey(record.ASN)];
+    case "JenisAktivitas":
+      return [...new Set(record.activities.map((activity) => activity.JenisAktivitas || "-"))];
+    case "Action":
+      return [record.Action.toLowerCase() === "blocked" ? "Blocked" : "Alerted"];
+    case "scoreBucket":
+      return [scoreBucket(record.AbuseConfidenceScore)];
+    case "reportedDay": {
+      const day = reportedDay(record);
+      return day ? [day] : [];
+    }
+    case "tags":
+      return record.annotation?.tags ?? [];
+    case "triageStatus":
+      return [record.annotation?.status ?? "new"];
+    case "assignee":
+      return [record.annotation?.assignee || "-"];
+    default:
+      return [record[field] || "-"];
+  }
+}
+
+// How a facet value is shown in charts, filter options and chips
+export function facetLabel(field: FacetField, value: string): string {
+  if (field === "Country") {
+    const country = countryByCode(value);
+    return country ? `${countryFlag(country.code)} ${country.name}` : value;
+  }
+  return value;
+}
@@ -0,0 +1,314 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { FacetFilter, facetLabel, facetValues, reportedDay } from "./facets";
+import { countryCode } from "./countries";
+import { asnKey } from "./asn";
+import { IPRange, ipInRange, parseIPMatcher } from "./ipAddress";
+import { compileSearchQuery } from "./searchQuery";
+import { SortKey, isSortKey } from "./sorting";
+
+export type ActionFilter = "all" | "blocked" | "alerted";
+
+export type ListFilterField =
+  | "Country"
+  | "region"
+  | "City"
+  | "ISP"
+  | "ASN"
+  | "UsageType"
+  | "JenisAktivitas"
+  | "triageStatus"
+  | "tags"
+  | "assignee";
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/** Everything that narrows or orders the dashboard, serializable to the URL query string */
+export interface DashboardFilters {
+  query: string;
+  action: ActionFilter;
+  sort: SortKey;
+  /** How the advanced conditions below are combined */
+  match: "and" | "or";
+  score: [number, number];
+  /** Bounds on the locally computed composite risk score */
+  composite: [number, number];
+  lists: Partial<Record<ListFilterField, string[]>>;
+  /** CIDR blocks, start–end ranges or single addresses; an IP matching any of them passes */
+  ipRanges: string[];
+  reports: NumberRange;
+  count: NumberRange;
+  /** Only IPs on the watchlist */
+  watchedOnly: boolean;
+  /** Inclusive YYYY-MM-DD bounds on LastReportedAt */
+  reportedFrom?: string;
+  reportedTo?: string;
+}
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  query: "",
+  action: "all",
+  sort: "default",
+  match: "and",
+  score: [0, 100],
+  composite: [0, 100],
+  lists: {},
+  ipRanges: [],
+  watchedOnly: false,
+  reports: {},
+  count: {},
+};
+
+export const LIST_FILTERS: { field: ListFilterField; label: string; param: string }[] = [
+  { field: "Country", label: "Country", param: "country" },
+  { field: "region", label: "Region", param: "region" },
+  { field: "City", label: "City", param: "city" },
+  { field: "ISP", label: "ISP", param: "isp" },
+  { field: "ASN", label: "ASN", param: "asn" },
+  { field: "UsageType", label: "Usage type", param: "usage" },
+  { field: "JenisAktivitas", label: "Activity", param: "activity" },
+  { field: "triageStatus", label: "Triage status", param: "status" },
+  { field: "tags", label: "Tag", param: "tag" },
+  { field: "assignee", label: "Assignee", param: "assignee" },
+];
+
+type Condition = (record: AggregatedIPData) => boolean;
+
+const inRange = (value: number, range: NumberRange) =>
+  (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+
+const hasRange = (range: NumberRange) => range.min !== undefined || range.max !== undefined;
+
+// Only conditions that differ from the defaults take part in the AND/OR combination
+function advancedConditions(filters: DashboardFilters): Condition[] {
+  const conditions: Condition[] = [];
+  const [minScore, maxScore] = filters.score;
+
+  if (minScore > 0 || maxScore < 100) {
+    conditions.push((record) => record.AbuseConfidenceScore >= minScore && record.AbuseConfidenceScore <= maxScore);
+  }
+  const [minComposite, maxComposite] = filters.composite;
+  if (minComposite > 0 || maxComposite < 100) {
+    conditions.push((record) => {
+      const composite = record.compositeScore ?? 0;
+      return composite >= minComposite && composite <= maxComposite;
+    });
+  }
+  for (const { field } of LIST_FILTERS) {
+    const values = filters.lists[field];
+    if (values?.length) {
+      conditions.push((record) => facetValues(record, field).some((value) => values.includes(value)));
+    }
+  }
+  const ranges = filters.ipRanges.map(parseIPMatcher).filter((range): range is IPRange => range !== null);
+  if (ranges.length > 0) {
+    conditions.push((record) => ranges.some((range) => ipInRange(record.IP, range)));
+  }
+  if (filters.watchedOnly) {
+    conditions.push((record) => !!record.annotation?.watched);
+  }
+  if (hasRange(filters.reports)) {
+    conditions.push((record) => inRange(record.TotalReports, filters.reports));
+  }
+  if (hasRange(filters.count)) {
+    conditions.push((record) => inRange(record.Count, filters.count));
+  }
+  if (filters.reportedFrom || filters.reportedTo) {
+    conditions.push((record) => {
+      const day = reportedDay(record);
+      return (
+        !!day &&
+        (!filters.reportedFrom || day >= filters.reportedFrom) &&
+        (!filters.reportedTo || day <= filters.reportedTo)
+      );
+    });
+  }
+
+  return conditions;
+}
+
+export function countActiveFilters(filters: DashboardFilters): number {
+  return advancedConditions(filters).length;
+}
+
+export function applyFilters(records: AggregatedIPData[], filters: DashboardFilters): AggregatedIPData[] {
+  const conditions = advancedConditions(filters);
+  const search = compileSearchQuery(filters.query);
+  const combined: Condition =
+    conditions.length === 0
+      ? () => true
+      : filters.match === "or"
+        ? (record) => conditions.some((condition) => condition(record))
+        : (record) => conditions.every((condition) => condition(record));
+
+  return records.filter(
+    (record) =>
+      search(record) &&
+      (filters.action === "all" || record.Action.toLowerCase() === filters.action) &&
+      combined(record)
+  );
+}
+
+// Narrows the filters to a value picked in a chart
+export function applyFacet(filters: DashboardFilters, facet: FacetFilter): DashboardFilters {
+  switch (facet.field) {
+    case "Action":
+      return { ...filters, action: facet.value.toLowerCase() as ActionFilter };
+    case "scoreBucket": {
+      const [min, max] = facet.value.split("-").map(Number);
+      return { ...filters, score: [min, max] };
+    }
+    case "reportedDay":
+      return { ...filters, reportedFrom: facet.value, reportedTo: facet.value };
+    default: {
+      const current = filters.lists[facet.field] ?? [];
+      return current.includes(facet.value)
+        ? filters
+        : { ...filters, lists: { ...filters.lists, [facet.field]: [...current, facet.value] } };
+    }
+  }
+}
+
+function formatRange(range: NumberRange): string | null {
+  return hasRange(range) ? `${range.min ?? ""}-${range.max ?? ""}` : null;
+}
+
+function parseRange(value: string | null): NumberRange {
+  if (!value) return {};
+  const [min, max] = value.split("-");
+  return {
+    min: min ? Number(min) : undefined,
+    max: max ? Number(max) : undefined,
+  };
+}
+
+export function filtersToSearchParams(filters: DashboardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set("q", filters.query);
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.sort !== "default") params.set("sort", filters.sort);
+  if (filters.match === "or") params.set("match", "or");
+  if (filters.score[0] > 0 || filters.score[1] < 100) params.set("score", filters.score.join("-"));
+  if (filters.composite[0] > 0 || filters.composite[1] < 100) params.set("composite", filters.composite.join("-"));
+  for (const { field, param } of LIST_FILTERS) {
+    filters.lists[field]?.forEach((value) => params.append(param, value));
+  }
+  filters.ipRanges.forEach((range) => params.append("ip", range));
+  if (filters.watchedOnly) params.set("watched", "1");
+  const reports = formatRange(filters.reports);
+  if (reports) params.set("reports", reports);
+  const count = formatRange(filters.count);
+  if (count) params.set("count", count);
+  if (filters.reportedFrom) params.set("from", filters.reportedFrom);
+  if (filters.reportedTo) params.set("to", filters.reportedTo);
+
+  return params;
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): DashboardFilters {
+  const action = params.get("action");
+  const sort = params.get("sort");
+  const score = parseRange(params.get("score"));
+  const composite = parseRange(params.get("composite"));
+  const lists: DashboardFilters["lists"] = {};
+  for (const { field, param } of LIST_FILTERS) {
+    const values = params.getAll(param);
+    // Links written by hand may name the country instead of its ISO code, or leave the AS prefix off
+    if (values.length > 0) {
+      lists[field] = field === "Country" ? values.map(countryCode) : field === "ASN" ? values.map(asnKey) : values;
+    }
+  }
+
+  return {
+    query: params.get("q") ?? "",
+    action: action === "blocked" || action === "alerted" ? action : "all",
+    sort: isSortKey(sort) ? sort : "default",
+    match: params.get("match") === "or" ? "or" : "and",
+    score: [score.min ?? 0, score.max ?? 100],
+    composite: [composite.min ?? 0, composite.max ?? 100],
+    lists,
+    ipRanges: params.getAll("ip"),
+    watchedOnly: params.get("watched") === "1",
+    reports: parseRange(params.get("reports")),
+    count: parseRange(params.get("count")),
+    reportedFrom: params.get("from") ?? undefined,
+    reportedTo: params.get("to") ?? undefined,
+  };
+}
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  remove: (filters: DashboardFilters) => DashboardFilters;
+}
+
+// One removable chip per active advanced condition (and per selected list value)
+export function describeFilters(filters: DashboardFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  const describeRange = (range: NumberRange) =>
+    range.min !== undefined && range.max !== undefined
+      ? `${range.min}–${range.max}`
+      : range.min !== undefined
+        ? `≥ ${range.min}`
+        : `≤ ${range.max}`;
+
+  if (filters.score[0] > 0 || filters.score[1] < 100) {
+    chips.push({
+      key: "score",
+      label: `Score: ${filters.score[0]}–${filters.score[1]}%`,
+      remove: (f) => ({ ...f, score: [0, 100] }),
+    });
+  }
+  if (filters.composite[0] > 0 || filters.composite[1] < 100) {
+    chips.push({
+      key: "composite",
+      label: `Composite: ${filters.composite[0]}–${filters.composite[1]}`,
+      remove: (f) => ({ ...f, composite: [0, 100] }),
+    });
+  }
+  for (const { field, label } of LIST_FILTERS) {
+    filters.lists[field]?.forEach((value) =>
+      chips.push({
+        key: `${field}:${value}`,
+        label: `${label}: ${facetLabel(field, value)}`,
+        remove: (f) => ({ ...f, lists: { ...f.lists, [field]: f.lists[field]?.filter((v) => v !== value) } }),
+      })
+    );
+  }
+  filters.ipRanges.forEach((range) =>
+    chips.push({
+      key: `ip:${range}`,
+      label: `IP: ${range}`,
+      remove: (f) => ({ ...f, ipRanges: f.ipRanges.filter((r) => r !== range) }),
+    })
+  );
+  if (filters.watchedOnly) {
+    chips.push({ key: "watched", label: "Watchlist only", remove: (f) => ({ ...f, watchedOnly: false }) });
+  }
+  if (hasRange(filters.reports)) {
+    chips.push({
+      key: "reports",
+      label: `Reports: ${describeRange(filters.reports)}`,
+      remove: (f) => ({ ...f, reports: {} }),
+    });
+  }
+  if (hasRange(filters.count)) {
+    chips.push({
+      key: "count",
+      label: `Count: ${describeRange(filters.count)}`,
+      remove: (f) => ({ ...f, count: {} }),
+    });
+  }
+  if (filters.reportedFrom || filters.reportedTo) {
+    chips.push({
+      key: "reported",
+      label: `Last reported: ${filters.reportedFrom ?? "…"} – ${filters.reportedTo ?? "…"}`,
+      remove: (f) => ({ ...f, reportedFrom: undefined, reportedTo: undefined }),
+    });
+  }
+
+  return chips;
+}
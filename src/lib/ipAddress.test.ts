@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { normalizeIP, parseIP, parseIPv4 } from "./ipAddress";
+
+describe("parseIPv4", () => {
+  it("accepts plain dotted quads, including single zero octets", () => {
+    expect(parseIPv4("1.2.3.4")).toBe(0x01020304n);
+    expect(parseIPv4("0.0.0.0")).toBe(0n);
+    expect(parseIPv4("255.255.255.255")).toBe(0xffffffffn);
+  });
+
+  it("rejects octets with leading zeros", () => {
+    expect(parseIPv4("01.2.3.4")).toBeNull();
+    expect(parseIPv4("1.2.3.004")).toBeNull();
+    expect(parseIPv4("10.00.0.1")).toBeNull();
+    expect(parseIP("::ffff:01.2.3.4")).toBeNull();
+  });
+
+  it("rejects out-of-range and malformed octets", () => {
+    expect(parseIPv4("256.1.1.1")).toBeNull();
+    expect(parseIPv4("1.2.3")).toBeNull();
+    expect(parseIPv4("1.2.3.4.5")).toBeNull();
+    expect(parseIPv4("1.2.3.x")).toBeNull();
+  });
+});
+
+describe("normalizeIP", () => {
+  it("formats IPv6 per RFC 5952", () => {
+    expect(normalizeIP("2001:0DB8:0000:0000:0000:0000:0000:0001")).toBe("2001:db8::1");
+    expect(normalizeIP("2001:db8:0:1:0:0:0:1")).toBe("2001:db8:0:1::1");
+    expect(normalizeIP("2001:db8:0:0:1:0:0:1")).toBe("2001:db8::1:0:0:1");
+    expect(normalizeIP("::")).toBe("::");
+  });
+
+  it("keeps the dotted-quad tail of IPv4-mapped addresses", () => {
+    expect(normalizeIP("::ffff:1.2.3.4")).toBe("::ffff:1.2.3.4");
+    expect(normalizeIP("::FFFF:0102:0304")).toBe("::ffff:1.2.3.4");
+    expect(normalizeIP("0:0:0:0:0:ffff:c000:0280")).toBe("::ffff:192.0.2.128");
+  });
+
+  it("leaves other addresses with a 32-bit tail in hex", () => {
+    expect(normalizeIP("::1.2.3.4")).toBe("::102:304");
+    expect(normalizeIP("64:ff9b::1.2.3.4")).toBe("64:ff9b::102:304");
+  });
+
+  it("returns text that is not an address unchanged apart from whitespace", () => {
+    expect(normalizeIP(" 01.2.3.4 ")).toBe("01.2.3.4");
+    expect(normalizeIP("example.com")).toBe("example.com");
+  });
+});
@@ -0,0 +1,163 @@
+// IPv4/IPv6 parsing, normalization and range matching on numeric (bigint) values
+
+export type IPVersion = 4 | 6;
+
+export interface ParsedIP {
+  version: IPVersion;
+  value: bigint;
+}
+
+/** Inclusive address range, from a CIDR block or a start–end pair */
+export interface IPRange {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+}
+
+const BITS: Record<IPVersion, number> = { 4: 32, 6: 128 };
+
+export function parseIPv4(text: string): bigint | null {
+  const parts = text.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    // A leading zero is rejected rather than guessed at: some parsers read 010 as octal 8
+    if (!/^(0|[1-9]\d{0,2})$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+export function parseIPv6(text: string): bigint | null {
+  // Drop a zone index such as fe80::1%eth0
+  let address = text.split("%")[0].toLowerCase();
+  if (!address.includes(":")) return null;
+
+  // An embedded IPv4 tail (::ffff:1.2.3.4) becomes two hextets
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const v4 = parseIPv4(tail);
+    if (v4 === null) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+export function parseIP(text: string): ParsedIP | null {
+  const trimmed = text.trim();
+  const v4 = parseIPv4(trimmed);
+  if (v4 !== null) return { version: 4, value: v4 };
+  const v6 = parseIPv6(trimmed);
+  if (v6 !== null) return { version: 6, value: v6 };
+  return null;
+}
+
+export function formatIP({ version, value }: ParsedIP): string {
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n].map((shift) => ((value >> shift) & 0xffn).toString()).join(".");
+  }
+
+  // RFC 5952 §5: IPv4-mapped addresses (::ffff:0:0/96) keep their dotted-quad tail
+  if (value >> 32n === 0xffffn) return `::ffff:${formatIP({ version: 4, value: value & 0xffffffffn })}`;
+
+  const groups = Array.from({ length: 8 }, (_, index) => (value >> BigInt((7 - index) * 16)) & 0xffffn);
+
+  // RFC 5952: compress the longest run (of two or more) of zero groups, the first one on ties
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0n) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0n) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+// Canonical text form, or the input unchanged when it is not an IP address
+export function normalizeIP(text: string): string {
+  const parsed = parseIP(text);
+  return parsed ? formatIP(parsed) : text.trim();
+}
+
+export function parseCIDR(text: string): IPRange | null {
+  const [address, prefixText, ...extra] = text.trim().split("/");
+  if (extra.length > 0 || prefixText === undefined || !/^\d{1,3}$/.test(prefixText)) return null;
+
+  const parsed = parseIP(address);
+  const prefix = Number(prefixText);
+  if (!parsed || prefix > BITS[parsed.version]) return null;
+
+  const hostBits = BigInt(BITS[parsed.version] - prefix);
+  const mask = (1n << hostBits) - 1n;
+  return { version: parsed.version, start: parsed.value & ~mask, end: parsed.value | mask };
+}
+
+// "start-end", e.g. 10.0.0.1-10.0.0.50 or 2001:db8::1-2001:db8::ff
+export function parseIPRangeText(text: string): IPRange | null {
+  const [from, to, ...extra] = text.trim().split("-");
+  if (extra.length > 0 || to === undefined) return null;
+
+  const start = parseIP(from);
+  const end = parseIP(to);
+  if (!start || !end || start.version !== end.version || start.value > end.value) return null;
+  return { version: start.version, start: start.value, end: end.value };
+}
+
+/** A CIDR block, a start–end range or a single address */
+export function parseIPMatcher(text: string): IPRange | null {
+  if (text.includes("/")) return parseCIDR(text);
+  if (text.includes("-")) return parseIPRangeText(text);
+  const single = parseIP(text);
+  return single ? { version: single.version, start: single.value, end: single.value } : null;
+}
+
+export function ipInRange(ip: string | ParsedIP, range: IPRange): boolean {
+  const parsed = typeof ip === "string" ? parseIP(ip) : ip;
+  return !!parsed && parsed.version === range.version && parsed.value >= range.start && parsed.value <= range.end;
+}
+
+// The network an address belongs to at the given prefix length, as CIDR text
+export function networkOf(ip: string, prefix: number): string | null {
+  const parsed = parseIP(ip);
+  if (!parsed || prefix > BITS[parsed.version]) return null;
+
+  const mask = (1n << BigInt(BITS[parsed.version] - prefix)) - 1n;
+  return `${formatIP({ version: parsed.version, value: parsed.value & ~mask })}/${prefix}`;
+}
+
+// Numeric order: IPv4 before IPv6, unparseable values last in string order
+export function compareIPs(a: string, b: string): number {
+  const left = parseIP(a);
+  const right = parseIP(b);
+  if (!left || !right) return left ? -1 : right ? 1 : a.localeCompare(b);
+  if (left.version !== right.version) return left.version - right.version;
+  return left.value < right.value ? -1 : left.value > right.value ? 1 : 0;
+}
@@ -0,0 +1,76 @@
+import { IPData } from "@/types/ipData";
+
+export type ChangeKind = "added" | "changed";
+
+export interface FieldChange {
+  field: keyof IPData;
+  before: IPData[keyof IPData];
+  after: IPData[keyof IPData];
+}
+
+export interface RecordChange {
+  key: string;
+  before: IPData;
+  after: IPData;
+  fields: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  /** Epoch milliseconds of the refresh that produced this diff */
+  at: number;
+  added: IPData[];
+  removed: IPData[];
+  changed: RecordChange[];
+}
+
+const COMPARED_FIELDS: (keyof IPData)[] = [
+  "AbuseConfidenceScore",
+  "TotalReports",
+  "Count",
+  "Action",
+  "LastReportedAt",
+  "Country",
+  "City",
+  "ISP",
+  "Domain",
+  "UsageType",
+  "ASN",
+];
+
+// One IP can appear once per activity type, so the pair identifies a sheet row
+export function recordKey(record: IPData): string {
+  return `${record.IP}|${record.JenisAktivitas.toLowerCase()}`;
+}
+
+export function diffSnapshots(previous: IPData[], next: IPData[], at = Date.now()): SnapshotDiff {
+  const before = new Map(previous.map((record) => [recordKey(record), record]));
+  const after = new Map(next.map((record) => [recordKey(record), record]));
+  const diff: SnapshotDiff = { at, added: [], removed: [], changed: [] };
+
+  for (const [key, record] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(record);
+      continue;
+    }
+
+    const fields = COMPARED_FIELDS.filter((field) => old[field] !== record[field]).map((field) => ({
+      field,
+      before: old[field],
+      after: record[field],
+    }));
+    if (fields.length > 0) {
+      diff.changed.push({ key, before: old, after: record, fields });
+    }
+  }
+
+  for (const [key, record] of before) {
+    if (!after.has(key)) diff.removed.push(record);
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SnapshotDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
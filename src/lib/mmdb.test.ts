@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildMmdb } from "@/test/mmdbWriter";
+import { MmdbReader } from "./mmdb";
+
+const CITY = {
+  country: { iso_code: "ID", names: { en: "Indonesia" } },
+  city: { names: { en: "Jakarta" } },
+  location: { latitude: -6.2146, longitude: 106.8451 },
+  is_anycast: false,
+};
+
+describe("MmdbReader", () => {
+  for (const recordSize of [24, 28, 32] as const) {
+    it(`finds networks in an IPv6 tree with ${recordSize}-bit records`, () => {
+      const reader = new MmdbReader(
+        buildMmdb({
+          ipVersion: 6,
+          recordSize,
+          networks: [
+            ["1.2.3.0/24", CITY],
+            ["2001:db8::/32", { country: { iso_code: "NL", names: { en: "Netherlands" } }, asns: [64500, 64501] }],
+          ],
+        })
+      );
+
+      expect(reader.metadata).toMatchObject({ recordSize, ipVersion: 6, databaseType: "Test-DB", buildEpoch: 1700000000 });
+      expect(reader.lookup("1.2.3.200")).toEqual(CITY);
+      expect(reader.lookup("2001:db8:ffff::1")).toEqual({
+        country: { iso_code: "NL", names: { en: "Netherlands" } },
+        asns: [64500, 64501],
+      });
+      expect(reader.lookup("1.2.4.1")).toBeNull();
+      expect(reader.lookup("2001:db9::1")).toBeNull();
+    });
+  }
+
+  it("looks up IPv4 addresses in an IPv4 tree and skips IPv6 ones", () => {
+    const reader = new MmdbReader(
+      buildMmdb({
+        ipVersion: 4,
+        recordSize: 24,
+        networks: [
+          ["10.0.0.0/8", { autonomous_system_number: 64500, autonomous_system_organization: "Example Net" }],
+          ["192.0.2.128/25", { autonomous_system_number: 4200000000, autonomous_system_organization: "Big ASN" }],
+        ],
+      })
+    );
+
+    expect(reader.lookup("10.20.30.40")).toEqual({
+      autonomous_system_number: 64500,
+      autonomous_system_organization: "Example Net",
+    });
+    expect(reader.lookup("192.0.2.200")).toMatchObject({ autonomous_system_number: 4200000000 });
+    expect(reader.lookup("192.0.2.1")).toBeNull();
+    expect(reader.lookup("::ffff:10.0.0.1")).toBeNull();
+    expect(reader.lookup("not an ip")).toBeNull();
+  });
+
+  it("decodes strings longer than the short size field", () => {
+    const long = "x".repeat(300);
+    const reader = new MmdbReader(buildMmdb({ ipVersion: 4, recordSize: 24, networks: [["0.0.0.0/1", { note: long }]] }));
+    expect(reader.lookup("1.1.1.1")).toEqual({ note: long });
+  });
+
+  it("rejects files without MaxMind DB metadata", () => {
+    expect(() => new MmdbReader(new TextEncoder().encode("network,country\n1.2.3.0/24,ID\n").buffer)).toThrow(
+      /Not a MaxMind DB file/
+    );
+  });
+});
@@ -0,0 +1,201 @@
+// Reader for MaxMind DB (.mmdb) files, the binary format of GeoLite2, GeoIP2, DB-IP and IPinfo
+// downloads: a binary search tree over address bits whose leaves point into a typed data section.
+// https://maxmind.github.io/MaxMind-DB/
+import { parseIP } from "./ipAddress";
+
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...new TextEncoder().encode("MaxMind.com")];
+// The metadata is always within the last 128 KiB of the file
+const METADATA_MAX_SIZE = 128 * 1024;
+// Zero bytes between the search tree and the data section
+const DATA_SECTION_SEPARATOR = 16;
+
+export type MmdbValue = string | number | bigint | boolean | Uint8Array | MmdbValue[] | { [key: string]: MmdbValue };
+
+export interface MmdbMetadata {
+  nodeCount: number;
+  /** Bits per search tree record: 24, 28 or 32 */
+  recordSize: number;
+  ipVersion: 4 | 6;
+  /** e.g. "GeoLite2-City" or "DBIP-ASN-Lite" */
+  databaseType: string;
+  /** Epoch seconds the file was built */
+  buildEpoch: number;
+}
+
+export class MmdbReader {
+  readonly metadata: MmdbMetadata;
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder();
+  private readonly treeSize: number;
+  /** Node holding ::0.0.0.0/96, where IPv4 lookups start in an IPv6 tree */
+  private ipv4Root: number | null = null;
+
+  constructor(buffer: ArrayBuffer) {
+    this.bytes = new Uint8Array(buffer);
+    this.view = new DataView(buffer);
+
+    const markerAt = this.findMetadataMarker();
+    if (markerAt < 0) throw new Error("Not a MaxMind DB file: metadata marker not found");
+    const metadataStart = markerAt + METADATA_MARKER.length;
+    const raw = this.decode(metadataStart, metadataStart)[0] as Record<string, MmdbValue>;
+
+    const recordSize = Number(raw.record_size);
+    if (![24, 28, 32].includes(recordSize)) throw new Error(`Unsupported MaxMind DB record size ${raw.record_size}`);
+    const ipVersion = Number(raw.ip_version);
+    if (ipVersion !== 4 && ipVersion !== 6) throw new Error(`Unsupported MaxMind DB IP version ${raw.ip_version}`);
+
+    this.metadata = {
+      nodeCount: Number(raw.node_count),
+      recordSize,
+      ipVersion: ipVersion as 4 | 6,
+      databaseType: String(raw.database_type ?? ""),
+      buildEpoch: Number(raw.build_epoch ?? 0),
+    };
+    this.treeSize = (this.metadata.nodeCount * recordSize * 2) / 8;
+    if (this.treeSize + DATA_SECTION_SEPARATOR > markerAt) throw new Error("MaxMind DB search tree is truncated");
+  }
+
+  /** The data stored for the network containing the address, or null when the file has none */
+  lookup(ip: string): MmdbValue | null {
+    const parsed = parseIP(ip);
+    if (!parsed) return null;
+    if (parsed.version === 6 && this.metadata.ipVersion === 4) return null;
+
+    const bits = parsed.version === 4 ? 32 : 128;
+    let node = parsed.version === 4 && this.metadata.ipVersion === 6 ? this.findIPv4Root() : 0;
+    for (let bit = bits - 1; bit >= 0 && node < this.metadata.nodeCount; bit--) {
+      node = this.readRecord(node, Number((parsed.value >> BigInt(bit)) & 1n));
+    }
+    return this.resolve(node);
+  }
+
+  private findIPv4Root(): number {
+    if (this.ipv4Root === null) {
+      let node = 0;
+      for (let i = 0; i < 96 && node < this.metadata.nodeCount; i++) node = this.readRecord(node, 0);
+      this.ipv4Root = node;
+    }
+    return this.ipv4Root;
+  }
+
+  private resolve(record: number): MmdbValue | null {
+    const { nodeCount } = this.metadata;
+    if (record <= nodeCount) return null;
+    // Records past the node count point into the data section, counted from the end of the tree
+    const offset = this.treeSize + record - nodeCount;
+    return this.decode(offset, this.treeSize + DATA_SECTION_SEPARATOR)[0];
+  }
+
+  private readRecord(node: number, bit: number): number {
+    const { recordSize } = this.metadata;
+    const offset = (node * recordSize * 2) / 8;
+    const bytes = this.bytes;
+
+    if (recordSize === 24) {
+      const at = offset + bit * 3;
+      return (bytes[at] << 16) | (bytes[at + 1] << 8) | bytes[at + 2];
+    }
+    if (recordSize === 28) {
+      // The middle byte holds the high nibble of both records
+      const middle = bytes[offset + 3];
+      const high = bit === 0 ? middle >> 4 : middle & 0x0f;
+      const at = offset + bit * 4;
+      return high * 0x1000000 + ((bytes[at] << 16) | (bytes[at + 1] << 8) | bytes[at + 2]);
+    }
+    return this.view.getUint32(offset + bit * 4);
+  }
+
+  private findMetadataMarker(): number {
+    const stop = Math.max(0, this.bytes.length - METADATA_MAX_SIZE);
+    for (let start = this.bytes.length - METADATA_MARKER.length; start >= stop; start--) {
+      if (METADATA_MARKER.every((byte, i) => this.bytes[start + i] === byte)) return start;
+    }
+    return -1;
+  }
+
+  private readUint(offset: number, size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + this.bytes[offset + i];
+    return value;
+  }
+
+  private readBigUint(offset: number, size: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(this.bytes[offset + i]);
+    return value;
+  }
+
+  // Decodes the field at offset; pointers are relative to base. Returns the value and the next offset.
+  private decode(offset: number, base: number): [MmdbValue, number] {
+    const control = this.bytes[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      const pointerSize = ((control >> 3) & 0x3) + 1;
+      const high = control & 0x7;
+      const low = this.readUint(offset, pointerSize);
+      const target =
+        pointerSize === 1
+          ? high * 0x100 + low
+          : pointerSize === 2
+            ? high * 0x10000 + low + 2048
+            : pointerSize === 3
+              ? high * 0x1000000 + low + 526336
+              : low;
+      return [this.decode(base + target, base)[0], offset + pointerSize];
+    }
+
+    if (type === 0) type = 7 + this.bytes[offset++];
+
+    let size = control & 0x1f;
+    if (size >= 29) {
+      const extra = size - 28;
+      size = [29, 285, 65821][extra - 1] + this.readUint(offset, extra);
+      offset += extra;
+    }
+
+    switch (type) {
+      case 2:
+        return [this.decoder.decode(this.bytes.subarray(offset, offset + size)), offset + size];
+      case 3:
+        return [this.view.getFloat64(offset), offset + 8];
+      case 4:
+        return [this.bytes.slice(offset, offset + size), offset + size];
+      case 5:
+      case 6:
+        return [this.readUint(offset, size), offset + size];
+      case 7: {
+        const map: Record<string, MmdbValue> = {};
+        for (let i = 0; i < size; i++) {
+          const [key, valueAt] = this.decode(offset, base);
+          const [value, next] = this.decode(valueAt, base);
+          map[String(key)] = value;
+          offset = next;
+        }
+        return [map, offset];
+      }
+      case 8:
+        // Two's complement; leading zero bytes may be left out
+        return [this.readUint(offset, size) | 0, offset + size];
+      case 9:
+      case 10:
+        return [this.readBigUint(offset, size), offset + size];
+      case 11: {
+        const array: MmdbValue[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, next] = this.decode(offset, base);
+          array.push(value);
+          offset = next;
+        }
+        return [array, offset];
+      }
+      case 14:
+        return [size !== 0, offset];
+      case 15:
+        return [this.view.getFloat32(offset), offset + 4];
+      default:
+        throw new Error(`Unsupported MaxMind DB data type ${type} at byte ${offset - 1}`);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createRateLimiter", () => {
+  it("spaces task starts evenly at the given rate, in scheduling order", async () => {
+    const schedule = createRateLimiter(4);
+    const started: [string, number][] = [];
+    const startAt = Date.now();
+    const run = (name: string) =>
+      schedule(async () => {
+        started.push([name, Date.now() - startAt]);
+        return name;
+      });
+
+    const results = Promise.all([run("a"), run("b"), run("c")]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([["a", 0]]);
+
+    await vi.advanceTimersByTimeAsync(249);
+    expect(started).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([
+      ["a", 0],
+      ["b", 250],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(started.map(([, at]) => at)).toEqual([0, 250, 500]);
+    await expect(results).resolves.toEqual(["a", "b", "c"]);
+  });
+
+  it("starts at once after an idle period", async () => {
+    const schedule = createRateLimiter(2);
+    const task = vi.fn(async () => undefined);
+
+    await schedule(task);
+    await vi.advanceTimersByTimeAsync(2000);
+    const second = schedule(task);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(2);
+    await second;
+  });
+});
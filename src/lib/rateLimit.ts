@@ -0,0 +1,15 @@
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Starts scheduled tasks at most `perSecond` times a second, in the order they were scheduled
+export function createRateLimiter(perSecond: number) {
+  const interval = 1000 / perSecond;
+  let nextStart = 0;
+
+  return async function schedule<T>(task: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const start = Math.max(now, nextStart);
+    nextStart = start + interval;
+    if (start > now) await wait(start - now);
+    return task();
+  };
+}
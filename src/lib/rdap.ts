@@ -0,0 +1,91 @@
+import { WhoisContact, WhoisRecord } from "@/types/whois";
+
+// Just the parts of an RDAP "ip network" response (RFC 9083) the dashboard shows
+
+type VCardProperty = [name: string, params: Record<string, unknown>, type: string, value: unknown];
+
+interface RdapEntity {
+  handle?: string;
+  roles?: string[];
+  vcardArray?: [string, VCardProperty[]];
+  entities?: RdapEntity[];
+}
+
+interface RdapIPNetwork {
+  handle?: string;
+  name?: string;
+  type?: string;
+  startAddress?: string;
+  endAddress?: string;
+  country?: string;
+  parentHandle?: string;
+  status?: string[];
+  entities?: RdapEntity[];
+  events?: { eventAction: string; eventDate: string }[];
+  remarks?: { title?: string; description?: string[] }[];
+  cidr0_cidrs?: { v4prefix?: string; v6prefix?: string; length: number }[];
+  /** ARIN's origin AS extension */
+  arin_originas0_originautnums?: number[];
+}
+
+function vcardText(properties: VCardProperty[], name: string): string | undefined {
+  const property = properties.find(([key]) => key === name);
+  if (!property) return undefined;
+  const [, params, , value] = property;
+  // Structured addresses carry a ready-made label; otherwise join the non-empty parts
+  if (name === "adr" && typeof params.label === "string") return params.label.replace(/\n/g, ", ");
+  if (Array.isArray(value)) return value.flat().filter(Boolean).join(", ") || undefined;
+  return typeof value === "string" ? value.replace(/^(tel|mailto):/, "") : undefined;
+}
+
+// Contacts are often nested, e.g. the abuse contact inside the registrant
+function collectContacts(entities: RdapEntity[] = [], contacts: WhoisContact[] = []): WhoisContact[] {
+  for (const entity of entities) {
+    const properties = entity.vcardArray?.[1] ?? [];
+    contacts.push({
+      handle: entity.handle,
+      name: vcardText(properties, "fn"),
+      roles: entity.roles ?? [],
+      email: vcardText(properties, "email"),
+      phone: vcardText(properties, "tel"),
+      address: vcardText(properties, "adr"),
+    });
+    collectContacts(entity.entities, contacts);
+  }
+  return contacts;
+}
+
+export function parseRdapIPNetwork(ip: string, body: unknown, source: string): WhoisRecord {
+  if (!body || typeof body !== "object") throw new Error("RDAP response is not a JSON object");
+  const network = body as RdapIPNetwork;
+
+  const contacts = collectContacts(network.entities);
+  // Abuse contacts first, since that is usually why the lookup was made
+  contacts.sort((a, b) => Number(b.roles.includes("abuse")) - Number(a.roles.includes("abuse")));
+
+  return {
+    query: ip,
+    handle: network.handle,
+    name: network.name,
+    type: network.type,
+    startAddress: network.startAddress,
+    endAddress: network.endAddress,
+    cidrs: (network.cidr0_cidrs ?? []).map((cidr) => `${cidr.v4prefix ?? cidr.v6prefix}/${cidr.length}`),
+    country: network.country,
+    originASNs: (network.arin_originas0_originautnums ?? []).map((asn) => `AS${asn}`),
+    parentHandle: network.parentHandle,
+    status: network.status ?? [],
+    contacts,
+    events: (network.events ?? []).map((event) => ({ action: event.eventAction, date: event.eventDate })),
+    remarks: (network.remarks ?? []).flatMap((remark) =>
+      [remark.title, ...(remark.description ?? [])].filter(Boolean)
+    ),
+    source,
+    raw: body,
+  };
+}
+
+// The abuse mailbox to send a report to, if the registry published one
+export function abuseContact(record: WhoisRecord): WhoisContact | undefined {
+  return record.contacts.find((contact) => contact.roles.includes("abuse") && contact.email);
+}
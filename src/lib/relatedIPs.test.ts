@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { findRelatedIPs } from "./relatedIPs";
+
+const row = (IP: string, ASN = "AS64500") => ({ ...FIXTURE_IP_DATA[0], IP, ASN });
+
+describe("findRelatedIPs", () => {
+  const records = [row("2001:db8::1"), row("2001:db8::2", "64500"), row("2001:db8:1::9", "AS1"), row("10.0.0.1", "AS1")];
+
+  it("finds the IP however its IPv6 address is spelled", () => {
+    const related = findRelatedIPs(records, "2001:DB8:0::1");
+    expect(related.asn).toBe("AS64500");
+    expect(related.sameAsn.map((record) => record.IP)).toEqual(["2001:db8::2"]);
+    expect(related.sameSubnet.map((record) => record.IP)).toEqual(["2001:db8::2"]);
+  });
+
+  it("does not list the IP itself under another spelling", () => {
+    const related = findRelatedIPs([...records, row("2001:0db8::0001")], "2001:db8::1");
+    expect(related.sameSubnet.map((record) => record.IP)).toEqual(["2001:db8::2"]);
+  });
+});
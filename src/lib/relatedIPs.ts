@@ -0,0 +1,36 @@
+import { IPData } from "@/types/ipData";
+import { IPRange, ipInRange, networkOf, normalizeIP, parseCIDR } from "./ipAddress";
+import { asnKey } from "./asn";
+
+// Neighbourhood used for "same subnet": a /24 for IPv4, a /64 for IPv6
+const SUBNET_PREFIX = { 4: 24, 6: 64 };
+
+export function subnetOf(ip: string): string | null {
+  return networkOf(ip, ip.includes(":") ? SUBNET_PREFIX[6] : SUBNET_PREFIX[4]);
+}
+
+function uniqueByIP(records: IPData[]): IPData[] {
+  const seen = new Set<string>();
+  return records.filter((record) => {
+    const key = normalizeIP(record.IP);
+    return !seen.has(key) && seen.add(key);
+  });
+}
+
+// Other IPs announced by the same ASN or sitting in the same subnet
+export function findRelatedIPs(records: IPData[], ip: string) {
+  const key = normalizeIP(ip);
+  const own = records.find((record) => normalizeIP(record.IP) === key);
+  const ownAsn = own ? asnKey(own.ASN) : "-";
+  const asn = ownAsn !== "-" ? ownAsn : null;
+  const subnet = subnetOf(ip);
+  const range: IPRange | null = subnet ? parseCIDR(subnet) : null;
+  const others = records.filter((record) => normalizeIP(record.IP) !== key);
+
+  return {
+    asn,
+    subnet,
+    sameAsn: asn ? uniqueByIP(others.filter((record) => asnKey(record.ASN) === asn)) : [],
+    sameSubnet: range ? uniqueByIP(others.filter((record) => ipInRange(record.IP, range))) : [],
+  };
+}
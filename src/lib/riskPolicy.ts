@@ -0,0 +1,57 @@
+import { RiskColor, RiskPolicy, RiskTier } from "@/types/riskPolicy";
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  tiers: [
+    { id: "high", label: "High Risk", minScore: 75, color: "danger", highRisk: true },
+    { id: "medium", label: "Medium Risk", minScore: 50, color: "warning", highRisk: false },
+    { id: "low", label: "Low Risk", minScore: 25, color: "primary", highRisk: false },
+    { id: "clean", label: "Clean", minScore: 0, color: "success", highRisk: false },
+  ],
+  weights: {
+    abuse: 40,
+    reports: 15,
+    hits: 15,
+    recency: 15,
+    usage: 10,
+    activity: 5,
+  },
+};
+
+export const RISK_COLORS: Record<RiskColor, { label: string; text: string; bg: string; fill: string }> = {
+  danger: { label: "Red", text: "text-danger", bg: "bg-danger", fill: "hsl(var(--danger))" },
+  warning: { label: "Amber", text: "text-warning", bg: "bg-warning", fill: "hsl(var(--warning))" },
+  primary: { label: "Blue", text: "text-primary", bg: "bg-primary", fill: "hsl(var(--primary))" },
+  success: { label: "Green", text: "text-success", bg: "bg-success", fill: "hsl(var(--success))" },
+};
+
+export function tierFor(score: number, policy: RiskPolicy): RiskTier {
+  return policy.tiers.find((tier) => score >= tier.minScore) ?? policy.tiers[policy.tiers.length - 1];
+}
+
+export function isHighRisk(score: number, policy: RiskPolicy): boolean {
+  return tierFor(score, policy).highRisk;
+}
+
+// Returns the problems that would make the policy ambiguous, or an empty list
+export function validateRiskPolicy(policy: RiskPolicy): string[] {
+  const errors: string[] = [];
+  const { tiers } = policy;
+
+  if (tiers.length === 0) return ["Define at least one tier"];
+  tiers.forEach((tier, index) => {
+    if (!tier.label.trim()) errors.push(`Tier ${index + 1} needs a name`);
+    if (!Number.isInteger(tier.minScore) || tier.minScore < 0 || tier.minScore > 100) {
+      errors.push(`${tier.label || `Tier ${index + 1}`}: threshold must be a whole number from 0 to 100`);
+    }
+    if (index > 0 && tier.minScore >= tiers[index - 1].minScore) {
+      errors.push(`${tier.label || `Tier ${index + 1}`}: threshold must be below ${tiers[index - 1].minScore}`);
+    }
+  });
+  if (tiers[tiers.length - 1].minScore !== 0) errors.push("The lowest tier must start at 0");
+
+  const weights = Object.values(policy.weights ?? {});
+  if (weights.some((weight) => !(weight >= 0))) errors.push("Weights cannot be negative");
+  else if (!weights.some((weight) => weight > 0)) errors.push("At least one weight must be above 0");
+
+  return errors;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { toAggregatedRows } from "./aggregate";
+import { compileSearchQuery } from "./searchQuery";
+
+const records = toAggregatedRows(
+  ["US", "Russia", "Australia", "Indonesia", "Trinidad and Tobago", "United Kingdom", "Narnia"].map((Country, i) => ({
+    ...FIXTURE_IP_DATA[0],
+    IP: `10.0.0.${i + 1}`,
+    Country,
+  }))
+);
+
+const countriesMatching = (query: string) => records.filter(compileSearchQuery(query)).map((record) => record.Country);
+
+describe("country search", () => {
+  it("matches a two-letter code exactly, not inside other codes or names", () => {
+    expect(countriesMatching("country:US")).toEqual(["US"]);
+    expect(countriesMatching("country:ID")).toEqual(["Indonesia"]);
+  });
+
+  it("matches alpha-3 codes and names by the country they stand for", () => {
+    expect(countriesMatching("country:IDN")).toEqual(["Indonesia"]);
+    expect(countriesMatching("country:RUS")).toEqual(["Russia"]);
+    expect(countriesMatching('"country:united states"')).toEqual(["US"]);
+    expect(countriesMatching("-country:US")).not.toContain("US");
+  });
+
+  it("falls back to a substring of the full name for text that is not a country", () => {
+    expect(countriesMatching("country:united")).toEqual(["US", "United Kingdom"]);
+    expect(countriesMatching("country:tobago")).toEqual(["Trinidad and Tobago"]);
+    expect(countriesMatching("country:narn")).toEqual(["Narnia"]);
+  });
+});
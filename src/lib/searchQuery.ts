@@ -0,0 +1,298 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { facetValues, reportedDay } from "./facets";
+import { countryCode, normalizeCountry } from "./countries";
+import { IPRange, ipInRange, normalizeIP, parseIPMatcher } from "./ipAddress";
+
+// Search box syntax, e.g.
+//   score>=80 country:ID asn:AS7713 action:blocked -isp:google "jenis:brute force"
+// Terms are ANDed. A leading "-" negates a term. "field:value" matches by substring
+// ("=" for an exact match); numeric and date fields also accept > >= < <=.
+// Anything without a field searches IP, ISP and Domain. An IP term may also be a
+// CIDR block (10.0.0.0/8, 2001:db8::/32) or a range (10.0.0.1-10.0.0.50).
+
+export type SearchOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+type FieldKind = "text" | "number" | "date";
+
+interface FieldDefinition {
+  kind: FieldKind;
+  description: string;
+  values: (record: AggregatedIPData) => (string | number)[];
+}
+
+// Every spelling of the record's country, offered as suggestions
+function countryValues(value: string): string[] {
+  const country = normalizeCountry(value);
+  return country ? [country.code, country.alpha3, country.name, value] : [value || "-"];
+}
+
+export const SEARCH_FIELDS: Record<string, FieldDefinition> = {
+  ip: { kind: "text", description: "IP address, CIDR block or range", values: (r) => [r.IP] },
+  country: { kind: "text", description: "Country name or ISO code", values: (r) => countryValues(r.Country) },
+  region: { kind: "text", description: "Region, e.g. Asia or Europe", values: (r) => facetValues(r, "region") },
+  city: { kind: "text", description: "City", values: (r) => facetValues(r, "City") },
+  isp: { kind: "text", description: "ISP", values: (r) => facetValues(r, "ISP") },
+  asn: { kind: "text", description: "Autonomous system", values: (r) => facetValues(r, "ASN") },
+  domain: { kind: "text", description: "Domain name", values: (r) => [r.Domain] },
+  usage: { kind: "text", description: "Usage type", values: (r) => facetValues(r, "UsageType") },
+  jenis: { kind: "text", description: "Jenis Aktivitas (activity)", values: (r) => facetValues(r, "JenisAktivitas") },
+  action: { kind: "text", description: "blocked or alerted", values: (r) => facetValues(r, "Action") },
+  score: { kind: "number", description: "Abuse confidence score", values: (r) => [r.AbuseConfidenceScore] },
+  composite: { kind: "number", description: "Composite risk score", values: (r) => [r.compositeScore ?? 0] },
+  reports: { kind: "number", description: "Total reports", values: (r) => [r.TotalReports] },
+  count: { kind: "number", description: "Count of our own hits", values: (r) => [r.Count] },
+  tag: { kind: "text", description: "Analyst tag", values: (r) => facetValues(r, "tags") },
+  status: { kind: "text", description: "Triage status", values: (r) => facetValues(r, "triageStatus") },
+  assignee: { kind: "text", description: "Assigned analyst", values: (r) => facetValues(r, "assignee") },
+  reported: { kind: "date", description: "Last reported (YYYY-MM-DD)", values: (r) => [reportedDay(r) ?? ""] },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  activity: "jenis",
+  usagetype: "usage",
+  lastreported: "reported",
+  risk: "composite",
+};
+
+export interface SearchTerm {
+  negate: boolean;
+  /** Canonical field name, or null for free text */
+  field: string | null;
+  operator: SearchOperator;
+  value: string;
+  start: number;
+  end: number;
+  /** Set when the value is a CIDR block or an address range */
+  range?: IPRange;
+}
+
+export interface SearchError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearch {
+  terms: SearchTerm[];
+  errors: SearchError[];
+}
+
+export interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const TERM = /^([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/;
+// IPv6 addresses such as fe80::1 look like "field:value" but are plain text searches
+const LOOKS_LIKE_IP = /^[0-9a-f:.]+(\/\d+|-[0-9a-f:.]+)?$/i;
+// Address-shaped text with a prefix length or a second address, e.g. 10.0.0.0/8 or 10.0.0.1-10.0.0.9
+const LOOKS_LIKE_IP_RANGE = /^[0-9a-f:.]*[.:][0-9a-f:.]*(\/\d*|-[0-9a-f:.]*[.:][0-9a-f:.]*)$/i;
+
+// Parses CIDR and range values, leaving plain addresses to substring matching
+function parseRangeValue(value: string): { range?: IPRange; error?: string } {
+  if (!LOOKS_LIKE_IP_RANGE.test(value)) return {};
+  const range = parseIPMatcher(value);
+  if (range) return { range };
+  return { error: value.includes("/") ? `Invalid CIDR block "${value}"` : `Invalid IP range "${value}"` };
+}
+
+export function resolveField(name: string): string | null {
+  const key = name.toLowerCase();
+  const canonical = FIELD_ALIASES[key] ?? key;
+  return canonical in SEARCH_FIELDS ? canonical : null;
+}
+
+// Splits on whitespace outside double quotes, keeping source positions
+export function tokenize(input: string): { tokens: RawToken[]; errors: SearchError[] } {
+  const tokens: RawToken[] = [];
+  const errors: SearchError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let inQuotes = false;
+    while (i < input.length && (inQuotes || !/\s/.test(input[i]))) {
+      if (input[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+
+    tokens.push({ text: input.slice(start, i), start, end: i });
+    if (inQuotes) errors.push({ message: "Missing closing quote", start, end: i });
+  }
+
+  return { tokens, errors };
+}
+
+const unquote = (text: string) => text.replace(/^"(.*)"$/s, "$1").replace(/"/g, "");
+
+export function parseSearchQuery(input: string): ParsedSearch {
+  const { tokens, errors } = tokenize(input);
+  const terms: SearchTerm[] = [];
+
+  for (const { text, start, end } of tokens) {
+    const negate = text.length > 1 && text.startsWith("-");
+    // A fully quoted token such as "jenis:brute force" is parsed like its contents
+    const body = unquote(negate ? text.slice(1) : text);
+    const match = TERM.exec(body);
+    const error = (message: string) => errors.push({ message, start, end });
+
+    if (!match || (!resolveField(match[1]) && LOOKS_LIKE_IP.test(body))) {
+      if (!body) continue;
+      const { range, error: rangeError } = parseRangeValue(body);
+      if (rangeError) error(rangeError);
+      else terms.push({ negate, field: null, operator: ":", value: body, start, end, range });
+      continue;
+    }
+
+    const [, name, operator, rawValue] = match;
+    const field = resolveField(name);
+    const value = unquote(rawValue).trim();
+
+    if (!field) {
+      error(`Unknown field "${name}"`);
+    } else if (!value) {
+      error(`Missing value for ${field}`);
+    } else if (SEARCH_FIELDS[field].kind === "text" && operator !== ":" && operator !== "=") {
+      error(`${field} only supports ":" and "="`);
+    } else if (SEARCH_FIELDS[field].kind === "number" && isNaN(Number(value))) {
+      error(`${field} needs a number`);
+    } else if (SEARCH_FIELDS[field].kind === "date" && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+      error(`${field} needs a date like 2025-01-31`);
+    } else if (field === "ip") {
+      const { range, error: rangeError } = parseRangeValue(value);
+      if (rangeError) error(rangeError);
+      else terms.push({ negate, field, operator: operator as SearchOperator, value, start, end, range });
+    } else {
+      terms.push({ negate, field, operator: operator as SearchOperator, value, start, end });
+    }
+  }
+
+  return { terms, errors };
+}
+
+function compare(actual: string | number, operator: SearchOperator, expected: string | number): boolean {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+// country:ID, country:IDN and country:indonesia match by ISO code, so ID is not found inside "Trinidad";
+// text that is not a known country matches within the country name instead
+function matchesCountry(value: string, term: SearchTerm): boolean {
+  const wanted = normalizeCountry(term.value);
+  if (wanted) return countryCode(value) === wanted.code;
+
+  const name = (normalizeCountry(value)?.name ?? value).toLowerCase();
+  const expected = term.value.toLowerCase();
+  return term.operator === "=" ? name === expected : name.includes(expected);
+}
+
+function matchesTerm(record: AggregatedIPData, term: SearchTerm): boolean {
+  if (term.range) return ipInRange(record.IP, term.range);
+  if (term.field === "ip" && term.operator === "=") return normalizeIP(record.IP) === normalizeIP(term.value);
+
+  if (!term.field) {
+    const needle = term.value.toLowerCase();
+    return (
+      record.IP.includes(term.value) ||
+      normalizeIP(record.IP) === normalizeIP(term.value) ||
+      record.ISP.toLowerCase().includes(needle) ||
+      record.Domain.toLowerCase().includes(needle)
+    );
+  }
+
+  if (term.field === "country") return matchesCountry(record.Country, term);
+
+  const { kind, values } = SEARCH_FIELDS[term.field];
+  return values(record).some((value) => {
+    if (kind === "number") return compare(Number(value), term.operator, Number(term.value));
+    if (kind === "date") {
+      const day = String(value);
+      if (!day) return false;
+      // "reported:2025-01" matches the whole month
+      return term.operator === ":" ? day.startsWith(term.value) : compare(day, term.operator, term.value);
+    }
+    const text = String(value).toLowerCase();
+    const expected = term.value.toLowerCase();
+    return term.operator === "=" ? text === expected : text.includes(expected);
+  });
+}
+
+// Terms with errors are skipped, so a half-typed query still filters by what is valid
+export function compileSearchQuery(query: string): (record: AggregatedIPData) => boolean {
+  const { terms } = parseSearchQuery(query);
+  if (terms.length === 0) return () => true;
+  return (record) => terms.every((term) => matchesTerm(record, term) !== term.negate);
+}
+
+export interface SearchSuggestion {
+  /** Text shown in the list */
+  label: string;
+  description?: string;
+  /** Replacement for the token under the cursor */
+  insert: string;
+}
+
+// Suggests field names, or known values once a field and ":" have been typed
+export function getSuggestions(
+  input: string,
+  cursor: number,
+  records: AggregatedIPData[],
+  limit = 8
+): { token: RawToken; suggestions: SearchSuggestion[] } {
+  const token = tokenize(input.slice(0, cursor)).tokens.find((t) => t.end === cursor) ?? {
+    text: "",
+    start: cursor,
+    end: cursor,
+  };
+  const negate = token.text.startsWith("-") ? "-" : "";
+  const body = token.text.slice(negate.length).replace(/^"/, "");
+  const match = TERM.exec(body);
+
+  if (!match) {
+    const prefix = body.toLowerCase();
+    const suggestions = Object.entries(SEARCH_FIELDS)
+      .filter(([name]) => name.startsWith(prefix))
+      .map(([name, { description }]) => ({ label: `${name}:`, description, insert: `${negate}${name}:` }));
+    return { token, suggestions };
+  }
+
+  const [, name, operator, rawValue] = match;
+  const field = resolveField(name);
+  if (!field || SEARCH_FIELDS[field].kind !== "text") return { token, suggestions: [] };
+
+  const prefix = unquote(rawValue).toLowerCase();
+  const known = new Set<string>();
+  for (const record of records) {
+    for (const value of SEARCH_FIELDS[field].values(record)) {
+      const text = String(value);
+      if (text && text !== "-" && text.toLowerCase().includes(prefix)) known.add(text);
+    }
+    if (known.size >= limit * 4) break;
+  }
+
+  const suggestions = [...known]
+    .sort((a, b) => a.localeCompare(b))
+    .slice(0, limit)
+    .map((value) => {
+      const term = `${field}${operator}${value}`;
+      return { label: value, insert: `${negate}${/\s/.test(value) ? `"${term}"` : term} ` };
+    });
+
+  return { token, suggestions };
+}
@@ -0,0 +1,41 @@
+import { AggregatedIPData } from "@/types/ipData";
+import { parseReportedAt } from "./dates";
+import { compareIPs } from "./ipAddress";
+
+export type SortKey = "default" | "ip" | "score" | "composite" | "reports" | "count" | "reported";
+
+export const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: "default", label: "Sheet order" },
+  { key: "ip", label: "IP address" },
+  { key: "score", label: "Highest score" },
+  { key: "composite", label: "Highest composite risk" },
+  { key: "reports", label: "Most reports" },
+  { key: "count", label: "Highest count" },
+  { key: "reported", label: "Recently reported" },
+];
+
+export const isSortKey = (value: string | null): value is SortKey =>
+  SORT_OPTIONS.some(({ key }) => key === value);
+
+const reportedTime = (record: AggregatedIPData) => parseReportedAt(record.LastReportedAt)?.getTime() ?? 0;
+
+const COMPARATORS: Record<Exclude<SortKey, "default">, (a: AggregatedIPData, b: AggregatedIPData) => number> = {
+  // Numeric, so 10.0.0.9 comes before 10.0.0.10
+  ip: (a, b) => compareIPs(a.IP, b.IP),
+  score: (a, b) => b.AbuseConfidenceScore - a.AbuseConfidenceScore,
+  composite: (a, b) => (b.compositeScore ?? 0) - (a.compositeScore ?? 0),
+  reports: (a, b) => b.TotalReports - a.TotalReports,
+  count: (a, b) => b.Count - a.Count,
+  reported: (a, b) => reportedTime(b) - reportedTime(a),
+};
+
+// Watched IPs stay on top; the sort still applies within each group
+export function pinWatched(records: AggregatedIPData[]): AggregatedIPData[] {
+  const watched = records.filter((record) => record.annotation?.watched);
+  return watched.length === 0 ? records : [...watched, ...records.filter((record) => !record.annotation?.watched)];
+}
+
+export function sortRecords(records: AggregatedIPData[], key: SortKey): AggregatedIPData[] {
+  if (key === "default") return records;
+  return [...records].sort(COMPARATORS[key]);
+}
@@ -0,0 +1,101 @@
+import { AlertEvent } from "@/types/alerts";
+import { WebhookEndpoint, WebhookFormat } from "@/types/webhooks";
+
+export const WEBHOOK_FORMAT_LABELS: Record<WebhookFormat, string> = {
+  slack: "Slack (incoming webhook)",
+  teams: "Microsoft Teams (connector card)",
+  generic: "Generic JSON",
+  custom: "Custom template",
+};
+
+export const TEMPLATE_PLACEHOLDERS = ["title", "message", "ip", "rule", "firedAt", "url"] as const;
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "text": "{{title}}: {{message}}",
+  "ip": "{{ip}}",
+  "link": "{{url}}"
+}`;
+
+// Where receivers can link back to; the IP detail page when the alert is about one IP
+function alertUrl(event: AlertEvent): string {
+  const origin = typeof window !== "undefined" ? window.location.origin : "";
+  return event.ip ? `${origin}/ip/${encodeURIComponent(event.ip)}` : `${origin}/`;
+}
+
+// Placeholders are replaced with JSON-escaped text, so they belong inside string literals: "{{title}}"
+export function renderWebhookTemplate(template: string, event: AlertEvent): unknown {
+  const values: Record<(typeof TEMPLATE_PLACEHOLDERS)[number], string> = {
+    title: event.title,
+    message: event.message,
+    ip: event.ip ?? "",
+    rule: event.ruleName,
+    firedAt: new Date(event.firedAt).toISOString(),
+    url: alertUrl(event),
+  };
+  const rendered = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in values ? JSON.stringify(values[name as keyof typeof values]).slice(1, -1) : placeholder
+  );
+  try {
+    return JSON.parse(rendered);
+  } catch (error) {
+    throw new Error(`Webhook template is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+export function buildWebhookPayload(endpoint: Pick<WebhookEndpoint, "format" | "template">, event: AlertEvent): unknown {
+  const url = alertUrl(event);
+  const firedAt = new Date(event.firedAt).toISOString();
+
+  switch (endpoint.format) {
+    case "slack":
+      return {
+        text: `${event.title}: ${event.message}`,
+        blocks: [
+          { type: "header", text: { type: "plain_text", text: event.title } },
+          { type: "section", text: { type: "mrkdwn", text: `${event.message}\n<${url}|Open in dashboard>` } },
+          { type: "context", elements: [{ type: "mrkdwn", text: `${event.ruleName} • ${firedAt}` }] },
+        ],
+      };
+    case "teams":
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: event.title,
+        themeColor: "D7263D",
+        title: event.title,
+        text: event.message,
+        sections: [{ facts: [{ name: "Rule", value: event.ruleName }, { name: "Fired at", value: firedAt }] }],
+        potentialAction: [{ "@type": "OpenUri", name: "Open in dashboard", targets: [{ os: "default", uri: url }] }],
+      };
+    case "generic":
+      return {
+        type: "ip-dashboard.alert",
+        alert: {
+          id: event.id,
+          rule: { id: event.ruleId, name: event.ruleName },
+          title: event.title,
+          message: event.message,
+          ip: event.ip ?? null,
+          firedAt,
+          url,
+        },
+      };
+    case "custom":
+      return renderWebhookTemplate(endpoint.template || DEFAULT_WEBHOOK_TEMPLATE, event);
+  }
+}
+
+// A fake alert for the "Send test" button
+export function testAlertEvent(): AlertEvent {
+  const now = Date.now();
+  return {
+    id: `test-${now}`,
+    ruleId: "test",
+    ruleName: "Test message",
+    key: "test",
+    title: "Test alert from the IP threat dashboard",
+    message: "If you can read this, the webhook is configured correctly.",
+    firedAt: now,
+    acknowledged: true,
+  };
+}
@@ -0,0 +1,203 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Link2 } from "lucide-react";
+import { toast } from "sonner";
+import { IPData } from "@/types/ipData";
+import { useIPData, SNAPSHOT_QUERY_KEY } from "@/hooks/use-ip-data";
+import { useEnrichedRecords } from "@/hooks/use-enrichment";
+import { getIPHistory } from "@/services/snapshotStore";
+import { findRelatedIPs } from "@/lib/relatedIPs";
+import { mergeRows } from "@/lib/aggregate";
+import { normalizeIP } from "@/lib/ipAddress";
+import { PageLayout } from "@/components/PageLayout";
+import { IPInfoCard } from "@/components/IPInfoCard";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const historyChartConfig = {
+  AbuseConfidenceScore: { label: "Score (%)", color: "hsl(var(--danger))" },
+  TotalReports: { label: "Total reports", color: "hsl(var(--primary))" },
+  Count: { label: "Count", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+const IPDetail = () => {
+  const { address = "" } = useParams();
+  const { data: result, isPending, dataSource, offlineSnapshot } = useIPData();
+  const { records } = useEnrichedRecords(result?.records ?? offlineSnapshot?.records);
+
+  // Links may spell an IPv6 address differently from the sheet (2001:DB8:0::1 vs 2001:db8::1)
+  const rows = useMemo(() => {
+    const ip = normalizeIP(address);
+    return (records ?? []).filter((record) => normalizeIP(record.IP) === ip);
+  }, [records, address]);
+  const related = useMemo(() => findRelatedIPs(records ?? [], address), [records, address]);
+  const primary = useMemo(() => (rows.length > 0 ? mergeRows(rows) : null), [rows]);
+
+  const history = useQuery({
+    queryKey: [SNAPSHOT_QUERY_KEY, dataSource.id, "ip", address],
+    queryFn: () => getIPHistory(dataSource.id, address),
+  });
+
+  const handleCopyLink = async () => {
+    // navigator.clipboard is missing outside secure contexts, and writes can be denied
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Could not copy the link; copy it from the address bar instead");
+    }
+  };
+
+  return (
+    <PageLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" title="Back to dashboard">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h2 className="font-mono text-2xl font-semibold text-foreground">{address}</h2>
+            {primary && (
+              <Badge variant={primary.Action.toLowerCase() === "blocked" ? "destructive" : "outline"}>
+                {primary.Action.toUpperCase()}
+              </Badge>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy link
+          </Button>
+        </div>
+
+        {isPending && !records ? (
+          <Skeleton className="h-[400px] w-full rounded-lg" />
+        ) : !primary ? (
+          <div className="flex min-h-[120px] items-center justify-center rounded-lg border border-border">
+            <p className="text-muted-foreground">This IP is not in the current {dataSource.label} data.</p>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <IPInfoCard data={primary} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.data && history.data.length > 1 ? (
+                  <ChartContainer config={historyChartConfig} className="aspect-auto h-[300px] w-full">
+                    <LineChart data={history.data} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="takenAt"
+                        tickFormatter={(value) => new Date(value).toLocaleDateString("id-ID")}
+                        minTickGap={32}
+                      />
+                      <YAxis yAxisId="score" domain={[0, 100]} width={32} />
+                      <YAxis yAxisId="counts" orientation="right" width={48} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) =>
+                              new Date(payload[0]?.payload.takenAt).toLocaleString("id-ID")
+                            }
+                          />
+                        }
+                      />
+                      <Line yAxisId="score" dataKey="AbuseConfidenceScore" stroke="var(--color-AbuseConfidenceScore)" dot={false} />
+                      <Line yAxisId="counts" dataKey="TotalReports" stroke="var(--color-TotalReports)" dot={false} />
+                      <Line yAxisId="counts" dataKey="Count" stroke="var(--color-Count)" dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Not enough stored snapshots yet. History builds up as the dashboard refreshes.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Sheet rows ({rows.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Jenis Aktivitas</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Reports</TableHead>
+                    <TableHead>Last reported</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={`${row.JenisAktivitas}-${index}`}>
+                      <TableCell>{row.JenisAktivitas || "-"}</TableCell>
+                      <TableCell className="text-right">{row.Count}</TableCell>
+                      <TableCell className="text-right">{row.AbuseConfidenceScore}%</TableCell>
+                      <TableCell className="text-right">{row.TotalReports.toLocaleString()}</TableCell>
+                      <TableCell>{row.LastReportedAt || "-"}</TableCell>
+                      <TableCell>{row.Action}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {primary && (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <RelatedList title={`Same ASN${related.asn ? ` (${related.asn})` : ""}`} records={related.sameAsn} />
+            <RelatedList title={`Same subnet${related.subnet ? ` (${related.subnet})` : ""}`} records={related.sameSubnet} />
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+function RelatedList({ title, records }: { title: string; records: IPData[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No related IPs in the current data.</p>
+        ) : (
+          <ul className="space-y-2">
+            {records.map((record) => (
+              <li key={record.IP} className="flex items-center justify-between text-sm">
+                <Link to={`/ip/${encodeURIComponent(record.IP)}`} className="font-mono text-primary hover:underline">
+                  {record.IP}
+                </Link>
+                <span className="text-muted-foreground">
+                  {record.AbuseConfidenceScore}% · {record.Action}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default IPDetail;
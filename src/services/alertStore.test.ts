@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AlertEvent } from "@/types/alerts";
+import { isSnoozed } from "@/lib/alertRules";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const HOUR = 60 * 60 * 1000;
+const alert = (id: string, key: string): AlertEvent => ({
+  id,
+  ruleId: key.split("|")[0],
+  ruleName: "Rule",
+  key,
+  title: id,
+  message: "",
+  firedAt: Date.now(),
+  acknowledged: false,
+});
+
+// The alert state is cached per module, so each test starts from a fresh copy and empty storage
+async function loadStore() {
+  vi.resetModules();
+  return import("./alertStore");
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("alert snoozes", () => {
+  it("survive clearing and trimming the inbox, and a reload", async () => {
+    const store = await loadStore();
+    store.addAlerts([alert("a", "new|10.0.0.1"), alert("b", "new|10.0.0.2")]);
+    store.snoozeAlert("new|10.0.0.1", Date.now() + HOUR);
+    expect(store.loadAlertState().events.map((event) => event.acknowledged)).toEqual([true, false]);
+
+    store.addAlerts(Array.from({ length: store.ALERT_INBOX_LIMIT }, (_, i) => alert(`c${i}`, "burst|AS7713")));
+    expect(store.loadAlertState().events.some((event) => event.key === "new|10.0.0.1")).toBe(false);
+    store.clearAlerts();
+
+    const reloaded = await loadStore();
+    expect(isSnoozed(reloaded.loadAlertState().snoozes, "new|10.0.0.1")).toBe(true);
+    reloaded.unsnoozeAlert("new|10.0.0.1");
+    expect(isSnoozed((await loadStore()).loadAlertState().snoozes, "new|10.0.0.1")).toBe(false);
+  });
+
+  it("takes over snoozes that earlier versions kept on inbox events", async () => {
+    const until = Date.now() + HOUR;
+    localStorage.setItem(
+      "ip-dashboard:alert-inbox",
+      JSON.stringify([{ ...alert("a", "new|10.0.0.1"), acknowledged: true, snoozedUntil: until }])
+    );
+    const state = (await loadStore()).loadAlertState();
+
+    expect(state.snoozes).toEqual({ "new|10.0.0.1": until });
+    expect(state.events[0]).not.toHaveProperty("snoozedUntil");
+    expect(JSON.parse(localStorage.getItem("ip-dashboard:alert-snoozes")!)).toEqual({ "new|10.0.0.1": until });
+  });
+});
@@ -0,0 +1,105 @@
+import { AlertEvent, AlertRule, AlertSnoozes } from "@/types/alerts";
+import { DEFAULT_ALERT_RULES, updateSnoozes } from "@/lib/alertRules";
+
+const RULES_KEY = "ip-dashboard:alert-rules";
+const INBOX_KEY = "ip-dashboard:alert-inbox";
+const SNOOZES_KEY = "ip-dashboard:alert-snoozes";
+// Oldest alerts are dropped beyond this many
+export const ALERT_INBOX_LIMIT = 200;
+
+export interface AlertState {
+  rules: AlertRule[];
+  /** Newest first */
+  events: AlertEvent[];
+  snoozes: AlertSnoozes;
+}
+
+// Earlier versions kept the snooze on the inbox event itself
+type LegacyAlertEvent = AlertEvent & { snoozedUntil?: number };
+
+let state: AlertState | null = null;
+const listeners: Array<() => void> = [];
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored) as T;
+  } catch (error) {
+    console.warn(`Ignoring invalid ${key}:`, error);
+  }
+  return fallback;
+}
+
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+  }
+}
+
+export function loadAlertState(): AlertState {
+  if (state) return state;
+  const events = read<LegacyAlertEvent[]>(INBOX_KEY, []);
+  const legacySnoozes: AlertSnoozes = {};
+  for (const { key, snoozedUntil } of events) {
+    if (snoozedUntil && snoozedUntil > (legacySnoozes[key] ?? 0)) legacySnoozes[key] = snoozedUntil;
+  }
+  state = {
+    rules: read(RULES_KEY, DEFAULT_ALERT_RULES),
+    events: events.map(({ snoozedUntil: _snoozedUntil, ...event }) => event),
+    snoozes: read(SNOOZES_KEY, legacySnoozes),
+  };
+  // Saved right away, as the next inbox write drops them from the events
+  if (state.snoozes === legacySnoozes && Object.keys(legacySnoozes).length > 0) write(SNOOZES_KEY, legacySnoozes);
+  return state;
+}
+
+function update(patch: Partial<AlertState>) {
+  state = { ...loadAlertState(), ...patch };
+  if (patch.rules) write(RULES_KEY, state.rules);
+  if (patch.events) write(INBOX_KEY, state.events);
+  if (patch.snoozes) write(SNOOZES_KEY, state.snoozes);
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeAlertState(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  update({ rules });
+}
+
+export function addAlerts(events: AlertEvent[]) {
+  if (events.length === 0) return;
+  update({ events: [...events, ...loadAlertState().events].slice(0, ALERT_INBOX_LIMIT) });
+}
+
+const acknowledged = (events: AlertEvent[], matches: (event: AlertEvent) => boolean) =>
+  events.map((event) => (matches(event) ? { ...event, acknowledged: true } : event));
+
+export function acknowledgeAlerts(ids: string[] | "all") {
+  update({ events: acknowledged(loadAlertState().events, (event) => ids === "all" || ids.includes(event.id)) });
+}
+
+// Mutes the rule and subject behind an alert key, acknowledging the alerts already in the inbox for it
+export function snoozeAlert(key: string, until: number) {
+  const { events, snoozes } = loadAlertState();
+  update({
+    events: acknowledged(events, (event) => event.key === key),
+    snoozes: updateSnoozes(snoozes, key, until),
+  });
+}
+
+export function unsnoozeAlert(key: string) {
+  update({ snoozes: updateSnoozes(loadAlertState().snoozes, key, null) });
+}
+
+export function clearAlerts() {
+  update({ events: [] });
+}
@@ -0,0 +1,43 @@
+import { IPAnnotation } from "@/types/annotations";
+import { emptyAnnotation, isEmptyAnnotation } from "@/lib/annotations";
+import { normalizeIP } from "@/lib/ipAddress";
+
+const STORAGE_KEY = "ip-dashboard:annotations";
+
+let annotations: Record<string, IPAnnotation> | null = null;
+const listeners: Array<() => void> = [];
+
+/** Annotations keyed by normalized IP */
+export function loadAnnotations(): Record<string, IPAnnotation> {
+  if (annotations) return annotations;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return (annotations = JSON.parse(stored) as Record<string, IPAnnotation>);
+  } catch (error) {
+    console.warn("Ignoring invalid IP annotations:", error);
+  }
+  return (annotations = {});
+}
+
+export function updateAnnotation(ip: string, patch: Partial<Omit<IPAnnotation, "ip" | "updatedAt">>) {
+  const key = normalizeIP(ip);
+  const current = loadAnnotations();
+  const next = { ...(current[key] ?? emptyAnnotation(key)), ...patch, updatedAt: Date.now() };
+
+  const { [key]: _previous, ...rest } = current;
+  annotations = isEmptyAnnotation(next) ? rest : { ...rest, [key]: next };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+  } catch (error) {
+    console.warn("Failed to persist IP annotations:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeAnnotations(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
@@ -0,0 +1,52 @@
+import { BlocklistEntry } from "@/types/blocklist";
+
+const STORAGE_KEY = "ip-dashboard:blocklist";
+
+let entries: BlocklistEntry[] | null = null;
+const listeners: Array<() => void> = [];
+
+export function loadBlocklist(): BlocklistEntry[] {
+  if (entries) return entries;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return (entries = JSON.parse(stored) as BlocklistEntry[]);
+  } catch (error) {
+    console.warn("Ignoring invalid blocklist:", error);
+  }
+  return (entries = []);
+}
+
+function save(next: BlocklistEntry[]) {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Failed to persist ASN blocklist:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function addASNToBlocklist(asn: string, name: string, ips: string[]) {
+  const current = loadBlocklist();
+  const existing = current.find((entry) => entry.asn === asn);
+  const entry: BlocklistEntry = existing
+    ? { ...existing, name: name || existing.name, ips: [...new Set([...existing.ips, ...ips])] }
+    : { asn, name, ips: [...new Set(ips)], addedAt: Date.now() };
+  save(existing ? current.map((e) => (e.asn === asn ? entry : e)) : [...current, entry]);
+}
+
+export function removeASNFromBlocklist(asn: string) {
+  save(loadBlocklist().filter((entry) => entry.asn !== asn));
+}
+
+export function clearBlocklist() {
+  save([]);
+}
+
+export function subscribeBlocklist(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
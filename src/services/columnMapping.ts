@@ -0,0 +1,129 @@
+import { IPData } from "@/types/ipData";
+import { ColumnAliases, ColumnReport } from "@/types/dataSource";
+
+/** IPData fields read from the source; provenance is added later by enrichment */
+export type IPDataField = Exclude<keyof IPData, "enrichedBy">;
+
+/** Header names accepted for each IPData field, matched case- and punctuation-insensitively */
+export type ColumnMapping = Record<IPDataField, string[]>;
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  IP: ["IP", "IP Address", "Alamat IP"],
+  Country: ["Country", "Country Name", "Country Code", "Negara"],
+  City: ["City", "Kota"],
+  ISP: ["ISP", "Provider"],
+  Domain: ["Domain", "Domain Name"],
+  UsageType: ["Usage Type", "Usage"],
+  ASN: ["ASN", "AS Number"],
+  AbuseConfidenceScore: ["Abuse Confidence Score", "Confidence Score", "Score"],
+  TotalReports: ["Total Reports", "Reports"],
+  LastReportedAt: ["Last Reported At", "Last Reported", "Last Seen"],
+  JenisAktivitas: ["Jenis Aktivitas", "Activity", "Activity Type"],
+  Count: ["Count", "Jumlah", "Hits"],
+  Action: ["Action", "Tindakan", "Status"],
+};
+
+// Rows cannot be interpreted without these; everything else falls back to a default
+export const REQUIRED_COLUMNS: IPDataField[] = [
+  "IP",
+  "Country",
+  "ISP",
+  "Domain",
+  "AbuseConfidenceScore",
+  "TotalReports",
+  "LastReportedAt",
+  "JenisAktivitas",
+  "Count",
+  "Action",
+];
+
+export class MissingColumnsError extends Error {
+  constructor(readonly report: ColumnReport) {
+    super(`Missing required columns: ${report.missingRequired.join(", ")}`);
+    this.name = "MissingColumnsError";
+  }
+}
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Extra aliases are added to the defaults rather than replacing them
+export function mergeColumnMapping(overrides: Partial<ColumnMapping> = {}): ColumnMapping {
+  const merged = { ...DEFAULT_COLUMN_MAPPING };
+  for (const field of Object.keys(overrides) as IPDataField[]) {
+    merged[field] = [...(overrides[field] ?? []), ...DEFAULT_COLUMN_MAPPING[field]];
+  }
+  return merged;
+}
+
+export function resolveColumns(
+  header: string[],
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): { indices: Partial<Record<IPDataField, number>>; report: ColumnReport } {
+  const lookup = new Map<string, IPDataField>();
+  for (const field of Object.keys(mapping) as IPDataField[]) {
+    for (const alias of [field, ...mapping[field]]) {
+      const key = normalizeHeader(alias);
+      if (!lookup.has(key)) lookup.set(key, field);
+    }
+  }
+
+  const indices: Partial<Record<IPDataField, number>> = {};
+  const mapped: ColumnReport["mapped"] = {};
+  const unknown: string[] = [];
+
+  header.forEach((name, index) => {
+    const field = lookup.get(normalizeHeader(name));
+    // The first matching column wins; later duplicates are reported as unknown
+    if (field && indices[field] === undefined) {
+      indices[field] = index;
+      mapped[field] = name.trim();
+    } else if (name.trim()) {
+      unknown.push(name.trim());
+    }
+  });
+
+  const fields = Object.keys(mapping) as IPDataField[];
+  const missing = fields.filter((field) => indices[field] === undefined);
+
+  return {
+    indices,
+    report: {
+      mapped,
+      missingRequired: missing.filter((field) => REQUIRED_COLUMNS.includes(field)),
+      missingOptional: missing.filter((field) => !REQUIRED_COLUMNS.includes(field)),
+      unknown,
+    },
+  };
+}
+
+// Text form used by the settings dialog: one "Field: Header A, Header B" per line
+export function formatColumnAliases(aliases: ColumnAliases = {}): string {
+  return (Object.keys(aliases) as IPDataField[])
+    .filter((field) => aliases[field]?.length)
+    .map((field) => `${field}: ${aliases[field]!.join(", ")}`)
+    .join("\n");
+}
+
+export function parseColumnAliases(text: string): ColumnAliases {
+  const aliases: ColumnAliases = {};
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const separator = line.indexOf(":");
+    const field = line.slice(0, separator).trim() as IPDataField;
+    if (separator < 0 || !(field in DEFAULT_COLUMN_MAPPING)) {
+      throw new Error(`Unknown field in column mapping: "${line.trim()}"`);
+    }
+
+    aliases[field] = line
+      .slice(separator + 1)
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+  }
+
+  return aliases;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURE_IP_DATA } from "./fixtureSource";
+import { createFileSource } from "./fileSource";
+import { FIXTURE_CSV, FIXTURE_JSON } from "@/test/fixtures";
+
+describe("createFileSource", () => {
+  it("reads CSV content", async () => {
+    const result = await createFileSource("export.csv", FIXTURE_CSV).load();
+    expect(result.records).toHaveLength(FIXTURE_IP_DATA.length);
+  });
+
+  it("reads JSON content by extension or by its first character", async () => {
+    expect((await createFileSource("export.json", FIXTURE_JSON).load()).records).toHaveLength(FIXTURE_IP_DATA.length);
+    expect((await createFileSource("export.txt", FIXTURE_JSON).load()).records).toHaveLength(FIXTURE_IP_DATA.length);
+  });
+
+  it("changes its id when the content changes", () => {
+    expect(createFileSource("a.csv", FIXTURE_CSV).id).not.toBe(createFileSource("a.csv", `${FIXTURE_CSV}\n`).id);
+  });
+});
@@ -0,0 +1,20 @@
+import { ColumnAliases, DataSource } from "@/types/dataSource";
+import { mergeColumnMapping } from "@/services/columnMapping";
+import { parseIPDataCsv, parseIPDataJson } from "@/services/ipDataParser";
+import { looksLikeJson } from "./restSource";
+
+// Reads IP records from the contents of a CSV or JSON file uploaded by the user
+export function createFileSource(fileName: string, content: string, columns?: ColumnAliases): DataSource {
+  const mapping = mergeColumnMapping(columns);
+
+  return {
+    id: `file:${fileName}:${content.length}`,
+    label: fileName,
+    async load() {
+      if (fileName.toLowerCase().endsWith(".json") || looksLikeJson(content)) {
+        return parseIPDataJson(JSON.parse(content), mapping);
+      }
+      return parseIPDataCsv(content, mapping);
+    },
+  };
+}
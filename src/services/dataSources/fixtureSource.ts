@@ -0,0 +1,92 @@
+import { DataSource } from "@/types/dataSource";
+import { IPData } from "@/types/ipData";
+import { parseIPDataJson } from "@/services/ipDataParser";
+
+export const FIXTURE_IP_DATA: IPData[] = [
+  {
+    IP: "185.220.101.34",
+    Country: "Germany",
+    City: "Berlin",
+    ISP: "Tor Exit Node",
+    Domain: "torproject.org",
+    UsageType: "Data Center/Web Hosting/Transit",
+    ASN: "AS60729",
+    AbuseConfidenceScore: 100,
+    TotalReports: 4821,
+    LastReportedAt: "2025-01-14T08:12:44+00:00",
+    JenisAktivitas: "Brute Force",
+    Count: 37,
+    Action: "Blocked",
+  },
+  {
+    IP: "103.147.12.9",
+    Country: "Indonesia",
+    City: "Jakarta",
+    ISP: "PT Telkom Indonesia",
+    Domain: "telkom.co.id",
+    UsageType: "Fixed Line ISP",
+    ASN: "AS7713",
+    AbuseConfidenceScore: 62,
+    TotalReports: 118,
+    LastReportedAt: "2025-01-13T21:40:02+00:00",
+    JenisAktivitas: "Port Scan",
+    Count: 12,
+    Action: "Alerted",
+  },
+  {
+    IP: "45.155.205.233",
+    Country: "Russia",
+    City: "Moscow",
+    ISP: "Chang Way Technologies Co. Limited",
+    Domain: "-",
+    UsageType: "Data Center/Web Hosting/Transit",
+    ASN: "AS57523",
+    AbuseConfidenceScore: 89,
+    TotalReports: 967,
+    LastReportedAt: "2025-01-14T02:03:51+00:00",
+    JenisAktivitas: "SQL Injection",
+    Count: 5,
+    Action: "Blocked",
+  },
+  {
+    IP: "45.155.205.233",
+    Country: "Russia",
+    City: "Moscow",
+    ISP: "Chang Way Technologies Co. Limited",
+    Domain: "-",
+    UsageType: "Data Center/Web Hosting/Transit",
+    ASN: "AS57523",
+    AbuseConfidenceScore: 89,
+    TotalReports: 967,
+    LastReportedAt: "2025-01-14T02:03:51+00:00",
+    JenisAktivitas: "Brute Force",
+    Count: 21,
+    Action: "Blocked",
+  },
+  {
+    IP: "2001:db8:85a3::8a2e:370:7334",
+    Country: "United States",
+    City: "Ashburn",
+    ISP: "Amazon.com, Inc.",
+    Domain: "amazon.com",
+    UsageType: "Data Center/Web Hosting/Transit",
+    ASN: "AS14618",
+    AbuseConfidenceScore: 18,
+    TotalReports: 3,
+    LastReportedAt: "2025-01-10T11:25:00+00:00",
+    JenisAktivitas: "Web Crawler",
+    Count: 2,
+    Action: "Alerted",
+  },
+];
+
+// In-memory records, useful for demos and for running the dashboard without network access
+export function createFixtureSource(records: IPData[] = FIXTURE_IP_DATA): DataSource {
+  return {
+    id: "fixture",
+    label: "Sample data",
+    async load() {
+      return parseIPDataJson(records);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MissingColumnsError } from "@/services/columnMapping";
+import { FIXTURE_IP_DATA } from "./fixtureSource";
+import { createGoogleSheetSource } from "./googleSheetSource";
+import { respondAfter, respondWith, StandInServer, startStandInServer } from "@/test/standInServer";
+import { FIXTURE_CSV, UNMAPPED_CSV } from "@/test/fixtures";
+
+let server: StandInServer;
+
+// Stand-ins for the CORS proxies: each rewrites the sheet URL onto a path of the local server
+const via = (path: string) => (url: string) => `${server.url}${path}?url=${encodeURIComponent(url)}`;
+const direct = (url: string) => url;
+
+beforeAll(async () => {
+  server = await startStandInServer({
+    "/sheet.csv": respondWith(200, FIXTURE_CSV, "text/csv"),
+    "/unmapped.csv": respondWith(200, UNMAPPED_CSV, "text/csv"),
+    "/proxy-ok": respondWith(200, FIXTURE_CSV, "text/csv"),
+    "/proxy-down": respondWith(502, "Bad Gateway"),
+    "/proxy-empty": respondWith(200, "", "text/csv"),
+    "/proxy-slow": respondAfter(2000, respondWith(200, FIXTURE_CSV, "text/csv")),
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  server.requests.length = 0;
+  // The source logs every attempt
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createGoogleSheetSource", () => {
+  it("loads the published CSV directly", async () => {
+    const source = createGoogleSheetSource({ url: `${server.url}/sheet.csv`, proxies: [direct] });
+    const result = await source.load();
+    expect(result.records.map((record) => record.IP)).toEqual(FIXTURE_IP_DATA.map((record) => record.IP));
+    expect(server.requests).toEqual(["/sheet.csv"]);
+  });
+
+  it("falls back to the next proxy when one fails or answers empty", async () => {
+    const source = createGoogleSheetSource({
+      url: `${server.url}/sheet.csv`,
+      proxies: [via("/proxy-down"), via("/proxy-empty"), via("/proxy-ok"), direct],
+    });
+    const result = await source.load();
+    expect(result.records).toHaveLength(FIXTURE_IP_DATA.length);
+    expect(server.requests).toEqual(["/proxy-down", "/proxy-empty", "/proxy-ok"]);
+  });
+
+  it("falls back past a proxy that cannot be reached", async () => {
+    const source = createGoogleSheetSource({
+      url: `${server.url}/sheet.csv`,
+      proxies: [(url) => `http://127.0.0.1:1/?url=${encodeURIComponent(url)}`, direct],
+    });
+    await expect(source.load()).resolves.toMatchObject({ records: expect.any(Array) });
+    expect(server.requests).toEqual(["/sheet.csv"]);
+  });
+
+  it("fails with the last error when every proxy fails", async () => {
+    const source = createGoogleSheetSource({
+      url: `${server.url}/missing.csv`,
+      proxies: [via("/proxy-down"), direct],
+    });
+    await expect(source.load()).rejects.toThrow("status: 404");
+    expect(server.requests).toEqual(["/proxy-down", "/missing.csv"]);
+  });
+
+  it("does not retry other proxies when the header is missing required columns", async () => {
+    const source = createGoogleSheetSource({ url: `${server.url}/unmapped.csv`, proxies: [direct, direct] });
+    await expect(source.load()).rejects.toBeInstanceOf(MissingColumnsError);
+    expect(server.requests).toEqual(["/unmapped.csv"]);
+  });
+
+  it("stops at the first proxy when the signal times out", async () => {
+    const source = createGoogleSheetSource({
+      url: `${server.url}/sheet.csv`,
+      proxies: [via("/proxy-slow"), direct],
+    });
+    const started = Date.now();
+    await expect(source.load(AbortSignal.timeout(100))).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(server.requests).toEqual(["/proxy-slow"]);
+  });
+});
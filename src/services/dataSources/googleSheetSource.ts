@@ -0,0 +1,81 @@
+import { ColumnAliases, DataSource } from "@/types/dataSource";
+import { MissingColumnsError, mergeColumnMapping } from "@/services/columnMapping";
+import { parseIPDataRows } from "@/services/ipDataParser";
+import { parseCsv, parseCsvStream } from "@/lib/csv";
+
+export const DEFAULT_SHEET_URL = "https://docs.google.com/spreadsheets/d/e/2PACX-1vTBFpMLtVE2pJi8aeTRcpon2teV7ToLGIMSnTbxU-o8InMOhRVPmc1_XCt8w4sXMfE0WKIAnodtkUFP/pub?gid=0&single=true&output=csv";
+
+type ProxyFn = (url: string) => string;
+
+// Multiple proxy options for fallback
+const PROXY_URLS: ProxyFn[] = [
+  (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
+  (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
+  (url: string) => url, // Direct fetch as last resort
+];
+
+interface GoogleSheetSourceOptions {
+  url?: string;
+  /** Override the CORS proxy chain, e.g. `[(url) => url]` against a local stand-in server */
+  proxies?: ProxyFn[];
+  columns?: ColumnAliases;
+}
+
+export function createGoogleSheetSource({
+  url = DEFAULT_SHEET_URL,
+  proxies = PROXY_URLS,
+  columns,
+}: GoogleSheetSourceOptions = {}): DataSource {
+  const mapping = mergeColumnMapping(columns);
+
+  return {
+    id: `google-sheet:${url}`,
+    label: "Google Sheet",
+    async load(signal) {
+      let lastError: Error | null = null;
+
+      for (const proxyFn of proxies) {
+        try {
+          const proxyUrl = proxyFn(url);
+          console.log('Trying to fetch from:', proxyUrl.substring(0, 50));
+
+          const response = await fetch(proxyUrl, {
+            method: 'GET',
+            headers: {
+              'Accept': 'text/csv,text/plain,*/*'
+            },
+            signal,
+          });
+
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+
+          const rows = response.body
+            ? await parseCsvStream(response.body)
+            : parseCsv(await response.text());
+
+          if (rows.length === 0) {
+            throw new Error('Empty or invalid response');
+          }
+
+          console.log('CSV fetched successfully, rows:', rows.length);
+
+          const result = parseIPDataRows(rows, mapping);
+          console.log('Parsed', result.records.length, 'IP records');
+          return result;
+
+        } catch (error) {
+          // Aborted requests and header mismatches would fail the same way on every proxy
+          if (signal?.aborted || error instanceof MissingColumnsError) throw error;
+          console.warn('Proxy failed:', error);
+          lastError = error as Error;
+          continue;
+        }
+      }
+
+      console.error('All proxies failed:', lastError);
+      throw lastError || new Error('Failed to fetch data');
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { DataSource, DataSourceConfig, DataSourceKind } from "@/types/dataSource";
+import { createGoogleSheetSource } from "./googleSheetSource";
+import { createRestSource } from "./restSource";
+import { createFileSource } from "./fileSource";
+import { createFixtureSource } from "./fixtureSource";
+
+export { createGoogleSheetSource, createRestSource, createFileSource, createFixtureSource };
+
+const STORAGE_KEY = "ip-dashboard:data-source";
+
+export const DATA_SOURCE_LABELS: Record<DataSourceKind, string> = {
+  "google-sheet": "Google Sheet",
+  file: "Uploaded CSV/JSON file",
+  rest: "REST endpoint",
+  fixture: "Sample data",
+};
+
+export function createDataSource(config: DataSourceConfig): DataSource {
+  switch (config.kind) {
+    case "google-sheet":
+      return createGoogleSheetSource({ url: config.url || undefined, columns: config.columns });
+    case "file":
+      return createFileSource(config.fileName, config.content, config.columns);
+    case "rest":
+      return createRestSource(config.url, config.columns);
+    case "fixture":
+      return createFixtureSource();
+  }
+}
+
+// Build-time default, configured through VITE_DATA_SOURCE / VITE_DATA_SOURCE_URL
+export function getDefaultDataSourceConfig(): DataSourceConfig {
+  const kind = import.meta.env.VITE_DATA_SOURCE;
+  const url = import.meta.env.VITE_DATA_SOURCE_URL;
+
+  if (kind === "rest" && url) return { kind: "rest", url };
+  if (kind === "fixture") return { kind: "fixture" };
+  return { kind: "google-sheet", url: kind === "google-sheet" ? url : undefined };
+}
+
+let currentConfig: DataSourceConfig | null = null;
+const listeners: Array<() => void> = [];
+
+// The source picked in the dashboard settings wins over the build-time default
+export function loadDataSourceConfig(): DataSourceConfig {
+  if (currentConfig) return currentConfig;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return (currentConfig = JSON.parse(stored) as DataSourceConfig);
+  } catch (error) {
+    console.warn("Ignoring invalid data source config:", error);
+  }
+  return (currentConfig = getDefaultDataSourceConfig());
+}
+
+// Passing null drops the stored choice and falls back to the build-time default
+export function saveDataSourceConfig(config: DataSourceConfig | null) {
+  try {
+    if (config) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    // Large uploads may exceed the storage quota; the source still works for this session
+    console.warn("Failed to persist data source config:", error);
+  }
+  currentConfig = config ?? getDefaultDataSourceConfig();
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeDataSourceConfig(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
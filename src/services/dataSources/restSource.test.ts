@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { MissingColumnsError } from "@/services/columnMapping";
+import { FIXTURE_IP_DATA } from "./fixtureSource";
+import { createRestSource } from "./restSource";
+import { respondAfter, respondWith, StandInServer, startStandInServer } from "@/test/standInServer";
+import { FIXTURE_CSV, FIXTURE_JSON, UNMAPPED_CSV } from "@/test/fixtures";
+
+let server: StandInServer;
+
+beforeAll(async () => {
+  server = await startStandInServer({
+    "/ips.json": respondWith(200, FIXTURE_JSON, "application/json"),
+    "/wrapped.json": respondWith(200, JSON.stringify({ data: JSON.parse(FIXTURE_JSON) }), "application/json"),
+    "/ips.csv": respondWith(200, FIXTURE_CSV, "text/csv"),
+    "/untyped": respondWith(200, FIXTURE_JSON, "application/octet-stream"),
+    "/unmapped.csv": respondWith(200, UNMAPPED_CSV, "text/csv"),
+    "/broken": respondWith(500, "Internal Server Error"),
+    "/slow.json": respondAfter(2000, respondWith(200, FIXTURE_JSON, "application/json")),
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  server.requests.length = 0;
+});
+
+describe("createRestSource", () => {
+  it("loads a JSON array", async () => {
+    const result = await createRestSource(`${server.url}/ips.json`).load();
+    expect(result.records).toHaveLength(FIXTURE_IP_DATA.length);
+    expect(result.records[0].IP).toBe(FIXTURE_IP_DATA[0].IP);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("loads a JSON object with a data array", async () => {
+    const result = await createRestSource(`${server.url}/wrapped.json`).load();
+    expect(result.records).toHaveLength(FIXTURE_IP_DATA.length);
+  });
+
+  it("loads CSV", async () => {
+    const result = await createRestSource(`${server.url}/ips.csv`).load();
+    expect(result.records.map((record) => record.IP)).toEqual(FIXTURE_IP_DATA.map((record) => record.IP));
+    expect(result.records[0].AbuseConfidenceScore).toBe(FIXTURE_IP_DATA[0].AbuseConfidenceScore);
+  });
+
+  it("recognizes JSON by its content when the content type does not say", async () => {
+    const result = await createRestSource(`${server.url}/untyped`).load();
+    expect(result.records).toHaveLength(FIXTURE_IP_DATA.length);
+  });
+
+  it("fails with the HTTP status on an error response", async () => {
+    await expect(createRestSource(`${server.url}/broken`).load()).rejects.toThrow("status: 500");
+  });
+
+  it("fails on a 404", async () => {
+    await expect(createRestSource(`${server.url}/missing`).load()).rejects.toThrow("status: 404");
+  });
+
+  it("reports missing required columns", async () => {
+    await expect(createRestSource(`${server.url}/unmapped.csv`).load()).rejects.toBeInstanceOf(MissingColumnsError);
+  });
+
+  it("gives up when the signal times out", async () => {
+    const started = Date.now();
+    await expect(createRestSource(`${server.url}/slow.json`).load(AbortSignal.timeout(100))).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(1500);
+  });
+
+  it("fails when nothing listens at the URL", async () => {
+    await expect(createRestSource("http://127.0.0.1:1/ips.json").load()).rejects.toThrow();
+  });
+});
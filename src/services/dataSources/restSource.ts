@@ -0,0 +1,36 @@
+import { ColumnAliases, DataSource } from "@/types/dataSource";
+import { mergeColumnMapping } from "@/services/columnMapping";
+import { parseIPDataCsv, parseIPDataJson } from "@/services/ipDataParser";
+
+// Reads IP records from an HTTP endpoint that answers with JSON or CSV
+export function createRestSource(url: string, columns?: ColumnAliases): DataSource {
+  const mapping = mergeColumnMapping(columns);
+
+  return {
+    id: `rest:${url}`,
+    label: "REST endpoint",
+    async load(signal) {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: { Accept: "application/json,text/csv;q=0.9,*/*;q=0.5" },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      const body = await response.text();
+
+      return contentType.includes("json") || looksLikeJson(body)
+        ? parseIPDataJson(JSON.parse(body), mapping)
+        : parseIPDataCsv(body, mapping);
+    },
+  };
+}
+
+export function looksLikeJson(text: string): boolean {
+  const first = text.trimStart()[0];
+  return first === "[" || first === "{";
+}
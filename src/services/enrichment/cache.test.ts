@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// The cache is held per module, so every test starts from a fresh copy and empty storage
+async function loadCache() {
+  vi.resetModules();
+  return import("./cache");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("localStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("enrichment lookup cache", () => {
+  it("keeps answers per provider for a week", async () => {
+    const cache = await loadCache();
+    cache.setCachedLookup("rest:a", "10.0.0.1", { Country: "ID" });
+    cache.setCachedLookup("rest:b", "10.0.0.1", {});
+
+    expect(cache.getCachedLookup("rest:a", "10.0.0.1")).toEqual({ Country: "ID" });
+    expect(cache.getCachedLookup("rest:b", "10.0.0.1")).toEqual({});
+    expect(cache.getCachedLookup("rest:c", "10.0.0.1")).toBeUndefined();
+
+    vi.advanceTimersByTime(7 * DAY - 1);
+    expect(cache.getCachedLookup("rest:a", "10.0.0.1")).toEqual({ Country: "ID" });
+    vi.advanceTimersByTime(1);
+    expect(cache.getCachedLookup("rest:a", "10.0.0.1")).toBeUndefined();
+  });
+
+  it("drops the oldest lookups of a provider past its size limit", async () => {
+    const cache = await loadCache();
+    for (let i = 0; i <= cache.CACHE_LIMIT_PER_PROVIDER; i++) cache.setCachedLookup("rest:a", `ip-${i}`, {});
+    cache.setCachedLookup("rest:b", "ip-0", {});
+
+    expect(cache.cachedLookupCount("rest:a")).toBe(cache.CACHE_LIMIT_PER_PROVIDER);
+    expect(cache.getCachedLookup("rest:a", "ip-0")).toBeUndefined();
+    expect(cache.getCachedLookup("rest:a", "ip-1")).toEqual({});
+    expect(cache.cachedLookupCount("rest:b")).toBe(1);
+  });
+
+  it("persists in batches and survives a reload", async () => {
+    const cache = await loadCache();
+    cache.setCachedLookup("rest:a", "10.0.0.1", { City: "Jakarta" });
+    expect(localStorage.getItem("ip-dashboard:enrichment-cache")).toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    expect((await loadCache()).getCachedLookup("rest:a", "10.0.0.1")).toEqual({ City: "Jakarta" });
+  });
+
+  it("clears one provider or all of them", async () => {
+    const cache = await loadCache();
+    cache.setCachedLookup("rest:a", "10.0.0.1", {});
+    cache.setCachedLookup("rest:b", "10.0.0.1", {});
+
+    cache.clearLookupCache("rest:a");
+    expect(cache.cachedLookupCount("rest:a")).toBe(0);
+    expect(cache.cachedLookupCount("rest:b")).toBe(1);
+    cache.clearLookupCache();
+    expect(cache.cachedLookupCount("rest:b")).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { EnrichmentResult } from "@/types/enrichment";
+
+const STORAGE_KEY = "ip-dashboard:enrichment-cache";
+const TTL = 7 * 24 * 60 * 60 * 1000;
+export const CACHE_LIMIT_PER_PROVIDER = 5000;
+const SAVE_DELAY_MS = 1000;
+
+/** Lookup time (epoch milliseconds) and answer, per IP, per provider */
+type CacheData = Record<string, Record<string, [number, EnrichmentResult]>>;
+
+let cache: CacheData | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function load(): CacheData {
+  if (cache) return cache;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return (cache = JSON.parse(stored) as CacheData);
+  } catch (error) {
+    console.warn("Ignoring invalid enrichment cache:", error);
+  }
+  return (cache = {});
+}
+
+// Lookups arrive in bursts, so writes to localStorage are batched
+function scheduleSave() {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(load()));
+    } catch (error) {
+      console.warn("Failed to persist enrichment cache:", error);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+export function getCachedLookup(providerId: string, ip: string): EnrichmentResult | undefined {
+  const entry = load()[providerId]?.[ip];
+  return entry && Date.now() - entry[0] < TTL ? entry[1] : undefined;
+}
+
+// Empty answers are cached too, so IPs a provider knows nothing about are not asked again
+export function setCachedLookup(providerId: string, ip: string, result: EnrichmentResult) {
+  const data = load();
+  if (!data[providerId]) data[providerId] = {};
+  const entries = data[providerId];
+  delete entries[ip];
+  entries[ip] = [Date.now(), result];
+
+  const ips = Object.keys(entries);
+  if (ips.length > CACHE_LIMIT_PER_PROVIDER) {
+    // Object keys keep insertion order, so the oldest lookups go first
+    for (const stale of ips.slice(0, ips.length - CACHE_LIMIT_PER_PROVIDER)) delete entries[stale];
+  }
+  scheduleSave();
+}
+
+export function cachedLookupCount(providerId: string): number {
+  return Object.keys(load()[providerId] ?? {}).length;
+}
+
+export function clearLookupCache(providerId?: string) {
+  const data = load();
+  if (providerId) delete data[providerId];
+  else cache = {};
+  scheduleSave();
+}
@@ -0,0 +1,138 @@
+import { EnrichableField, EnrichmentResult } from "@/types/enrichment";
+import { IPRange, IPVersion, parseCIDR, parseIP } from "@/lib/ipAddress";
+import { CsvRow, CsvTokenizer, parseCsv } from "@/lib/csv";
+
+// Header names (lowercased, punctuation as "_") understood in an offline GeoIP CSV, covering the
+// common layouts: one `network` CIDR column (GeoLite2, DB-IP) or start/end columns (IP2Location)
+const RANGE_COLUMNS = {
+  network: ["network", "cidr", "prefix", "subnet"],
+  start: ["start", "start_ip", "ip_start", "range_start", "first_ip", "ip_from", "from"],
+  end: ["end", "end_ip", "ip_end", "range_end", "last_ip", "ip_to", "to"],
+};
+
+const FIELD_COLUMNS: Record<EnrichableField, string[]> = {
+  Country: ["country", "country_name", "country_code", "country_iso_code", "iso_code"],
+  City: ["city", "city_name"],
+  ISP: ["isp", "org", "organization", "as_organization", "autonomous_system_organization", "as_name"],
+  ASN: ["asn", "as_number", "autonomous_system_number"],
+  UsageType: ["usage_type", "usage", "usagetype"],
+  Domain: ["domain", "domain_name"],
+};
+
+export interface GeoIPRange {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+  result: EnrichmentResult;
+}
+
+export interface GeoIPRangeIndex {
+  /** Sorted by version, then start address */
+  entries: GeoIPRange[];
+  /** Fields the file has a column for */
+  fields: EnrichableField[];
+}
+
+const headerKey = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_");
+
+// IP2Location style integer bounds as well as dotted or colon notation
+function parseBound(text: string): { version: IPVersion; value: bigint } | null {
+  if (/^\d+$/.test(text)) {
+    const value = BigInt(text);
+    return { version: value <= 0xffffffffn ? 4 : 6, value };
+  }
+  return parseIP(text);
+}
+
+function parseRange(fields: string[], indices: { network: number; start: number; end: number }): IPRange | null {
+  if (indices.network > -1) return parseCIDR(fields[indices.network]?.trim() ?? "");
+  const start = parseBound(fields[indices.start]?.trim() ?? "");
+  const end = parseBound(fields[indices.end]?.trim() ?? "");
+  if (!start || !end || start.version !== end.version || start.value > end.value) return null;
+  return { version: start.version, start: start.value, end: end.value };
+}
+
+// Turns rows into ranges as they are read, so a large file never has to be held as text or rows
+function createIndexBuilder() {
+  let indices: { network: number; start: number; end: number } | null = null;
+  let columns: { field: EnrichableField; index: number }[] = [];
+  const entries: GeoIPRange[] = [];
+
+  const readHeader = (header: CsvRow) => {
+    const keys = header.fields.map(headerKey);
+    const find = (names: string[]) => keys.findIndex((key) => names.includes(key));
+    indices = { network: find(RANGE_COLUMNS.network), start: find(RANGE_COLUMNS.start), end: find(RANGE_COLUMNS.end) };
+    if (indices.network === -1 && (indices.start === -1 || indices.end === -1)) {
+      throw new Error("GeoIP file needs a network column or start and end columns");
+    }
+    columns = (Object.keys(FIELD_COLUMNS) as EnrichableField[])
+      .map((field) => ({ field, index: find(FIELD_COLUMNS[field]) }))
+      .filter(({ index }) => index > -1);
+  };
+
+  const add = (rows: CsvRow[]) => {
+    for (const row of rows) {
+      if (!indices) {
+        readHeader(row);
+        continue;
+      }
+      const range = parseRange(row.fields, indices);
+      if (!range) continue;
+      const result: EnrichmentResult = {};
+      for (const { field, index } of columns) {
+        const value = row.fields[index]?.trim();
+        if (!value || value === "-") continue;
+        result[field] = field === "ASN" && /^\d+$/.test(value) ? `AS${value}` : value;
+      }
+      entries.push({ ...range, result });
+    }
+  };
+
+  const finish = (): GeoIPRangeIndex => {
+    if (!indices) throw new Error("GeoIP file is empty");
+    entries.sort((a, b) => a.version - b.version || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+    return { entries, fields: columns.map(({ field }) => field) };
+  };
+
+  return { add, finish };
+}
+
+export function buildGeoIPIndex(content: string): GeoIPRangeIndex {
+  const builder = createIndexBuilder();
+  builder.add(parseCsv(content, { skipEmptyLines: true }));
+  return builder.finish();
+}
+
+// Same as buildGeoIPIndex, reading a file of any size chunk by chunk
+export async function buildGeoIPIndexFromStream(stream: ReadableStream<Uint8Array>): Promise<GeoIPRangeIndex> {
+  const builder = createIndexBuilder();
+  const tokenizer = new CsvTokenizer({ skipEmptyLines: true });
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    builder.add(tokenizer.push(decoder.decode(value, { stream: true })));
+  }
+  builder.add([...tokenizer.push(decoder.decode()), ...tokenizer.end()]);
+  return builder.finish();
+}
+
+// Binary search for the last range starting at or before the address; ranges are assumed not to overlap
+export function findGeoIPRange(entries: GeoIPRange[], version: IPVersion, value: bigint): GeoIPRange | undefined {
+  let low = 0;
+  let high = entries.length - 1;
+  let match: GeoIPRange | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const entry = entries[mid];
+    if (entry.version < version || (entry.version === version && entry.start <= value)) {
+      match = entry;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return match && match.version === version && value <= match.end ? match : undefined;
+}
@@ -0,0 +1,99 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildMmdb } from "@/test/mmdbWriter";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const CSV = [
+  "network,country_iso_code,city_name,autonomous_system_number,autonomous_system_organization",
+  "1.2.3.0/24,ID,Jakarta,64500,Example Net",
+  "2001:db8::/32,NL,-,64501,Other Net",
+].join("\r\n");
+
+// Every test gets an empty database and a fresh copy of the modules that cache it
+async function loadEnrichment() {
+  vi.resetModules();
+  return import("./index");
+}
+
+beforeEach(() => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("localStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("GeoIP provider", () => {
+  it("reads a CSV in chunks and answers from the stored ranges", async () => {
+    const enrichment = await loadEnrichment();
+    const dataset = await enrichment.readGeoIPFile(new File([CSV], "geo.csv"));
+    expect(enrichment.describeGeoIPDataset(dataset)).toBe("2 ranges with Country, City, ISP, ASN");
+
+    await enrichment.saveGeoIPDataset("provider-1", dataset);
+    const provider = enrichment.createGeoIPProvider("provider-1", "geo.csv", "csv");
+    expect(await provider.lookup("1.2.3.4")).toEqual({ Country: "ID", City: "Jakarta", ISP: "Example Net", ASN: "AS64500" });
+    expect(await provider.lookup("2001:db8::1")).toEqual({ Country: "NL", ISP: "Other Net", ASN: "AS64501" });
+    expect(await provider.lookup("9.9.9.9")).toEqual({});
+  });
+
+  it("answers from an MMDB file in the MaxMind layout", async () => {
+    const enrichment = await loadEnrichment();
+    const mmdb = buildMmdb({
+      ipVersion: 6,
+      recordSize: 28,
+      databaseType: "GeoIP2-Enterprise",
+      networks: [
+        [
+          "1.2.3.0/24",
+          {
+            country: { iso_code: "ID", names: { en: "Indonesia" } },
+            city: { names: { en: "Jakarta", de: "Jakarta" } },
+            traits: { autonomous_system_number: 64500, isp: "Example Net", user_type: "hosting", domain: "example.net" },
+          },
+        ],
+      ],
+    });
+    const dataset = await enrichment.readGeoIPFile(new File([mmdb], "city.mmdb"));
+    expect(enrichment.describeGeoIPDataset(dataset)).toBe("GeoIP2-Enterprise, IPv6");
+
+    await enrichment.saveGeoIPDataset("provider-2", dataset);
+    const provider = enrichment.createGeoIPProvider("provider-2", "city.mmdb", "mmdb");
+    expect(await provider.lookup("1.2.3.4")).toEqual({
+      Country: "ID",
+      City: "Jakarta",
+      ISP: "Example Net",
+      ASN: "AS64500",
+      UsageType: "hosting",
+      Domain: "example.net",
+    });
+    expect(await provider.lookup("4.3.2.1")).toEqual({});
+  });
+
+  it("rejects an .mmdb file that is not a MaxMind DB", async () => {
+    const enrichment = await loadEnrichment();
+    await expect(enrichment.readGeoIPFile(new File([CSV], "geo.mmdb"))).rejects.toThrow(/Not a MaxMind DB file/);
+  });
+
+  it("fails lookups once the stored data is gone", async () => {
+    const enrichment = await loadEnrichment();
+    await enrichment.saveGeoIPDataset("provider-3", await enrichment.readGeoIPFile(new File([CSV], "geo.csv")));
+    await enrichment.deleteGeoIPDataset("provider-3");
+
+    const provider = enrichment.createGeoIPProvider("provider-3", "geo.csv", "csv");
+    await expect(provider.lookup("1.2.3.4")).rejects.toThrow(/add the file again/);
+  });
+
+  it("moves a CSV kept in localStorage by earlier versions into IndexedDB", async () => {
+    localStorage.setItem(
+      "ip-dashboard:enrichment-providers",
+      JSON.stringify([{ id: "provider-4", enabled: true, kind: "geoip-csv", fileName: "old.csv", content: CSV }])
+    );
+    const enrichment = await loadEnrichment();
+
+    const [config] = enrichment.loadEnrichmentConfigs();
+    expect(config).toEqual({ id: "provider-4", enabled: true, kind: "geoip", fileName: "old.csv", format: "csv" });
+    expect(localStorage.getItem("ip-dashboard:enrichment-providers")).not.toContain("content");
+    expect(await enrichment.createEnrichmentProvider(config).lookup("1.2.3.4")).toMatchObject({ Country: "ID" });
+  });
+});
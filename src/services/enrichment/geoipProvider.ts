@@ -0,0 +1,102 @@
+import { EnrichmentProvider, EnrichmentResult, GeoIPFormat } from "@/types/enrichment";
+import { parseIP } from "@/lib/ipAddress";
+import { MmdbReader, MmdbValue } from "@/lib/mmdb";
+import { buildGeoIPIndexFromStream, findGeoIPRange } from "./geoipCsv";
+import { GeoIPDataset, loadGeoIPDataset } from "./geoipStore";
+import { ENRICHABLE_FIELDS } from "./pipeline";
+
+type MmdbRecord = { [key: string]: MmdbValue };
+
+const asRecord = (value: MmdbValue | undefined): MmdbRecord | undefined =>
+  value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Uint8Array)
+    ? (value as MmdbRecord)
+    : undefined;
+
+const asText = (value: MmdbValue | undefined): string | undefined =>
+  typeof value === "string" || typeof value === "number" || typeof value === "bigint" ? String(value) : undefined;
+
+const englishName = (value: MmdbValue | undefined) => asText(asRecord(asRecord(value)?.names)?.en);
+
+// Maps the MaxMind layout (GeoLite2/GeoIP2 and DB-IP) and IPinfo's flat layout onto IPData fields
+export function mmdbResult(value: MmdbValue | null): EnrichmentResult {
+  const record = asRecord(value ?? undefined);
+  if (!record) return {};
+  const traits = asRecord(record.traits);
+  const asn = asText(record.autonomous_system_number ?? traits?.autonomous_system_number ?? record.asn);
+
+  const result: EnrichmentResult = {
+    Country:
+      asText(asRecord(record.country)?.iso_code) ??
+      asText(asRecord(record.registered_country)?.iso_code) ??
+      asText(record.country_code),
+    City: englishName(record.city),
+    ISP: asText(
+      record.isp ??
+        traits?.isp ??
+        record.autonomous_system_organization ??
+        traits?.autonomous_system_organization ??
+        record.organization ??
+        record.as_name
+    ),
+    ASN: asn && /^\d+$/.test(asn) ? `AS${asn}` : asn,
+    UsageType: asText(traits?.user_type ?? record.user_type ?? record.connection_type),
+    Domain: asText(record.domain ?? traits?.domain ?? record.as_domain),
+  };
+  for (const field of ENRICHABLE_FIELDS) {
+    if (result[field] === undefined) delete result[field];
+  }
+  return result;
+}
+
+function createLookup(dataset: GeoIPDataset): (ip: string) => EnrichmentResult {
+  if (dataset.format === "mmdb") {
+    const reader = new MmdbReader(dataset.buffer);
+    return (ip) => mmdbResult(reader.lookup(ip));
+  }
+  return (ip) => {
+    const parsed = parseIP(ip);
+    return (parsed && findGeoIPRange(dataset.entries, parsed.version, parsed.value)?.result) ?? {};
+  };
+}
+
+// Reads an uploaded GeoIP file into the form it is stored in, throwing when it cannot be used
+export async function readGeoIPFile(file: File): Promise<GeoIPDataset> {
+  if (/\.mmdb$/i.test(file.name)) {
+    const buffer = await file.arrayBuffer();
+    // Throws unless the file ends in valid MaxMind DB metadata
+    new MmdbReader(buffer);
+    return { format: "mmdb", buffer };
+  }
+  return { format: "csv", ...(await buildGeoIPIndexFromStream(file.stream())) };
+}
+
+export function describeGeoIPDataset(dataset: GeoIPDataset): string {
+  if (dataset.format === "csv") {
+    return `${dataset.entries.length.toLocaleString()} ranges with ${dataset.fields.join(", ") || "no known fields"}`;
+  }
+  const { databaseType, ipVersion } = new MmdbReader(dataset.buffer).metadata;
+  return `${databaseType || "MaxMind DB"}, IPv${ipVersion}`;
+}
+
+// Answers from a GeoIP file the user imported, read from IndexedDB on first use
+export function createGeoIPProvider(datasetId: string, fileName: string, format: GeoIPFormat): EnrichmentProvider {
+  let lookup: Promise<(ip: string) => EnrichmentResult> | null = null;
+  const load = () => {
+    if (!lookup) {
+      lookup = loadGeoIPDataset(datasetId).then((dataset) => {
+        if (!dataset) throw new Error(`The ${format.toUpperCase()} data for ${fileName} is missing; add the file again`);
+        return createLookup(dataset);
+      });
+    }
+    return lookup;
+  };
+
+  return {
+    id: `geoip:${datasetId}`,
+    label: fileName,
+    fields: ENRICHABLE_FIELDS,
+    async lookup(ip) {
+      return (await load())(ip);
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { GeoIPRangeIndex } from "./geoipCsv";
+
+// GeoIP files run to hundreds of megabytes, far past the localStorage quota, so they are kept in
+// their own IndexedDB database: CSVs as parsed ranges, MMDB files as the original bytes
+const DB_NAME = "ip-threat-monitor-geoip";
+const DB_VERSION = 1;
+const STORE = "datasets";
+
+export type GeoIPDataset = ({ format: "csv" } & GeoIPRangeIndex) | { format: "mmdb"; buffer: ArrayBuffer };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Keyed by the provider config id
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, mode);
+  const request = action(tx.objectStore(STORE));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveGeoIPDataset(id: string, dataset: GeoIPDataset): Promise<void> {
+  await run("readwrite", (store) => store.put(dataset, id));
+}
+
+export async function loadGeoIPDataset(id: string): Promise<GeoIPDataset | null> {
+  return ((await run("readonly", (store) => store.get(id))) as GeoIPDataset | undefined) ?? null;
+}
+
+export async function deleteGeoIPDataset(id: string): Promise<void> {
+  await run("readwrite", (store) => store.delete(id));
+}
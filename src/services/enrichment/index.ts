@@ -0,0 +1,90 @@
+import { EnrichmentProvider, EnrichmentProviderConfig, EnrichmentProviderKind } from "@/types/enrichment";
+import { buildGeoIPIndex } from "./geoipCsv";
+import { createGeoIPProvider, describeGeoIPDataset, readGeoIPFile } from "./geoipProvider";
+import { deleteGeoIPDataset, saveGeoIPDataset } from "./geoipStore";
+import { createRdapEnrichmentProvider } from "./rdapProvider";
+import { createRestEnrichmentProvider } from "./restProvider";
+
+export { createGeoIPProvider, createRdapEnrichmentProvider, createRestEnrichmentProvider };
+export { deleteGeoIPDataset, describeGeoIPDataset, readGeoIPFile, saveGeoIPDataset };
+export type { GeoIPDataset } from "./geoipStore";
+export { applyEnrichment, blankFieldsByIP, enrichIPs, isBlank } from "./pipeline";
+export type { EnrichmentProgress } from "./pipeline";
+export { cachedLookupCount, clearLookupCache } from "./cache";
+
+const STORAGE_KEY = "ip-dashboard:enrichment-providers";
+
+export const ENRICHMENT_PROVIDER_LABELS: Record<EnrichmentProviderKind, string> = {
+  geoip: "Offline GeoIP database (MMDB or CSV)",
+  rdap: "RDAP registry lookup",
+  rest: "REST lookup service",
+};
+
+export function createEnrichmentProvider(config: EnrichmentProviderConfig): EnrichmentProvider {
+  switch (config.kind) {
+    case "geoip":
+      return createGeoIPProvider(config.id, config.fileName, config.format);
+    case "rdap":
+      return createRdapEnrichmentProvider(config.url, config.rateLimit);
+    case "rest":
+      return createRestEnrichmentProvider(config.url, config.rateLimit);
+  }
+}
+
+/** Earlier versions kept the whole GeoIP CSV in the config */
+type LegacyGeoIPConfig = { id: string; enabled: boolean; kind: "geoip-csv"; fileName: string; content: string };
+
+let currentConfigs: EnrichmentProviderConfig[] | null = null;
+const listeners: Array<() => void> = [];
+
+// Moves a stored CSV into IndexedDB. The write is queued before any provider can read it back,
+// and IndexedDB runs transactions in the order they were created, so lookups see the ranges.
+function migrateLegacyConfig(config: EnrichmentProviderConfig | LegacyGeoIPConfig): EnrichmentProviderConfig {
+  if (config.kind !== "geoip-csv") return config;
+  const { id, enabled, fileName, content } = config;
+  try {
+    saveGeoIPDataset(id, { format: "csv", ...buildGeoIPIndex(content) }).catch((error) =>
+      console.warn(`Failed to move ${fileName} to IndexedDB:`, error)
+    );
+  } catch (error) {
+    console.warn(`Dropping unreadable GeoIP data of ${fileName}:`, error);
+  }
+  return { id, enabled, kind: "geoip", fileName, format: "csv" };
+}
+
+// Nothing is looked up until the user adds a provider
+export function loadEnrichmentConfigs(): EnrichmentProviderConfig[] {
+  if (currentConfigs) return currentConfigs;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const configs = JSON.parse(stored) as (EnrichmentProviderConfig | LegacyGeoIPConfig)[];
+      currentConfigs = configs.map(migrateLegacyConfig);
+      if (configs.some((config) => config.kind === "geoip-csv")) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(currentConfigs));
+      }
+      return currentConfigs;
+    }
+  } catch (error) {
+    console.warn("Ignoring invalid enrichment providers:", error);
+  }
+  return (currentConfigs = []);
+}
+
+export function saveEnrichmentConfigs(configs: EnrichmentProviderConfig[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+  } catch (error) {
+    console.warn("Failed to persist enrichment providers:", error);
+  }
+  currentConfigs = configs;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeEnrichmentConfigs(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
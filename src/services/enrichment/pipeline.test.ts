@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EnrichableField, EnrichmentProvider, EnrichmentResult } from "@/types/enrichment";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const blanks = (...entries: [string, EnrichableField[]][]) =>
+  new Map(entries.map(([ip, fields]) => [ip, new Set(fields)]));
+
+function provider(
+  id: string,
+  answer: (ip: string) => EnrichmentResult,
+  patch: Partial<EnrichmentProvider> = {}
+): EnrichmentProvider & { lookup: ReturnType<typeof vi.fn> } {
+  return {
+    id,
+    label: id,
+    fields: ["Country", "City", "ISP", "ASN"],
+    lookup: vi.fn(async (ip: string) => answer(ip)),
+    ...patch,
+  } as EnrichmentProvider & { lookup: ReturnType<typeof vi.fn> };
+}
+
+// The lookup cache is held per module, so every test starts from a fresh copy and empty storage
+async function loadPipeline() {
+  vi.resetModules();
+  return import("./pipeline");
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("enrichIPs", () => {
+  it("lets an earlier provider win and records which one supplied each field", async () => {
+    const { enrichIPs } = await loadPipeline();
+    const first = provider("first", () => ({ Country: "ID", City: "" }));
+    const second = provider("second", () => ({ Country: "SG", City: "Singapore", ISP: "Example" }));
+
+    const found = await enrichIPs(blanks(["10.0.0.1", ["Country", "City"]]), [first, second]);
+    expect(found.get("10.0.0.1")).toEqual({
+      values: { Country: "ID", City: "Singapore" },
+      enrichedBy: { Country: "first", City: "second" },
+    });
+  });
+
+  it("does not ask later providers once every blank field is filled", async () => {
+    const { enrichIPs } = await loadPipeline();
+    const first = provider("first", () => ({ Country: "ID" }));
+    const second = provider("second", () => ({ Country: "SG" }));
+
+    await enrichIPs(blanks(["10.0.0.1", ["Country"]]), [first, second]);
+    expect(second.lookup).not.toHaveBeenCalled();
+  });
+
+  it("skips a provider after five failures in a row", async () => {
+    const { enrichIPs } = await loadPipeline();
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const failing = provider("failing", () => {
+      throw new Error("unreachable");
+    });
+    const backup = provider("backup", () => ({ Country: "ID" }));
+    const ips = Array.from({ length: 8 }, (_, i): [string, EnrichableField[]] => [`10.0.0.${i}`, ["Country"]]);
+
+    const found = await enrichIPs(blanks(...ips), [failing, backup]);
+    expect(failing.lookup).toHaveBeenCalledTimes(5);
+    expect(backup.lookup).toHaveBeenCalledTimes(8);
+    expect([...found.values()].every((enrichment) => enrichment.enrichedBy.Country === "backup")).toBe(true);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers a rate limited provider from the cache on the next run", async () => {
+    const { enrichIPs } = await loadPipeline();
+    const remote = provider("remote", () => ({ ASN: "AS64500" }), { rateLimit: 1000 });
+    const local = provider("local", () => ({ ASN: "AS1" }));
+    const wanted = blanks(["10.0.0.1", ["ASN"]], ["10.0.0.2", ["ASN"]]);
+
+    await enrichIPs(wanted, [remote, local]);
+    const again = await enrichIPs(wanted, [remote, local]);
+    expect(remote.lookup).toHaveBeenCalledTimes(2);
+    expect(again.get("10.0.0.2")?.values.ASN).toBe("AS64500");
+
+    // Providers answering from memory are asked every time
+    await enrichIPs(wanted, [local]);
+    await enrichIPs(wanted, [local]);
+    expect(local.lookup).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const { enrichIPs } = await loadPipeline();
+    const controller = new AbortController();
+    const slow = provider("slow", (ip) => {
+      if (ip === "10.0.0.2") controller.abort();
+      return { Country: "ID" };
+    });
+    const ips = Array.from({ length: 5 }, (_, i): [string, EnrichableField[]] => [`10.0.0.${i + 1}`, ["Country"]]);
+
+    const found = await enrichIPs(blanks(...ips), [slow], { signal: controller.signal });
+    // The lookup in flight when the signal fired still counts
+    expect(slow.lookup).toHaveBeenCalledTimes(2);
+    expect([...found.keys()]).toEqual(["10.0.0.1", "10.0.0.2"]);
+  });
+
+  it("reports progress with everything found so far", async () => {
+    const { enrichIPs } = await loadPipeline();
+    const onUpdate = vi.fn();
+    await enrichIPs(blanks(["10.0.0.1", ["Country"]]), [provider("only", () => ({ Country: "ID" }))], { onUpdate });
+
+    expect(onUpdate).toHaveBeenLastCalledWith(expect.any(Map), { done: 1, total: 1 });
+    expect(onUpdate.mock.lastCall![0].get("10.0.0.1").values).toEqual({ Country: "ID" });
+  });
+});
+
+describe("blankFieldsByIP and applyEnrichment", () => {
+  it("fills only the blank fields and keeps the provenance", async () => {
+    const { applyEnrichment, blankFieldsByIP } = await loadPipeline();
+    const record = { ...FIXTURE_IP_DATA[0], IP: "10.0.0.1", City: "-", ASN: "", Country: "ID" };
+
+    expect([...blankFieldsByIP([record]).get("10.0.0.1")!]).toEqual(expect.arrayContaining(["City", "ASN"]));
+    const [enriched] = applyEnrichment(
+      [record],
+      new Map([["10.0.0.1", { values: { City: "Jakarta", Country: "SG" }, enrichedBy: { City: "geo.csv", Country: "geo.csv" } }]])
+    );
+    expect(enriched).toMatchObject({ City: "Jakarta", Country: "ID", enrichedBy: { City: "geo.csv" } });
+    expect(enriched.enrichedBy).not.toHaveProperty("Country");
+  });
+});
@@ -0,0 +1,116 @@
+import { IPData } from "@/types/ipData";
+import { EnrichableField, EnrichmentProvider, IPEnrichment } from "@/types/enrichment";
+import { createRateLimiter } from "@/lib/rateLimit";
+import { getCachedLookup, setCachedLookup } from "./cache";
+
+export const ENRICHABLE_FIELDS: EnrichableField[] = ["Country", "City", "ISP", "Domain", "UsageType", "ASN"];
+
+// A provider that keeps failing (unreachable, CORS, bad key) is skipped for the rest of the run
+const MAX_CONSECUTIVE_FAILURES = 5;
+// How many lookups to batch before reporting progress
+const UPDATE_EVERY = 10;
+
+// The parser defaults several optional columns to "-"
+export const isBlank = (value: string | undefined) => !value || value.trim() === "" || value.trim() === "-";
+
+// Blank fields per IP, across all of its rows
+export function blankFieldsByIP(records: IPData[]): Map<string, Set<EnrichableField>> {
+  const blanks = new Map<string, Set<EnrichableField>>();
+  for (const record of records) {
+    for (const field of ENRICHABLE_FIELDS) {
+      if (!isBlank(record[field])) continue;
+      const fields = blanks.get(record.IP) ?? new Set<EnrichableField>();
+      fields.add(field);
+      blanks.set(record.IP, fields);
+    }
+  }
+  return blanks;
+}
+
+export interface EnrichmentProgress {
+  done: number;
+  total: number;
+}
+
+interface EnrichOptions {
+  signal?: AbortSignal;
+  /** Called with everything found so far, every few lookups and once at the end */
+  onUpdate?: (enrichments: Map<string, IPEnrichment>, progress: EnrichmentProgress) => void;
+}
+
+// Asks each provider in turn for the fields still blank; earlier providers win
+export async function enrichIPs(
+  blanks: Map<string, Set<EnrichableField>>,
+  providers: EnrichmentProvider[],
+  { signal, onUpdate }: EnrichOptions = {}
+): Promise<Map<string, IPEnrichment>> {
+  const enrichments = new Map<string, IPEnrichment>();
+  const remaining = new Map([...blanks].map(([ip, fields]) => [ip, new Set(fields)]));
+  const progress = { done: 0, total: 0 };
+  const wanted = (provider: EnrichmentProvider, ip: string) =>
+    provider.fields.some((field) => remaining.get(ip)?.has(field));
+  const report = () => onUpdate?.(new Map(enrichments), { ...progress });
+
+  for (const provider of providers) {
+    const schedule = provider.rateLimit ? createRateLimiter(provider.rateLimit) : null;
+    const ips = [...remaining.keys()].filter((ip) => wanted(provider, ip));
+    progress.total += ips.length;
+    let failures = 0;
+
+    for (const ip of ips) {
+      if (signal?.aborted) return enrichments;
+      progress.done++;
+      if (failures >= MAX_CONSECUTIVE_FAILURES || !wanted(provider, ip)) continue;
+
+      // Providers answering from memory are neither cached nor rate limited
+      let result = schedule ? getCachedLookup(provider.id, ip) : undefined;
+      if (!result) {
+        try {
+          result = schedule ? await schedule(() => provider.lookup(ip, signal)) : await provider.lookup(ip, signal);
+          if (schedule) setCachedLookup(provider.id, ip, result);
+          failures = 0;
+        } catch (error) {
+          if (signal?.aborted) return enrichments;
+          failures++;
+          if (failures === MAX_CONSECUTIVE_FAILURES) {
+            console.warn(`Skipping enrichment provider ${provider.label} after repeated failures:`, error);
+          }
+          continue;
+        }
+      }
+
+      const fields = remaining.get(ip)!;
+      for (const field of provider.fields) {
+        const value = result[field]?.trim();
+        if (!fields.has(field) || isBlank(value)) continue;
+        const enrichment = enrichments.get(ip) ?? { values: {}, enrichedBy: {} };
+        enrichment.values[field] = value;
+        enrichment.enrichedBy[field] = provider.label;
+        enrichments.set(ip, enrichment);
+        fields.delete(field);
+      }
+      if (fields.size === 0) remaining.delete(ip);
+      if (progress.done % UPDATE_EVERY === 0) report();
+    }
+  }
+  report();
+  return enrichments;
+}
+
+// Fills each record's blank fields from its IP's enrichment; records without changes are returned as is
+export function applyEnrichment(records: IPData[], enrichments: Map<string, IPEnrichment>): IPData[] {
+  if (enrichments.size === 0) return records;
+  return records.map((record) => {
+    const enrichment = enrichments.get(record.IP);
+    if (!enrichment) return record;
+    const fields = ENRICHABLE_FIELDS.filter((field) => isBlank(record[field]) && enrichment.values[field]);
+    if (fields.length === 0) return record;
+
+    const enriched: IPData = { ...record, enrichedBy: { ...record.enrichedBy } };
+    for (const field of fields) {
+      enriched[field] = enrichment.values[field]!;
+      enriched.enrichedBy![field] = enrichment.enrichedBy[field];
+    }
+    return enriched;
+  });
+}
@@ -0,0 +1,28 @@
+import { EnrichmentProvider } from "@/types/enrichment";
+import { createRdapProvider } from "@/services/whoisProviders";
+
+// RDAP is public infrastructure; rdap.org asks clients to stay well under 10 queries per 10 seconds
+export const DEFAULT_RDAP_RATE_LIMIT = 0.5;
+
+// Registration data: the country of the allocation, the registrant as ISP and, where the
+// registry publishes it (ARIN), the originating ASN
+export function createRdapEnrichmentProvider(url?: string, rateLimit = DEFAULT_RDAP_RATE_LIMIT): EnrichmentProvider {
+  const rdap = createRdapProvider(url || undefined);
+
+  return {
+    id: `enrich-${rdap.id}`,
+    label: rdap.label,
+    fields: ["Country", "ISP", "ASN"],
+    rateLimit,
+    async lookup(ip, signal) {
+      const record = await rdap.lookup(ip, signal);
+      const registrant = record.contacts.find((contact) => contact.roles.includes("registrant"));
+      const originAS = (record.raw as { arin_originas0_originautnums?: number[] }).arin_originas0_originautnums?.[0];
+      return {
+        Country: record.country,
+        ISP: registrant?.name ?? record.name,
+        ASN: originAS !== undefined ? `AS${originAS}` : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createRestEnrichmentProvider, parseLookupResponse } from "./restProvider";
+
+describe("parseLookupResponse", () => {
+  it("splits an ipinfo-style org into ASN and ISP", () => {
+    expect(
+      parseLookupResponse({
+        ip: "36.66.1.1",
+        city: "Jakarta",
+        country: "ID",
+        org: "AS7713 PT Telekomunikasi Indonesia",
+      })
+    ).toEqual({ City: "Jakarta", Country: "ID", ASN: "AS7713", ISP: "PT Telekomunikasi Indonesia" });
+  });
+
+  it("reads ip-api-style bodies, preferring the named fields over the combined one", () => {
+    expect(
+      parseLookupResponse({
+        status: "success",
+        country: "Indonesia",
+        countryCode: "ID",
+        city: "Surabaya",
+        isp: "PT Indosat",
+        org: "Indosat Ooredoo",
+        as: "AS4761 INDOSAT-INP-AP",
+      })
+    ).toEqual({ Country: "Indonesia", City: "Surabaya", ISP: "PT Indosat", ASN: "AS4761" });
+  });
+
+  it("prefixes a bare AS number and ignores what is not a flat object", () => {
+    expect(parseLookupResponse({ asn: 64500, domain: " " })).toEqual({ ASN: "AS64500" });
+    expect(parseLookupResponse("AS64500")).toEqual({});
+    expect(parseLookupResponse(null)).toEqual({});
+  });
+});
+
+// The service from `npm run mock:ipinfo`
+let server: ChildProcess;
+let serverUrl: string;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ["scripts/mock-ipinfo-server.mjs"], {
+    env: { ...process.env, PORT: "0", DELAY_MS: "0" },
+  });
+  let output = "";
+  serverUrl = await new Promise<string>((resolve, reject) => {
+    server.on("error", reject);
+    server.stdout!.on("data", (chunk) => {
+      output += chunk;
+      const match = output.match(/on (http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+  });
+});
+
+afterAll(() => {
+  server.kill();
+});
+
+describe("createRestEnrichmentProvider", () => {
+  it("looks up <url>/<ip> against the mock service", async () => {
+    const provider = createRestEnrichmentProvider(serverUrl, 10);
+    expect(provider).toMatchObject({ id: `rest:${serverUrl}`, label: new URL(serverUrl).host, rateLimit: 10 });
+
+    const result = await provider.lookup("203.0.113.7");
+    expect(result.ASN).toMatch(/^AS645\d\d$/);
+    expect(result.ISP).toMatch(/^Mock Network \d$/);
+    expect(result.Country).toMatch(/^(ID|SG|DE|US)$/);
+    expect(result.City).toBeTruthy();
+    expect(result.UsageType).toBeTruthy();
+  });
+
+  it("fills the {ip} placeholder of an ipinfo-style URL", async () => {
+    const result = await createRestEnrichmentProvider(`${serverUrl}/{ip}/json`).lookup("2001:db8::1");
+    expect(result.ASN).toMatch(/^AS645\d\d$/);
+  });
+
+  it("treats a 404 as an address the service knows nothing about", async () => {
+    expect(await createRestEnrichmentProvider(serverUrl).lookup("0.1.2.3")).toEqual({});
+  });
+
+  it("fails on other HTTP errors", async () => {
+    await expect(createRestEnrichmentProvider(serverUrl).lookup("255.0.0.1")).rejects.toThrow(/HTTP 429/);
+  });
+});
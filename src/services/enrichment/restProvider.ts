@@ -0,0 +1,69 @@
+import { EnrichableField, EnrichmentProvider, EnrichmentResult } from "@/types/enrichment";
+
+export const DEFAULT_REST_RATE_LIMIT = 5;
+
+// Response keys (lowercased) accepted for each field, covering ipinfo.io and ip-api style answers
+const RESPONSE_KEYS: Record<EnrichableField, string[]> = {
+  Country: ["country", "country_name", "countrycode", "country_code"],
+  City: ["city"],
+  ISP: ["isp", "organization", "as_name", "asname"],
+  ASN: ["asn", "as_number"],
+  UsageType: ["usagetype", "usage_type", "usage"],
+  Domain: ["domain"],
+};
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url.replace("{ip}", "ip")).host;
+  } catch {
+    return url;
+  }
+}
+
+const urlFor = (template: string, ip: string) =>
+  template.includes("{ip}")
+    ? template.replace("{ip}", encodeURIComponent(ip))
+    : `${template.replace(/\/+$/, "")}/${encodeURIComponent(ip)}`;
+
+export function parseLookupResponse(body: unknown): EnrichmentResult {
+  if (!body || typeof body !== "object") return {};
+  const entries = Object.entries(body as Record<string, unknown>).map(
+    ([key, value]) => [key.toLowerCase(), value] as const
+  );
+  const get = (keys: string[]) => {
+    const value = entries.find(([key]) => keys.includes(key))?.[1];
+    return typeof value === "string" || typeof value === "number" ? String(value).trim() || undefined : undefined;
+  };
+
+  const result: EnrichmentResult = {};
+  for (const field of Object.keys(RESPONSE_KEYS) as EnrichableField[]) {
+    const value = get(RESPONSE_KEYS[field]);
+    if (value) result[field] = field === "ASN" && /^\d+$/.test(value) ? `AS${value}` : value;
+  }
+  // ipinfo.io combines both as org: "AS7713 PT Telekomunikasi Indonesia"; ip-api sends a plain org next to as: "AS7713 …"
+  const org = get(["org"]);
+  for (const combined of [org, get(["as"])]) {
+    const match = combined && /^(AS\d+)\s+(.+)$/i.exec(combined);
+    if (!match) continue;
+    if (!result.ASN) result.ASN = match[1].toUpperCase();
+    if (!result.ISP) result.ISP = match[2];
+  }
+  if (org && !result.ISP) result.ISP = org;
+  return result;
+}
+
+// A lookup service answering GET <url>/<ip> (or a URL containing "{ip}") with a flat JSON object
+export function createRestEnrichmentProvider(url: string, rateLimit = DEFAULT_REST_RATE_LIMIT): EnrichmentProvider {
+  return {
+    id: `rest:${url}`,
+    label: hostOf(url),
+    fields: Object.keys(RESPONSE_KEYS) as EnrichableField[],
+    rateLimit,
+    async lookup(ip, signal) {
+      const response = await fetch(urlFor(url, ip), { headers: { Accept: "application/json" }, signal });
+      if (response.status === 404) return {};
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      return parseLookupResponse(await response.json());
+    },
+  };
+}
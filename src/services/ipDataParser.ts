@@ -0,0 +1,95 @@
+import { ColumnReport, IngestResult } from "@/types/dataSource";
+import { CsvRow, parseCsv } from "@/lib/csv";
+import {
+  ColumnMapping,
+  DEFAULT_COLUMN_MAPPING,
+  IPDataField,
+  MissingColumnsError,
+  resolveColumns,
+} from "./columnMapping";
+import { RawIPRecord, validateRecord } from "./ipDataSchema";
+
+export function parseIPDataCsv(csvText: string, mapping?: ColumnMapping): IngestResult {
+  return parseIPDataRows(parseCsv(csvText), mapping);
+}
+
+// The first row is the header; it decides which column feeds which IPData field
+export function parseIPDataRows(
+  rows: CsvRow[],
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): IngestResult {
+  if (rows.length < 2) {
+    throw new Error('Not enough data lines');
+  }
+
+  const { indices, report } = resolveColumns(rows[0].fields, mapping);
+  if (report.missingRequired.length > 0) {
+    throw new MissingColumnsError(report);
+  }
+
+  return collect(
+    rows.slice(1).map((row) => ({
+      line: row.line,
+      raw: pick(indices, (index) => row.fields[index]),
+    })),
+    report
+  );
+}
+
+// Accepts either a bare array of records or an envelope such as { data: [...] }
+export function parseIPDataJson(
+  payload: unknown,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): IngestResult {
+  const rows = Array.isArray(payload)
+    ? payload
+    : (payload as { data?: unknown })?.data;
+
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON payload is not an array of IP records');
+  }
+
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row ?? {})))];
+  const { indices, report } = resolveColumns(keys, mapping);
+  if (report.missingRequired.length > 0) {
+    throw new MissingColumnsError(report);
+  }
+
+  return collect(
+    rows.map((row: Record<string, unknown>, index) => ({
+      line: index + 1,
+      raw: pick(indices, (keyIndex) => {
+        const value = row?.[keys[keyIndex]];
+        return value === undefined || value === null ? undefined : String(value);
+      }),
+    })),
+    report
+  );
+}
+
+function pick(
+  indices: Partial<Record<IPDataField, number>>,
+  get: (index: number) => string | undefined
+): RawIPRecord {
+  const raw: RawIPRecord = {};
+  for (const field of Object.keys(indices) as IPDataField[]) {
+    raw[field] = get(indices[field]!);
+  }
+  return raw;
+}
+
+// Invalid rows are reported with their line number instead of being coerced into a record
+function collect(rows: { line: number; raw: RawIPRecord }[], columns: ColumnReport): IngestResult {
+  const result: IngestResult = { records: [], columns, rejected: [] };
+
+  for (const { line, raw } of rows) {
+    const outcome = validateRecord(raw, line);
+    if ("record" in outcome) {
+      result.records.push(outcome.record);
+    } else {
+      result.rejected.push(outcome.rejected);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { IPData } from "@/types/ipData";
+import { RejectedRow } from "@/types/dataSource";
+import { parseReportedAt } from "@/lib/dates";
+import { IPDataField } from "./columnMapping";
+
+/** Cell values of one source row, keyed by the field they were mapped to */
+export type RawIPRecord = Partial<Record<IPDataField, string>>;
+
+const text = z.string().trim();
+const optionalText = text.transform((value) => value || "-");
+
+// Whole numbers, allowing thousands separators as exported by the sheet ("1,234" / "1.234")
+const count = text
+  .regex(/^(\d+|\d{1,3}([.,]\d{3})+)?$/, "must be a whole number")
+  .transform((value) => Number(value.replace(/[.,]/g, "")) || 0);
+
+export const ipDataSchema = z.object({
+  IP: text.min(1, "is required").ip({ message: "is not a valid IPv4 or IPv6 address" }),
+  Country: text,
+  City: optionalText,
+  ISP: text,
+  Domain: text,
+  UsageType: optionalText,
+  ASN: optionalText,
+  AbuseConfidenceScore: text
+    .regex(/^\d+%?$/, "must be a whole number")
+    .transform((value) => parseInt(value))
+    .pipe(z.number().max(100, "must be between 0 and 100")),
+  TotalReports: count,
+  LastReportedAt: text.refine(
+    (value) => value === "" || parseReportedAt(value) !== null,
+    "is not an ISO or sheet date"
+  ),
+  JenisAktivitas: text,
+  Count: count,
+  Action: text
+    .transform((value) => value.toLowerCase())
+    .pipe(z.enum(["blocked", "alerted"], { message: 'must be "Blocked" or "Alerted"' }))
+    .transform((value) => (value === "blocked" ? "Blocked" : "Alerted")),
+});
+
+export function validateRecord(
+  raw: RawIPRecord,
+  line: number
+): { record: IPData } | { rejected: RejectedRow } {
+  const input = Object.fromEntries(
+    Object.keys(ipDataSchema.shape).map((field) => [field, raw[field as IPDataField] ?? ""])
+  );
+  const result = ipDataSchema.safeParse(input);
+
+  if (result.success) {
+    // Without strictNullChecks zod infers every key as optional, so narrow explicitly
+    return { record: result.data as IPData };
+  }
+
+  return {
+    rejected: {
+      line,
+      ip: raw.IP?.trim() ?? "",
+      reason: result.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join("; "),
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbuseReport } from "@/types/reporting";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const report = (ip: string): AbuseReport => ({ ip, categories: [18], comment: "Brute force", createdAt: "2026-10-19T00:00:00Z" });
+
+// The queue state is cached per module, so each test starts from a fresh copy and empty storage
+async function loadQueue() {
+  vi.resetModules();
+  return import("./reportQueue");
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createMemoryStorage());
+  vi.stubGlobal("sessionStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("report queue limit", () => {
+  it("refuses a report when every slot holds an unsent one", async () => {
+    const queue = await loadQueue();
+    for (let i = 0; i < queue.REPORT_QUEUE_LIMIT; i++) queue.enqueueReport(report(`10.0.0.${i % 250}`));
+
+    expect(() => queue.enqueueReport(report("10.0.1.1"))).toThrow(queue.ReportQueueFullError);
+    expect(queue.loadReportQueueState().queue).toHaveLength(queue.REPORT_QUEUE_LIMIT);
+    expect(queue.loadReportQueueState().queue.every((item) => item.status === "queued")).toBe(true);
+  });
+
+  it("makes room by dropping the oldest sent report, then the oldest failed one", async () => {
+    const stored = Array.from({ length: 200 }, (_, i) => ({
+      id: `report-${i}`,
+      report: report("10.0.0.1"),
+      // Newest first: report-199 is the oldest
+      status: i === 10 || i === 190 ? "sent" : i === 199 ? "failed" : "queued",
+      attempts: 0,
+      queuedAt: 200 - i,
+    }));
+    localStorage.setItem("ip-dashboard:report-queue", JSON.stringify(stored));
+    const queue = await loadQueue();
+
+    queue.enqueueReport(report("10.0.1.1"));
+    queue.enqueueReport(report("10.0.1.2"));
+    queue.enqueueReport(report("10.0.1.3"));
+    const ids = queue.loadReportQueueState().queue.map((item) => item.id);
+    expect(ids).toHaveLength(200);
+    expect(ids).not.toContain("report-190");
+    expect(ids).not.toContain("report-10");
+    expect(ids).not.toContain("report-199");
+    expect(() => queue.enqueueReport(report("10.0.1.4"))).toThrow(queue.ReportQueueFullError);
+  });
+});
+
+describe("AbuseIPDB key storage", () => {
+  it("keeps the key out of localStorage unless asked to remember it", async () => {
+    const queue = await loadQueue();
+    queue.saveReporterConfig({ kind: "abuseipdb", apiKey: "secret-key" });
+
+    expect(localStorage.getItem("ip-dashboard:reporter")).not.toContain("secret-key");
+    expect(sessionStorage.getItem("ip-dashboard:reporter-key")).toBe("secret-key");
+    // A reload in the same session still finds it
+    expect((await loadQueue()).loadReportQueueState().config).toMatchObject({ apiKey: "secret-key" });
+  });
+
+  it("stores a remembered key in localStorage only", async () => {
+    const queue = await loadQueue();
+    queue.saveReporterConfig({ kind: "abuseipdb", apiKey: "secret-key", rememberKey: true });
+
+    expect(localStorage.getItem("ip-dashboard:reporter")).toContain("secret-key");
+    expect(sessionStorage.getItem("ip-dashboard:reporter-key")).toBeNull();
+  });
+
+  it("moves a key saved by an earlier version into the session", async () => {
+    localStorage.setItem("ip-dashboard:reporter", JSON.stringify({ kind: "abuseipdb", apiKey: "old-key" }));
+    const queue = await loadQueue();
+
+    expect(queue.loadReportQueueState().config).toMatchObject({ apiKey: "old-key" });
+    expect(localStorage.getItem("ip-dashboard:reporter")).not.toContain("old-key");
+    expect(sessionStorage.getItem("ip-dashboard:reporter-key")).toBe("old-key");
+  });
+});
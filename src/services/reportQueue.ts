@@ -0,0 +1,153 @@
+import { AbuseReport, QueuedReport, ReporterConfig } from "@/types/reporting";
+import { createReporter } from "./reporters";
+
+const CONFIG_KEY = "ip-dashboard:reporter";
+const QUEUE_KEY = "ip-dashboard:report-queue";
+// Session-only home of the AbuseIPDB key unless the user asks for it to be remembered
+const SESSION_KEY_KEY = "ip-dashboard:reporter-key";
+export const REPORT_QUEUE_LIMIT = 200;
+
+export class ReportQueueFullError extends Error {
+  constructor() {
+    super(`The report queue already holds ${REPORT_QUEUE_LIMIT} unsent reports; send or remove some first`);
+    this.name = "ReportQueueFullError";
+  }
+}
+
+export interface ReportQueueState {
+  config: ReporterConfig;
+  /** Newest first */
+  queue: QueuedReport[];
+}
+
+let state: ReportQueueState | null = null;
+let flushing = false;
+const listeners: Array<() => void> = [];
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored) as T;
+  } catch (error) {
+    console.warn(`Ignoring invalid ${key}:`, error);
+  }
+  return fallback;
+}
+
+function loadReporterConfig(): ReporterConfig {
+  const config = read<ReporterConfig>(CONFIG_KEY, { kind: "local" });
+  if (config.kind !== "abuseipdb" || config.rememberKey) return config;
+  // Keys saved before the remember option existed move to the session
+  const apiKey = config.apiKey || sessionStorage.getItem(SESSION_KEY_KEY) || "";
+  if (config.apiKey) persistReporterConfig({ ...config, apiKey });
+  return { ...config, apiKey };
+}
+
+// The API key only reaches localStorage, unencrypted, when the user opted to remember it
+function persistReporterConfig(config: ReporterConfig) {
+  if (config.kind === "abuseipdb" && !config.rememberKey) {
+    if (config.apiKey) sessionStorage.setItem(SESSION_KEY_KEY, config.apiKey);
+    else sessionStorage.removeItem(SESSION_KEY_KEY);
+    localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...config, apiKey: "" }));
+    return;
+  }
+  sessionStorage.removeItem(SESSION_KEY_KEY);
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+}
+
+export function loadReportQueueState(): ReportQueueState {
+  if (state) return state;
+  // A report left "sending" was interrupted by a reload and goes back in the queue
+  const queue = read<QueuedReport[]>(QUEUE_KEY, []).map((item) =>
+    item.status === "sending" ? { ...item, status: "queued" as const } : item
+  );
+  return (state = { config: loadReporterConfig(), queue });
+}
+
+function update(patch: Partial<ReportQueueState>) {
+  state = { ...loadReportQueueState(), ...patch };
+  if (patch.config) persistReporterConfig(state.config);
+  if (patch.queue) localStorage.setItem(QUEUE_KEY, JSON.stringify(state.queue));
+  listeners.forEach((listener) => listener());
+}
+
+function updateItem(id: string, patch: Partial<QueuedReport>) {
+  update({ queue: loadReportQueueState().queue.map((item) => (item.id === id ? { ...item, ...patch } : item)) });
+}
+
+export function subscribeReportQueue(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+export function saveReporterConfig(config: ReporterConfig) {
+  update({ config });
+}
+
+// Room for one more report: the oldest sent reports go first, then the oldest failed ones.
+// Reports still waiting to be sent are never dropped.
+function makeRoom(queue: QueuedReport[]): QueuedReport[] {
+  const excess = queue.length - REPORT_QUEUE_LIMIT + 1;
+  if (excess <= 0) return queue;
+  const evictable = [
+    ...queue.filter((item) => item.status === "sent").reverse(),
+    ...queue.filter((item) => item.status === "failed").reverse(),
+  ];
+  if (evictable.length < excess) throw new ReportQueueFullError();
+  const evicted = new Set(evictable.slice(0, excess));
+  return queue.filter((item) => !evicted.has(item));
+}
+
+export function enqueueReport(report: AbuseReport): QueuedReport {
+  const queue = makeRoom(loadReportQueueState().queue);
+  const item: QueuedReport = {
+    id: `report-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    report,
+    status: "queued",
+    attempts: 0,
+    queuedAt: Date.now(),
+  };
+  update({ queue: [item, ...queue] });
+  return item;
+}
+
+export function retryReport(id: string) {
+  updateItem(id, { status: "queued", error: undefined });
+}
+
+export function removeQueuedReport(id: string) {
+  update({ queue: loadReportQueueState().queue.filter((item) => item.id !== id) });
+}
+
+export function clearSentReports() {
+  update({ queue: loadReportQueueState().queue.filter((item) => item.status !== "sent") });
+}
+
+// Sends queued reports oldest first through the configured reporter; failures stay in the queue for a retry
+export async function flushReportQueue(): Promise<void> {
+  const reporter = createReporter(loadReportQueueState().config);
+  if (!reporter || flushing) return;
+  flushing = true;
+  try {
+    // Re-read each time so reports queued while sending are picked up too
+    for (;;) {
+      const item = loadReportQueueState()
+        .queue.filter((queued) => queued.status === "queued")
+        .pop();
+      if (!item) break;
+      const attempts = item.attempts + 1;
+      updateItem(item.id, { status: "sending", attempts });
+      try {
+        const { reference } = await reporter.submit(item.report);
+        updateItem(item.id, { status: "sent", reference, error: undefined, sentAt: Date.now() });
+      } catch (error) {
+        updateItem(item.id, { status: "failed", error: (error as Error).message });
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
@@ -0,0 +1,69 @@
+import { AbuseReport, AbuseReporter, ReporterConfig, ReporterKind } from "@/types/reporting";
+
+export const ABUSEIPDB_REPORT_URL = "https://api.abuseipdb.com/api/v2/report";
+
+export const REPORTER_LABELS: Record<ReporterKind, string> = {
+  local: "Keep in local queue",
+  rest: "REST endpoint",
+  abuseipdb: "AbuseIPDB",
+};
+
+async function failure(response: Response): Promise<Error> {
+  const text = await response.text().catch(() => "");
+  return new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ""}`.trim());
+}
+
+// POSTs the report as JSON, e.g. to a ticketing relay; an `id` in the response becomes the reference
+export function createRestReporter(url: string): AbuseReporter {
+  return {
+    id: `rest:${url}`,
+    label: url,
+    async submit(report, signal) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(report),
+        signal,
+      });
+      if (!response.ok) throw await failure(response);
+      const body = await response.json().catch(() => null);
+      return { reference: body?.id !== undefined ? String(body.id) : undefined };
+    },
+  };
+}
+
+// AbuseIPDB does not allow browser origins, so `url` usually points at a relay that adds CORS headers
+export function createAbuseIPDBReporter(apiKey: string, url = ABUSEIPDB_REPORT_URL): AbuseReporter {
+  return {
+    id: `abuseipdb:${url}`,
+    label: "AbuseIPDB",
+    async submit(report: AbuseReport, signal) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { Key: apiKey, Accept: "application/json", "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          ip: report.ip,
+          categories: report.categories.join(","),
+          comment: report.comment,
+        }),
+        signal,
+      });
+      if (!response.ok) throw await failure(response);
+      const body = await response.json().catch(() => null);
+      const score = body?.data?.abuseConfidenceScore;
+      return { reference: score !== undefined ? `confidence ${score}%` : undefined };
+    },
+  };
+}
+
+// The local reporter sends nothing; reports wait in the queue until another reporter is configured
+export function createReporter(config: ReporterConfig): AbuseReporter | null {
+  switch (config.kind) {
+    case "local":
+      return null;
+    case "rest":
+      return config.url ? createRestReporter(config.url) : null;
+    case "abuseipdb":
+      return config.apiKey ? createAbuseIPDBReporter(config.apiKey, config.url || undefined) : null;
+  }
+}
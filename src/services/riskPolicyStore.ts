@@ -0,0 +1,39 @@
+import { RiskPolicy } from "@/types/riskPolicy";
+import { DEFAULT_RISK_POLICY, validateRiskPolicy } from "@/lib/riskPolicy";
+
+const STORAGE_KEY = "ip-dashboard:risk-policy";
+
+let currentPolicy: RiskPolicy | null = null;
+const listeners: Array<() => void> = [];
+
+export function loadRiskPolicy(): RiskPolicy {
+  if (currentPolicy) return currentPolicy;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // Policies saved before weights existed pick up the default weights
+    const policy = stored ? ({ ...DEFAULT_RISK_POLICY, ...JSON.parse(stored) } as RiskPolicy) : null;
+    if (policy && validateRiskPolicy(policy).length === 0) return (currentPolicy = policy);
+  } catch (error) {
+    console.warn("Ignoring invalid risk policy:", error);
+  }
+  return (currentPolicy = DEFAULT_RISK_POLICY);
+}
+
+// Passing null restores the default tiers
+export function saveRiskPolicy(policy: RiskPolicy | null) {
+  if (policy) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  currentPolicy = policy ?? DEFAULT_RISK_POLICY;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeRiskPolicy(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
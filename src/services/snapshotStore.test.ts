@@ -0,0 +1,123 @@
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+import { createMemoryStorage } from "@/test/memoryStorage";
+
+const SOURCE = "source-a";
+const DAY = 24 * 60 * 60 * 1000;
+const row = (IP: string, AbuseConfidenceScore: number) => ({ ...FIXTURE_IP_DATA[0], IP, AbuseConfidenceScore });
+
+// The store caches its database connection, so every test loads a fresh copy against an empty database
+async function loadStore() {
+  vi.resetModules();
+  return import("./snapshotStore");
+}
+
+// Writes a snapshot the way version 1 of the database stored it, records and all
+function seedVersion1(snapshot: { sourceId: string; takenAt: number; records: unknown[] }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open("ip-threat-monitor", 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore("snapshots", { keyPath: "id", autoIncrement: true });
+      store.createIndex("sourceId_takenAt", ["sourceId", "takenAt"]);
+    };
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction("snapshots", "readwrite");
+      tx.objectStore("snapshots").add(snapshot);
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    };
+  });
+}
+
+beforeEach(() => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("IDBKeyRange", IDBKeyRange);
+  vi.stubGlobal("localStorage", createMemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("snapshotStore", () => {
+  it("lists snapshots newest first with their record counts", async () => {
+    const store = await loadStore();
+    await store.saveSnapshot(SOURCE, [row("10.0.0.1", 10)], 1000);
+    await store.saveSnapshot(SOURCE, [row("10.0.0.1", 20), row("10.0.0.2", 5)], 2000);
+
+    const listed = await store.listSnapshots(SOURCE);
+    expect(listed.map(({ takenAt, recordCount }) => ({ takenAt, recordCount }))).toEqual([
+      { takenAt: 2000, recordCount: 2 },
+      { takenAt: 1000, recordCount: 1 },
+    ]);
+    expect(listed[0]).not.toHaveProperty("records");
+    expect((await store.getSnapshot(listed[0].id))?.records).toHaveLength(2);
+  });
+
+  it("skips a save identical to the newest snapshot", async () => {
+    const store = await loadStore();
+    expect(await store.saveSnapshot(SOURCE, [row("10.0.0.1", 10)], 1000)).toBe(true);
+    expect(await store.saveSnapshot(SOURCE, [row("10.0.0.1", 10)], 2000)).toBe(false);
+    expect(await store.saveSnapshot(SOURCE, [row("10.0.0.1", 11)], 3000)).toBe(true);
+  });
+
+  it("stores one snapshot when overlapping refetches save the same data", async () => {
+    const store = await loadStore();
+    const records = [row("10.0.0.1", 10)];
+    const saved = await Promise.all([store.saveSnapshot(SOURCE, records, 1000), store.saveSnapshot(SOURCE, records, 1001)]);
+
+    expect(saved.filter(Boolean)).toHaveLength(1);
+    expect(await store.listSnapshots(SOURCE)).toHaveLength(1);
+  });
+
+  it("returns an IP's history by normalized address, merging its rows per snapshot", async () => {
+    const store = await loadStore();
+    await store.saveSnapshot(SOURCE, [row("2001:db8::1", 10), row("2001:DB8:0::1", 40), row("10.0.0.1", 5)], 1000);
+    await store.saveSnapshot(SOURCE, [row("10.0.0.1", 5)], 2000);
+    await store.saveSnapshot(SOURCE, [row("2001:db8::1", 70)], 3000);
+
+    const history = await store.getIPHistory(SOURCE, "2001:0db8::0001");
+    expect(history.map(({ takenAt, AbuseConfidenceScore }) => [takenAt, AbuseConfidenceScore])).toEqual([
+      [1000, 40],
+      [3000, 70],
+    ]);
+  });
+
+  it("drops expired snapshots together with their records and IP history", async () => {
+    const store = await loadStore();
+    await store.saveSnapshot(SOURCE, [row("10.0.0.1", 10)], 0);
+    await store.saveSnapshot(SOURCE, [row("10.0.0.1", 20)], 10 * DAY);
+    const [, oldest] = await store.listSnapshots(SOURCE);
+
+    await store.applyRetention(SOURCE, { maxAgeDays: 5, maxSnapshots: 10 }, 10 * DAY);
+
+    expect((await store.listSnapshots(SOURCE)).map((snapshot) => snapshot.takenAt)).toEqual([10 * DAY]);
+    expect(await store.getSnapshot(oldest.id)).toBeNull();
+    expect((await store.getIPHistory(SOURCE, "10.0.0.1")).map((point) => point.takenAt)).toEqual([10 * DAY]);
+  });
+
+  it("keeps only the newest snapshots allowed by the policy", async () => {
+    const store = await loadStore();
+    store.saveRetentionPolicy({ maxAgeDays: 30, maxSnapshots: 2 });
+    for (let i = 1; i <= 4; i++) await store.saveSnapshot(SOURCE, [row("10.0.0.1", i)], i * 1000);
+
+    expect((await store.listSnapshots(SOURCE)).map((snapshot) => snapshot.takenAt)).toEqual([4000, 3000]);
+  });
+
+  it("moves snapshots saved by the previous database version into the new stores", async () => {
+    await seedVersion1({ sourceId: SOURCE, takenAt: 1000, records: [row("10.0.0.1", 30), row("10.0.0.2", 50)] });
+    const store = await loadStore();
+
+    const [snapshot] = await store.listSnapshots(SOURCE);
+    expect(snapshot.recordCount).toBe(2);
+    expect((await store.getLatestSnapshot(SOURCE))?.records).toHaveLength(2);
+    expect(await store.getIPHistory(SOURCE, "10.0.0.2")).toMatchObject([{ takenAt: 1000, AbuseConfidenceScore: 50 }]);
+    // The migrated fingerprint still recognises an unchanged refresh
+    expect(await store.saveSnapshot(SOURCE, [row("10.0.0.1", 30), row("10.0.0.2", 50)], 2000)).toBe(false);
+  });
+});
@@ -0,0 +1,314 @@
+import { IPData } from "@/types/ipData";
+import { mergeRows } from "@/lib/aggregate";
+import { normalizeIP } from "@/lib/ipAddress";
+import { IPHistoryPoint, RetentionPolicy, Snapshot, SnapshotMeta } from "@/types/snapshot";
+
+const DB_NAME = "ip-threat-monitor";
+const DB_VERSION = 2;
+// Metadata only, so listing and retention never read the records themselves
+const SNAPSHOTS = "snapshots";
+const RECORDS = "snapshotRecords";
+// One summary row per IP per snapshot, written at save time for the IP detail chart
+const IP_HISTORY = "ipHistory";
+const BY_SOURCE = "sourceId_takenAt";
+const BY_IP = "sourceId_ip_takenAt";
+const BY_SNAPSHOT = "snapshotId";
+const RETENTION_KEY = "ip-dashboard:snapshot-retention";
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeDays: 30,
+  maxSnapshots: 200,
+};
+
+interface StoredSnapshot extends SnapshotMeta {
+  /** Hash of the records, compared against the next save to skip unchanged refreshes */
+  fingerprint: string;
+}
+
+interface StoredRecords {
+  id: number;
+  records: IPData[];
+}
+
+interface IPHistoryEntry extends IPHistoryPoint {
+  sourceId: string;
+  snapshotId: number;
+  /** Normalized address, so every spelling of an IP shares one history */
+  ip: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const snapshots =
+          event.oldVersion < 1
+            ? db.createObjectStore(SNAPSHOTS, { keyPath: "id", autoIncrement: true })
+            : request.transaction!.objectStore(SNAPSHOTS);
+        if (event.oldVersion < 1) snapshots.createIndex(BY_SOURCE, ["sourceId", "takenAt"]);
+
+        if (event.oldVersion < 2) {
+          const records = db.createObjectStore(RECORDS, { keyPath: "id" });
+          const history = db.createObjectStore(IP_HISTORY, { autoIncrement: true });
+          history.createIndex(BY_IP, ["sourceId", "ip", "takenAt"]);
+          history.createIndex(BY_SNAPSHOT, "snapshotId");
+          if (event.oldVersion >= 1) splitLegacySnapshots(snapshots, records, history);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Version 1 kept the records inside each snapshot row; move them out and build the IP history
+function splitLegacySnapshots(snapshots: IDBObjectStore, records: IDBObjectStore, history: IDBObjectStore) {
+  const request = snapshots.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const { records: rows, ...rest } = cursor.value as Snapshot;
+    const meta: StoredSnapshot = { ...rest, recordCount: rows.length, fingerprint: fingerprintOf(rows) };
+    cursor.update(meta);
+    writeSnapshotRows(records, history, meta, rows);
+    cursor.continue();
+  };
+}
+
+function writeSnapshotRows(
+  records: IDBObjectStore,
+  history: IDBObjectStore,
+  { id, sourceId, takenAt }: SnapshotMeta,
+  rows: IPData[]
+) {
+  const stored: StoredRecords = { id, records: rows };
+  records.put(stored);
+  for (const summary of summarizeByIP(rows)) {
+    const entry: IPHistoryEntry = { ...summary, sourceId, snapshotId: id, takenAt };
+    history.add(entry);
+  }
+}
+
+// An IP with several activity rows is merged the same way the dashboard groups it
+function summarizeByIP(rows: IPData[]) {
+  const byIP = new Map<string, IPData[]>();
+  for (const row of rows) {
+    const ip = normalizeIP(row.IP);
+    const group = byIP.get(ip);
+    if (group) group.push(row);
+    else byIP.set(ip, [row]);
+  }
+
+  return [...byIP].map(([ip, group]) => {
+    const merged = mergeRows(group);
+    return {
+      ip,
+      AbuseConfidenceScore: merged.AbuseConfidenceScore,
+      TotalReports: merged.TotalReports,
+      Count: merged.Count,
+      Action: merged.Action,
+    };
+  });
+}
+
+// 53-bit string hash (cyrb53); with the row count a collision would need two same-sized datasets
+function fingerprintOf(rows: IPData[]): string {
+  const text = JSON.stringify(rows);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${rows.length}:${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function transaction(stores: string[], mode: IDBTransactionMode) {
+  const db = await openDatabase();
+  return db.transaction(stores, mode);
+}
+
+function sourceRange(sourceId: string, from = 0, to = Number.MAX_SAFE_INTEGER) {
+  return IDBKeyRange.bound([sourceId, from], [sourceId, to]);
+}
+
+// Walks a source's snapshot metadata oldest first; return false from the visitor to stop early
+function eachSnapshot(
+  snapshots: IDBObjectStore,
+  sourceId: string,
+  visit: (snapshot: StoredSnapshot) => boolean | void,
+  direction: IDBCursorDirection = "next"
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = snapshots.index(BY_SOURCE).openCursor(sourceRange(sourceId), direction);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || visit(cursor.value as StoredSnapshot) === false) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+  });
+}
+
+async function newestSnapshot(snapshots: IDBObjectStore, sourceId: string): Promise<StoredSnapshot | null> {
+  let latest: StoredSnapshot | null = null;
+  await eachSnapshot(
+    snapshots,
+    sourceId,
+    (snapshot) => {
+      latest = snapshot;
+      return false;
+    },
+    "prev"
+  );
+  return latest;
+}
+
+function toMeta({ id, sourceId, takenAt, recordCount }: StoredSnapshot): SnapshotMeta {
+  return { id, sourceId, takenAt, recordCount };
+}
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  try {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    if (stored) return { ...DEFAULT_RETENTION, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn("Ignoring invalid snapshot retention policy:", error);
+  }
+  return DEFAULT_RETENTION;
+}
+
+export function saveRetentionPolicy(policy: RetentionPolicy) {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+}
+
+export async function getLatestSnapshot(sourceId: string): Promise<Snapshot | null> {
+  const tx = await transaction([SNAPSHOTS], "readonly");
+  const latest = await newestSnapshot(tx.objectStore(SNAPSHOTS), sourceId);
+  return latest && getSnapshot(latest.id);
+}
+
+export async function getSnapshot(id: number): Promise<Snapshot | null> {
+  const tx = await transaction([SNAPSHOTS, RECORDS], "readonly");
+  const [meta, stored] = await Promise.all([
+    promisify(tx.objectStore(SNAPSHOTS).get(id)) as Promise<StoredSnapshot | undefined>,
+    promisify(tx.objectStore(RECORDS).get(id)) as Promise<StoredRecords | undefined>,
+  ]);
+  return meta && stored ? { ...toMeta(meta), records: stored.records } : null;
+}
+
+export async function listSnapshots(sourceId: string): Promise<SnapshotMeta[]> {
+  const tx = await transaction([SNAPSHOTS], "readonly");
+  const snapshots: SnapshotMeta[] = [];
+  await eachSnapshot(
+    tx.objectStore(SNAPSHOTS),
+    sourceId,
+    (snapshot) => {
+      snapshots.push(toMeta(snapshot));
+    },
+    "prev"
+  );
+  return snapshots;
+}
+
+// Score and counters of one IP across every stored snapshot, oldest first
+export async function getIPHistory(sourceId: string, ip: string): Promise<IPHistoryPoint[]> {
+  const tx = await transaction([IP_HISTORY], "readonly");
+  const key = normalizeIP(ip);
+  const range = IDBKeyRange.bound([sourceId, key, 0], [sourceId, key, Number.MAX_SAFE_INTEGER]);
+  const entries = (await promisify(tx.objectStore(IP_HISTORY).index(BY_IP).getAll(range))) as IPHistoryEntry[];
+  return entries.map(({ takenAt, AbuseConfidenceScore, TotalReports, Count, Action }) => ({
+    takenAt,
+    AbuseConfidenceScore,
+    TotalReports,
+    Count,
+    Action,
+  }));
+}
+
+// Stores the records unless they are identical to the newest stored snapshot. The check and the
+// write share one transaction, so overlapping refetches cannot both store the same data.
+export async function saveSnapshot(sourceId: string, records: IPData[], takenAt = Date.now()): Promise<boolean> {
+  const fingerprint = fingerprintOf(records);
+  const tx = await transaction([SNAPSHOTS, RECORDS, IP_HISTORY], "readwrite");
+  const done = completion(tx);
+  const snapshots = tx.objectStore(SNAPSHOTS);
+
+  let saved = false;
+  const latest = await newestSnapshot(snapshots, sourceId);
+  if (latest?.fingerprint !== fingerprint) {
+    const meta = { sourceId, takenAt, recordCount: records.length, fingerprint };
+    const id = (await promisify(snapshots.add(meta))) as number;
+    writeSnapshotRows(tx.objectStore(RECORDS), tx.objectStore(IP_HISTORY), { ...meta, id }, records);
+    saved = true;
+  }
+  await done;
+
+  if (saved) await applyRetention(sourceId, loadRetentionPolicy(), takenAt);
+  return saved;
+}
+
+export async function applyRetention(sourceId: string, policy: RetentionPolicy, now = Date.now()) {
+  const cutoff = now - policy.maxAgeDays * DAY;
+  const tx = await transaction([SNAPSHOTS, RECORDS, IP_HISTORY], "readwrite");
+  const done = completion(tx);
+  const snapshots = tx.objectStore(SNAPSHOTS);
+  const history = tx.objectStore(IP_HISTORY);
+  let kept = 0;
+
+  await eachSnapshot(
+    snapshots,
+    sourceId,
+    ({ id, takenAt }) => {
+      if (takenAt >= cutoff && kept < policy.maxSnapshots) {
+        kept++;
+        return;
+      }
+      snapshots.delete(id);
+      tx.objectStore(RECORDS).delete(id);
+      const entries = history.index(BY_SNAPSHOT).openKeyCursor(id);
+      entries.onsuccess = () => {
+        const cursor = entries.result;
+        if (!cursor) return;
+        history.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    },
+    "prev"
+  );
+  await done;
+}
+
+export async function clearSnapshots(sourceId: string) {
+  await applyRetention(sourceId, { maxAgeDays: 0, maxSnapshots: 0 }, Number.MAX_SAFE_INTEGER);
+}
@@ -0,0 +1,85 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebhookEndpoint } from "@/types/webhooks";
+import { testAlertEvent } from "@/lib/webhookPayloads";
+import { createMemoryStorage } from "@/test/memoryStorage";
+import { deliverWebhook, isOpaqueReceiver } from "./webhookDelivery";
+import { loadWebhookState } from "./webhookStore";
+
+vi.stubGlobal("localStorage", createMemoryStorage());
+
+// The receiver from `npm run mock:webhook`, failing its first request so the retry path runs
+let receiver: ChildProcess;
+let receiverUrl: string;
+let output = "";
+
+beforeAll(async () => {
+  receiver = spawn(process.execPath, ["scripts/mock-webhook-server.mjs"], {
+    env: { ...process.env, PORT: "0", FAIL_FIRST: "1" },
+  });
+  receiver.stdout!.on("data", (chunk) => (output += chunk));
+  receiverUrl = await new Promise<string>((resolve, reject) => {
+    receiver.on("error", reject);
+    receiver.stdout!.on("data", () => {
+      const match = output.match(/on (http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+  });
+});
+
+afterAll(() => {
+  receiver.kill();
+});
+
+// The receiver logs after answering, so its output can trail the response by a moment
+async function receiverLogged(text: string) {
+  await vi.waitFor(() => expect(output).toContain(text));
+}
+
+const endpoint = (patch: Partial<WebhookEndpoint>): WebhookEndpoint => ({
+  id: "test",
+  name: "Mock receiver",
+  url: `${receiverUrl}/hook`,
+  format: "generic",
+  enabled: true,
+  ...patch,
+});
+
+describe("deliverWebhook", () => {
+  it("retries a 503 and delivers on the next attempt", async () => {
+    const event = testAlertEvent();
+    const delivery = await deliverWebhook(endpoint({}), event);
+
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 2, httpStatus: 200 });
+    expect(loadWebhookState().deliveries[0]).toEqual(delivery);
+    // The receiver got parseable JSON even though it was sent as text/plain
+    await receiverLogged("/hook -> 503");
+    await receiverLogged("/hook -> 200");
+    await receiverLogged(`"id": "${event.id}"`);
+  }, 10_000);
+
+  it("renders a custom template into the body", async () => {
+    const delivery = await deliverWebhook(
+      endpoint({ id: "custom", format: "custom", template: '{"summary": "{{title}} / {{rule}}"}' }),
+      testAlertEvent()
+    );
+    expect(delivery.status).toBe("delivered");
+    await receiverLogged('"summary": "Test alert from the IP threat dashboard / Test message"');
+  });
+
+  it("fails at once on a template that is not JSON", async () => {
+    const delivery = await deliverWebhook(endpoint({ id: "broken", format: "custom", template: "{" }), testAlertEvent());
+    expect(delivery).toMatchObject({ status: "failed", attempts: 0 });
+    expect(delivery.error).toContain("not valid JSON");
+  });
+});
+
+describe("isOpaqueReceiver", () => {
+  it("matches Slack and Teams incoming webhooks only", () => {
+    expect(isOpaqueReceiver("https://hooks.slack.com/services/T000/B000/XXX")).toBe(true);
+    expect(isOpaqueReceiver("https://contoso.webhook.office.com/webhookb2/abc")).toBe(true);
+    expect(isOpaqueReceiver("https://prod-01.westus.logic.azure.com/workflows/abc")).toBe(true);
+    expect(isOpaqueReceiver("http://localhost:8787/hook")).toBe(false);
+    expect(isOpaqueReceiver("not a url")).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { AlertEvent } from "@/types/alerts";
+import { WebhookDelivery, WebhookEndpoint } from "@/types/webhooks";
+import { buildWebhookPayload } from "@/lib/webhookPayloads";
+import { loadWebhookState, recordDelivery } from "./webhookStore";
+
+export const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Network errors, rate limiting and server errors are worth another try; other 4xx are not
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Slack and Teams incoming webhooks process the request but send no CORS headers, so the browser can
+// never read their response. They get a no-cors request and are logged as "sent" instead of retried.
+const OPAQUE_RECEIVERS = [/^hooks\.slack\.com$/, /\.webhook\.office\.com$/, /\.logic\.azure\.com$/];
+
+export function isOpaqueReceiver(url: string): boolean {
+  try {
+    const host = new URL(url).hostname;
+    return OPAQUE_RECEIVERS.some((pattern) => pattern.test(host));
+  } catch {
+    return false;
+  }
+}
+
+export async function deliverWebhook(endpoint: WebhookEndpoint, event: AlertEvent): Promise<WebhookDelivery> {
+  let delivery: WebhookDelivery = {
+    id: `${endpoint.id}-${event.id}`,
+    endpointId: endpoint.id,
+    endpointName: endpoint.name,
+    title: event.title,
+    status: "pending",
+    attempts: 0,
+    startedAt: Date.now(),
+  };
+  recordDelivery(delivery);
+
+  let body: string;
+  try {
+    body = JSON.stringify(buildWebhookPayload(endpoint, event));
+  } catch (error) {
+    // A broken template fails the same way on every attempt
+    delivery = { ...delivery, status: "failed", error: (error as Error).message };
+    recordDelivery(delivery);
+    return delivery;
+  }
+  const opaque = isOpaqueReceiver(endpoint.url);
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let retryable = true;
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        // text/plain keeps this a CORS-simple request; a JSON content type triggers a preflight that
+        // Slack and Teams reject. Receivers parse the body as JSON regardless of the header.
+        headers: { "Content-Type": "text/plain;charset=UTF-8" },
+        body,
+        mode: opaque ? "no-cors" : "cors",
+      });
+      if (response.type === "opaque") {
+        delivery = { ...delivery, attempts: attempt, status: "sent", error: undefined };
+        recordDelivery(delivery);
+        return delivery;
+      }
+      delivery = { ...delivery, attempts: attempt, httpStatus: response.status, error: undefined };
+      if (response.ok) {
+        delivery = { ...delivery, status: "delivered" };
+        recordDelivery(delivery);
+        return delivery;
+      }
+      retryable = isRetryable(response.status);
+      delivery = { ...delivery, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+    } catch (error) {
+      // fetch rejects on network and CORS failures without a status
+      delivery = { ...delivery, attempts: attempt, httpStatus: undefined, error: (error as Error).message };
+    }
+
+    const last = attempt === MAX_ATTEMPTS || !retryable;
+    delivery = { ...delivery, status: last ? "failed" : "pending" };
+    recordDelivery(delivery);
+    if (last) return delivery;
+
+    // 1s, 2s, 4s between attempts
+    await wait(BASE_DELAY_MS * 2 ** (attempt - 1));
+  }
+  return delivery;
+}
+
+// Sends every alert to every enabled endpoint; endpoints run in parallel, alerts in order
+export async function dispatchWebhooks(events: AlertEvent[]): Promise<void> {
+  const endpoints = loadWebhookState().endpoints.filter((endpoint) => endpoint.enabled && endpoint.url);
+  await Promise.all(
+    endpoints.map(async (endpoint) => {
+      for (const event of events) await deliverWebhook(endpoint, event);
+    })
+  );
+}
@@ -0,0 +1,71 @@
+import { WebhookDelivery, WebhookEndpoint } from "@/types/webhooks";
+
+const ENDPOINTS_KEY = "ip-dashboard:webhooks";
+const LOG_KEY = "ip-dashboard:webhook-log";
+export const DELIVERY_LOG_LIMIT = 100;
+
+export interface WebhookState {
+  endpoints: WebhookEndpoint[];
+  /** Newest first */
+  deliveries: WebhookDelivery[];
+}
+
+let state: WebhookState | null = null;
+const listeners: Array<() => void> = [];
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored) as T;
+  } catch (error) {
+    console.warn(`Ignoring invalid ${key}:`, error);
+  }
+  return fallback;
+}
+
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+  }
+}
+
+export function loadWebhookState(): WebhookState {
+  if (state) return state;
+  return (state = { endpoints: read(ENDPOINTS_KEY, []), deliveries: read(LOG_KEY, []) });
+}
+
+function update(patch: Partial<WebhookState>) {
+  state = { ...loadWebhookState(), ...patch };
+  if (patch.endpoints) write(ENDPOINTS_KEY, state.endpoints);
+  if (patch.deliveries) write(LOG_KEY, state.deliveries);
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeWebhookState(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+export function saveWebhookEndpoints(endpoints: WebhookEndpoint[]) {
+  update({ endpoints });
+}
+
+// Inserts a new delivery or replaces the one with the same id as its attempts progress
+export function recordDelivery(delivery: WebhookDelivery) {
+  const deliveries = loadWebhookState().deliveries;
+  const exists = deliveries.some((d) => d.id === delivery.id);
+  update({
+    deliveries: exists
+      ? deliveries.map((d) => (d.id === delivery.id ? delivery : d))
+      : [delivery, ...deliveries].slice(0, DELIVERY_LOG_LIMIT),
+  });
+}
+
+export function clearDeliveryLog() {
+  update({ deliveries: [] });
+}
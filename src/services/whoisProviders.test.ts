@@ -0,0 +1,81 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { abuseContact } from "@/lib/rdap";
+import { createRdapProvider } from "./whoisProviders";
+
+// The server from `npm run mock:rdap`, slowed down a little so a lookup can be aborted mid-flight
+let server: ChildProcess;
+let serverUrl: string;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ["scripts/mock-rdap-server.mjs"], {
+    env: { ...process.env, PORT: "0", DELAY_MS: "50" },
+  });
+  let output = "";
+  serverUrl = await new Promise<string>((resolve, reject) => {
+    server.on("error", reject);
+    server.stdout!.on("data", (chunk) => {
+      output += chunk;
+      const match = output.match(/on (http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+  });
+});
+
+afterAll(() => {
+  server.kill();
+});
+
+describe("createRdapProvider", () => {
+  it("parses the network, its contacts and the origin AS", async () => {
+    const record = await createRdapProvider(`${serverUrl}/`).lookup("203.0.113.7");
+
+    expect(record).toMatchObject({
+      query: "203.0.113.7",
+      handle: "MOCK-203.0.113.0",
+      name: "MOCK-NET",
+      country: "ID",
+      startAddress: "203.0.113.0",
+      endAddress: "203.0.113.255",
+      cidrs: ["203.0.113.0/24"],
+      originASNs: ["AS64500", "AS64501"],
+      status: ["active"],
+      source: `${serverUrl}/ip/203.0.113.7`,
+    });
+    expect(record.contacts.find((contact) => contact.roles.includes("registrant"))).toEqual({
+      handle: "MOCK-ORG",
+      name: "PT Mock Network",
+      roles: ["registrant"],
+      email: "noc@mock.example",
+      phone: "+62-21-5550100",
+      address: "Jl. Contoh No. 1, Jakarta, Indonesia",
+    });
+    // Abuse contacts are listed first even though the registry nests them in the registrant
+    expect(record.contacts[0].handle).toBe("MOCK-ABUSE");
+    expect(abuseContact(record)?.email).toBe("abuse@mock.example");
+    expect(record.events).toEqual([
+      { action: "registration", date: "2019-03-01T00:00:00Z" },
+      { action: "last changed", date: "2024-11-20T08:30:00Z" },
+    ]);
+  });
+
+  it("looks up IPv6 addresses", async () => {
+    const record = await createRdapProvider(serverUrl).lookup("2001:db8:1::1");
+    expect(record.cidrs).toEqual(["2001:db8:1::/48"]);
+  });
+
+  it("reports an address the registry does not know", async () => {
+    await expect(createRdapProvider(serverUrl).lookup("0.1.2.3")).rejects.toThrow("No registration record found for 0.1.2.3");
+  });
+
+  it("reports other HTTP errors with their status", async () => {
+    await expect(createRdapProvider(serverUrl).lookup("255.1.2.3")).rejects.toThrow(/RDAP lookup failed: HTTP 503/);
+  });
+
+  it("stops when the lookup is aborted", async () => {
+    const controller = new AbortController();
+    const lookup = createRdapProvider(serverUrl).lookup("203.0.113.8", controller.signal);
+    controller.abort();
+    await expect(lookup).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
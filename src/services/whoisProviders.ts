@@ -0,0 +1,24 @@
+import { WhoisProvider } from "@/types/whois";
+import { parseRdapIPNetwork } from "@/lib/rdap";
+
+// rdap.org redirects each query to the registry (ARIN, RIPE, APNIC, ...) responsible for the address
+export const DEFAULT_RDAP_URL = "https://rdap.org";
+
+export function createRdapProvider(baseUrl: string = DEFAULT_RDAP_URL): WhoisProvider {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  return {
+    id: `rdap:${base}`,
+    label: base === DEFAULT_RDAP_URL ? "RDAP" : `RDAP (${base})`,
+    async lookup(ip, signal) {
+      const url = `${base}/ip/${encodeURIComponent(ip)}`;
+      const response = await fetch(url, { headers: { Accept: "application/rdap+json" }, signal });
+      if (response.status === 404) throw new Error(`No registration record found for ${ip}`);
+      if (!response.ok) throw new Error(`RDAP lookup failed: HTTP ${response.status} ${response.statusText}`.trim());
+      return parseRdapIPNetwork(ip, await response.json(), response.url || url);
+    },
+  };
+}
+
+// Build-time default, configured through VITE_RDAP_URL, e.g. the local mock from `npm run mock:rdap`
+export const defaultWhoisProvider = createRdapProvider(import.meta.env.VITE_RDAP_URL || DEFAULT_RDAP_URL);
@@ -0,0 +1,51 @@
+import { geoNaturalEarth1, geoPath } from "d3-geo";
+import { feature } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+// Bundled with the app and served from the same origin, so the map works offline and without tiles.
+// The 1:110m scale is plenty for a choropleth; the map fetches it only once its tab is opened.
+import worldAtlasUrl from "world-atlas/countries-110m.json?url";
+import { Country } from "@/types/country";
+import { countryByCode, normalizeCountry } from "@/lib/countries";
+import { COUNTRY_NUMERIC } from "@/lib/countryNumeric";
+
+export const MAP_WIDTH = 960;
+export const MAP_HEIGHT = 480;
+
+export interface CountryShape {
+  /** ISO-2 code, or null for disputed areas the country table has no code for */
+  code: string | null;
+  name: string;
+  /** SVG path data projected into a MAP_WIDTH x MAP_HEIGHT viewBox */
+  path: string;
+}
+
+const BY_NUMERIC = new Map(Object.entries(COUNTRY_NUMERIC).map(([code, numeric]) => [numeric, code]));
+
+// Map features carry the zero-padded numeric code, sometimes as a number
+function countryByNumeric(numeric: string | number): Country | undefined {
+  const code = BY_NUMERIC.get(String(numeric).padStart(3, "0"));
+  return code ? countryByCode(code) : undefined;
+}
+
+export async function loadCountryShapes(): Promise<CountryShape[]> {
+  const response = await fetch(worldAtlasUrl);
+  if (!response.ok) throw new Error(`Could not load the world map: HTTP ${response.status}`);
+  const topology = (await response.json()) as Topology<{ countries: GeometryCollection<{ name: string }> }>;
+
+  // Antarctica only takes up space; no IP data is ever located there
+  const countries = feature(topology, topology.objects.countries);
+  countries.features = countries.features.filter((country) => country.id !== "010");
+
+  const projection = geoNaturalEarth1().fitSize([MAP_WIDTH, MAP_HEIGHT], countries);
+  const toPath = geoPath(projection);
+
+  return countries.features.map((country) => {
+    // Kosovo and a few disputed areas have no numeric code in the atlas; fall back to the name
+    const match = (country.id !== undefined && countryByNumeric(country.id)) || normalizeCountry(country.properties.name);
+    return {
+      code: match?.code ?? null,
+      name: match?.name ?? country.properties.name,
+      path: toPath(country) ?? "",
+    };
+  });
+}
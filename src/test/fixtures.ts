@@ -0,0 +1,15 @@
+import { FIXTURE_IP_DATA } from "@/services/dataSources/fixtureSource";
+
+const HEADERS = Object.keys(FIXTURE_IP_DATA[0]) as (keyof (typeof FIXTURE_IP_DATA)[number])[];
+const quote = (value: unknown) => `"${String(value).replace(/"/g, '""')}"`;
+
+/** The fixture records as a sheet export would serve them */
+export const FIXTURE_CSV = [
+  HEADERS.join(","),
+  ...FIXTURE_IP_DATA.map((record) => HEADERS.map((header) => quote(record[header])).join(",")),
+].join("\r\n");
+
+export const FIXTURE_JSON = JSON.stringify(FIXTURE_IP_DATA);
+
+/** A CSV whose header has none of the required columns */
+export const UNMAPPED_CSV = "foo,bar\n1,2\n";
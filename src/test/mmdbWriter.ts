@@ -0,0 +1,139 @@
+import { parseIP } from "@/lib/ipAddress";
+
+type Value = string | number | boolean | Value[] | { [key: string]: Value };
+
+interface MmdbOptions {
+  ipVersion: 4 | 6;
+  recordSize: 24 | 28 | 32;
+  /** CIDR block and the data stored for it; IPv4 blocks go under ::/96 in an IPv6 tree */
+  networks: [string, Value][];
+  databaseType?: string;
+}
+
+type TreeRecord = { node: number } | { data: number } | null;
+
+function control(type: number, size: number): number[] {
+  let sizeBits = size;
+  let sizeBytes: number[] = [];
+  if (size >= 65821) {
+    sizeBits = 31;
+    sizeBytes = [(size - 65821) >> 16, ((size - 65821) >> 8) & 0xff, (size - 65821) & 0xff];
+  } else if (size >= 285) {
+    sizeBits = 30;
+    sizeBytes = [(size - 285) >> 8, (size - 285) & 0xff];
+  } else if (size >= 29) {
+    sizeBits = 29;
+    sizeBytes = [size - 29];
+  }
+  const head = type <= 7 ? [(type << 5) | sizeBits] : [sizeBits, type - 7];
+  return [...head, ...sizeBytes];
+}
+
+function pointer(offset: number): number[] {
+  if (offset < 2048) return [0x20 | (offset >> 8), offset & 0xff];
+  const shifted = offset - 2048;
+  return [0x28 | (shifted >> 16), (shifted >> 8) & 0xff, shifted & 0xff];
+}
+
+// Data section encoder; repeated strings are written once and pointed to, like real writers do
+function createEncoder(usePointers: boolean) {
+  const bytes: number[] = [];
+  const strings = new Map<string, number>();
+
+  const write = (value: Value) => {
+    if (typeof value === "string") {
+      const seen = strings.get(value);
+      if (seen !== undefined) {
+        bytes.push(...pointer(seen));
+        return;
+      }
+      if (usePointers) strings.set(value, bytes.length);
+      const utf8 = [...new TextEncoder().encode(value)];
+      bytes.push(...control(2, utf8.length), ...utf8);
+    } else if (typeof value === "boolean") {
+      bytes.push(...control(14, value ? 1 : 0));
+    } else if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+      const digits: number[] = [];
+      for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) digits.unshift(rest % 256);
+      bytes.push(...control(6, digits.length), ...digits);
+    } else if (typeof value === "number") {
+      const double = new DataView(new ArrayBuffer(8));
+      double.setFloat64(0, value);
+      bytes.push(...control(3, 8), ...new Uint8Array(double.buffer));
+    } else if (Array.isArray(value)) {
+      bytes.push(...control(11, value.length));
+      value.forEach(write);
+    } else {
+      const entries = Object.entries(value);
+      bytes.push(...control(7, entries.length));
+      for (const [key, item] of entries) {
+        write(key);
+        write(item);
+      }
+    }
+  };
+
+  return { bytes, write };
+}
+
+// Builds a MaxMind DB file in memory, for exercising the reader without a real download
+export function buildMmdb({ ipVersion, recordSize, networks, databaseType = "Test-DB" }: MmdbOptions): ArrayBuffer {
+  const treeBits = ipVersion === 4 ? 32 : 128;
+  const nodes: [TreeRecord, TreeRecord][] = [[null, null]];
+  const data = createEncoder(true);
+
+  for (const [cidr, value] of networks) {
+    const [address, length] = cidr.split("/");
+    const parsed = parseIP(address)!;
+    const prefix = Number(length) + (parsed.version === 4 && ipVersion === 6 ? 96 : 0);
+    const dataOffset = data.bytes.length;
+    data.write(value);
+
+    let node = 0;
+    for (let i = 0; i < prefix; i++) {
+      const bit = Number((parsed.value >> BigInt(treeBits - 1 - i)) & 1n);
+      if (i === prefix - 1) {
+        nodes[node][bit] = { data: dataOffset };
+        break;
+      }
+      const next = nodes[node][bit];
+      if (next && "node" in next) {
+        node = next.node;
+      } else {
+        nodes.push([null, null]);
+        nodes[node][bit] = { node: nodes.length - 1 };
+        node = nodes.length - 1;
+      }
+    }
+  }
+
+  const nodeCount = nodes.length;
+  const recordValue = (record: TreeRecord) =>
+    record === null ? nodeCount : "node" in record ? record.node : nodeCount + 16 + record.data;
+  const tree: number[] = [];
+  for (const [left, right] of nodes.map((pair) => pair.map(recordValue))) {
+    if (recordSize === 24) {
+      tree.push(left >> 16, (left >> 8) & 0xff, left & 0xff, right >> 16, (right >> 8) & 0xff, right & 0xff);
+    } else if (recordSize === 28) {
+      const middle = ((left >> 24) << 4) | (right >> 24);
+      tree.push((left >> 16) & 0xff, (left >> 8) & 0xff, left & 0xff, middle, (right >> 16) & 0xff, (right >> 8) & 0xff, right & 0xff);
+    } else {
+      tree.push(left >>> 24, (left >> 16) & 0xff, (left >> 8) & 0xff, left & 0xff);
+      tree.push(right >>> 24, (right >> 16) & 0xff, (right >> 8) & 0xff, right & 0xff);
+    }
+  }
+
+  const metadata = createEncoder(false);
+  metadata.write({
+    node_count: nodeCount,
+    record_size: recordSize,
+    ip_version: ipVersion,
+    database_type: databaseType,
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: 1700000000,
+  });
+
+  const marker = [0xab, 0xcd, 0xef, ...new TextEncoder().encode("MaxMind.com")];
+  return new Uint8Array([...tree, ...new Array(16).fill(0), ...data.bytes, ...marker, ...metadata.bytes]).buffer;
+}
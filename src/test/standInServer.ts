@@ -0,0 +1,55 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+export type StandInRoute = (request: IncomingMessage, response: ServerResponse) => void | Promise<void>;
+
+export interface StandInServer {
+  /** Base URL without a trailing slash, e.g. http://127.0.0.1:51234 */
+  url: string;
+  /** Paths requested so far, in order */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+// Local HTTP server for tests, answering by path; unknown paths get a 404
+export async function startStandInServer(routes: Record<string, StandInRoute>): Promise<StandInServer> {
+  const requests: string[] = [];
+  const server = createServer(async (request, response) => {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+    requests.push(path);
+    const route = routes[path];
+    if (route) await route(request, response);
+    else response.writeHead(404).end("Not found");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+export function respondWith(status: number, body: string, contentType = "text/plain"): StandInRoute {
+  return (_request, response) => {
+    response.writeHead(status, { "Content-Type": contentType, "Access-Control-Allow-Origin": "*" }).end(body);
+  };
+}
+
+// Holds the response back, for timeout and abort paths
+export function respondAfter(ms: number, route: StandInRoute): StandInRoute {
+  return (request, response) =>
+    new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(route(request, response)), ms);
+      response.on("close", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+}
@@ -0,0 +1,27 @@
+export type AlertRuleKind = "new-ip-score" | "action-blocked" | "asn-burst" | "count-growth";
+
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  name: string;
+  enabled: boolean;
+  /** Score, row count or growth factor depending on the kind; unused by action-blocked */
+  threshold: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  /** Rule plus subject (IP or ASN); snoozing mutes further alerts with the same key */
+  key: string;
+  title: string;
+  message: string;
+  ip?: string;
+  /** Epoch milliseconds */
+  firedAt: number;
+  acknowledged: boolean;
+}
+
+/** Epoch milliseconds each alert key is muted until; kept apart from the inbox so clearing it unmutes nothing */
+export type AlertSnoozes = Record<string, number>;
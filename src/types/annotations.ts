@@ -0,0 +1,15 @@
+export type TriageStatus = "new" | "investigating" | "resolved" | "whitelisted";
+
+/** Analyst notes on one IP, kept in this browser only */
+export interface IPAnnotation {
+  /** Normalized IP address */
+  ip: string;
+  notes: string;
+  tags: string[];
+  status: TriageStatus;
+  assignee: string;
+  /** Pinned to the top of the dashboard */
+  watched: boolean;
+  /** Epoch milliseconds of the last edit */
+  updatedAt: number;
+}
@@ -0,0 +1,13 @@
+/** A whole autonomous system queued for the blocklist export, kept in this browser only */
+export interface BlocklistEntry {
+  /** Normalized ASN, e.g. AS7713 */
+  asn: string;
+  /** ISP names seen for the ASN */
+  name: string;
+  /** Member IPs seen so far; re-adding the ASN merges in new ones */
+  ips: string[];
+  /** Epoch milliseconds of the first add */
+  addedAt: number;
+}
+
+export type BlocklistFormat = "txt" | "csv";
@@ -0,0 +1,11 @@
+/** UN M49 top-level region */
+export type Region = "Africa" | "Americas" | "Asia" | "Europe" | "Oceania" | "Antarctica";
+
+export interface Country {
+  /** ISO 3166-1 alpha-2 code, the normalized form used in filters and charts */
+  code: string;
+  alpha3: string;
+  /** Short English name */
+  name: string;
+  region: Region;
+}
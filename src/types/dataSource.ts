@@ -0,0 +1,42 @@
+import { IPData } from "./ipData";
+
+export type DataSourceKind = "google-sheet" | "file" | "rest" | "fixture";
+
+export type DataSourceConfig =
+  | { kind: "google-sheet"; url?: string; columns?: ColumnAliases }
+  | { kind: "file"; fileName: string; content: string; columns?: ColumnAliases }
+  | { kind: "rest"; url: string; columns?: ColumnAliases }
+  | { kind: "fixture" };
+
+/** Extra header names per IPData field, on top of the built-in aliases */
+export type ColumnAliases = Partial<Record<keyof IPData, string[]>>;
+
+export interface ColumnReport {
+  /** Source header matched to each field */
+  mapped: Partial<Record<keyof IPData, string>>;
+  missingRequired: (keyof IPData)[];
+  missingOptional: (keyof IPData)[];
+  /** Headers that did not match any field and were ignored */
+  unknown: string[];
+}
+
+export interface RejectedRow {
+  /** Line in the CSV source, or 1-based record position for JSON sources */
+  line: number;
+  ip: string;
+  reason: string;
+}
+
+export interface IngestResult {
+  records: IPData[];
+  columns: ColumnReport;
+  rejected: RejectedRow[];
+}
+
+export interface DataSource {
+  /** Stable identifier, changes whenever the underlying location changes */
+  id: string;
+  /** Human readable name shown in the dashboard */
+  label: string;
+  load(signal?: AbortSignal): Promise<IngestResult>;
+}
@@ -0,0 +1,34 @@
+/** Descriptive IPData fields that enrichment providers may fill in when the source leaves them blank */
+export type EnrichableField = "Country" | "City" | "ISP" | "Domain" | "UsageType" | "ASN";
+
+export type EnrichmentResult = Partial<Record<EnrichableField, string>>;
+
+/** Label of the provider that supplied each filled field */
+export type FieldProvenance = Partial<Record<EnrichableField, string>>;
+
+export interface IPEnrichment {
+  values: EnrichmentResult;
+  enrichedBy: FieldProvenance;
+}
+
+export type EnrichmentProviderKind = "geoip" | "rdap" | "rest";
+
+export type GeoIPFormat = "csv" | "mmdb";
+
+export type EnrichmentProviderConfig = { id: string; enabled: boolean } & (
+  /** The file's ranges are kept in IndexedDB under the config id */
+  | { kind: "geoip"; fileName: string; format: GeoIPFormat }
+  | { kind: "rdap"; url?: string; rateLimit?: number }
+  | { kind: "rest"; url: string; rateLimit?: number }
+);
+
+export interface EnrichmentProvider {
+  /** Stable identifier, used to key the lookup cache */
+  id: string;
+  /** Human readable name, also recorded as the provenance of filled fields */
+  label: string;
+  fields: EnrichableField[];
+  /** Maximum lookups per second; omitted for providers that answer from memory */
+  rateLimit?: number;
+  lookup(ip: string, signal?: AbortSignal): Promise<EnrichmentResult>;
+}
@@ -1,3 +1,6 @@
+import { IPAnnotation } from "./annotations";
+import { FieldProvenance } from "./enrichment";
+
 export interface IPData {
   IP: string;
   Country: string;
@@ -12,4 +15,23 @@ export interface IPData {
   JenisAktivitas: string;
   Count: number;
   Action: string;
+  /** Fields the source left blank and an enrichment provider filled in */
+  enrichedBy?: FieldProvenance;
+}
+
+export interface ActivitySummary {
+  JenisAktivitas: string;
+  Count: number;
+  Action: string;
+}
+
+/** One IP with all of its sheet rows merged; scalar fields describe the IP as a whole */
+export interface AggregatedIPData extends IPData {
+  activities: ActivitySummary[];
+  /** Number of sheet rows merged into this record */
+  rowCount: number;
+  /** Locally computed 0–100 risk score, see lib/compositeScore */
+  compositeScore?: number;
+  /** Analyst annotation, when one has been recorded for this IP */
+  annotation?: IPAnnotation;
 }
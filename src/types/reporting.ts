@@ -0,0 +1,56 @@
+/** What the dashboard knows about an IP at the time it is reported */
+export interface ReportEvidence {
+  abuseConfidenceScore: number;
+  totalReports: number;
+  lastReportedAt: string;
+  isp: string;
+  asn: string;
+  country: string;
+  activities: { activity: string; count: number; action: string }[];
+}
+
+export interface AbuseReport {
+  ip: string;
+  /** AbuseIPDB category ids */
+  categories: number[];
+  comment: string;
+  evidence?: ReportEvidence;
+  /** ISO timestamp of when the analyst filed the report */
+  createdAt: string;
+}
+
+export type ReportStatus = "queued" | "sending" | "sent" | "failed";
+
+export interface QueuedReport {
+  id: string;
+  report: AbuseReport;
+  status: ReportStatus;
+  attempts: number;
+  error?: string;
+  /** Identifier returned by the reporter, e.g. a ticket number */
+  reference?: string;
+  /** Epoch milliseconds */
+  queuedAt: number;
+  sentAt?: number;
+}
+
+export type ReporterConfig =
+  | { kind: "local" }
+  | { kind: "rest"; url: string }
+  | {
+      kind: "abuseipdb";
+      apiKey: string;
+      url?: string;
+      /** Keep the key in localStorage (unencrypted) instead of only for this browser session */
+      rememberKey?: boolean;
+    };
+
+export type ReporterKind = ReporterConfig["kind"];
+
+export interface AbuseReporter {
+  /** Stable identifier, changes whenever the destination changes */
+  id: string;
+  /** Human readable name shown in the dashboard */
+  label: string;
+  submit(report: AbuseReport, signal?: AbortSignal): Promise<{ reference?: string }>;
+}
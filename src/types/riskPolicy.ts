@@ -0,0 +1,23 @@
+/** Theme colors a tier can use; each maps to a --<color> CSS variable */
+export type RiskColor = "danger" | "warning" | "primary" | "success";
+
+export interface RiskTier {
+  id: string;
+  label: string;
+  /** Lowest abuse confidence score (inclusive) that falls in this tier */
+  minScore: number;
+  color: RiskColor;
+  /** Counted in the "High Risk" stat and exported by default */
+  highRisk: boolean;
+}
+
+export type CompositeSignal = "abuse" | "reports" | "hits" | "recency" | "usage" | "activity";
+
+/** Relative weight of each signal in the composite score; only the proportions matter */
+export type CompositeWeights = Record<CompositeSignal, number>;
+
+export interface RiskPolicy {
+  /** Ordered from the highest threshold down; the last tier starts at 0 */
+  tiers: RiskTier[];
+  weights: CompositeWeights;
+}
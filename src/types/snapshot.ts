@@ -0,0 +1,27 @@
+import { IPData } from "./ipData";
+
+export interface Snapshot {
+  id: number;
+  /** DataSource.id the records were read from */
+  sourceId: string;
+  /** Epoch milliseconds of the fetch */
+  takenAt: number;
+  records: IPData[];
+}
+
+export type SnapshotMeta = Omit<Snapshot, "records"> & { recordCount: number };
+
+export interface RetentionPolicy {
+  /** Snapshots older than this are deleted */
+  maxAgeDays: number;
+  /** Newest snapshots kept per data source */
+  maxSnapshots: number;
+}
+
+export interface IPHistoryPoint {
+  takenAt: number;
+  AbuseConfidenceScore: number;
+  TotalReports: number;
+  Count: number;
+  Action: string;
+}
@@ -0,0 +1,29 @@
+export type WebhookFormat = "slack" | "teams" | "generic" | "custom";
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  /** JSON body with {{placeholders}}, used by the custom format */
+  template?: string;
+  enabled: boolean;
+}
+
+/** "sent" means the request went out but the receiver does not let the browser read its response */
+export type DeliveryStatus = "pending" | "delivered" | "sent" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  endpointName: string;
+  /** Title of the alert (or test message) that was sent */
+  title: string;
+  status: DeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, when a response came back */
+  httpStatus?: number;
+  error?: string;
+  /** Epoch milliseconds of the first attempt */
+  startedAt: number;
+}
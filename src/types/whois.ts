@@ -0,0 +1,45 @@
+export interface WhoisContact {
+  handle?: string;
+  name?: string;
+  /** RDAP roles such as registrant, abuse or technical */
+  roles: string[];
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+export interface WhoisEvent {
+  action: string;
+  date: string;
+}
+
+/** The registration record of the network an IP belongs to */
+export interface WhoisRecord {
+  /** The IP that was looked up */
+  query: string;
+  handle?: string;
+  name?: string;
+  type?: string;
+  startAddress?: string;
+  endAddress?: string;
+  cidrs: string[];
+  country?: string;
+  /** Autonomous systems announcing the network, where the registry publishes them (ARIN) */
+  originASNs: string[];
+  parentHandle?: string;
+  status: string[];
+  contacts: WhoisContact[];
+  events: WhoisEvent[];
+  remarks: string[];
+  /** URL the record was fetched from */
+  source: string;
+  raw: unknown;
+}
+
+export interface WhoisProvider {
+  /** Stable identifier, used to cache lookups per provider */
+  id: string;
+  /** Human readable name shown in the dashboard */
+  label: string;
+  lookup(ip: string, signal?: AbortSignal): Promise<WhoisRecord>;
+}
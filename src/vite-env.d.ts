@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: "google-sheet" | "rest" | "fixture";
+  readonly VITE_DATA_SOURCE_URL?: string;
+  readonly VITE_RDAP_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}